@@ -12,6 +12,7 @@ import Cosmetics from "@/pages/Cosmetics";
 import OnlineMultiplayer from "@/pages/OnlineMultiplayer";
 import MultiplayerGame from "@/pages/MultiplayerGame";
 import RoomView from "@/pages/RoomView";
+import SpectateGame from "@/pages/SpectateGame";
 import Landing from "@/pages/Landing";
 import NotFound from "@/pages/not-found";
 
@@ -32,6 +33,7 @@ function Router() {
           <Route path="/online-multiplayer" component={OnlineMultiplayer} />
           <Route path="/multiplayer-game" component={MultiplayerGame} />
           <Route path="/room/:code" component={RoomView} />
+          <Route path="/spectate/:code" component={SpectateGame} />
         </>
       )}
       <Route component={NotFound} />
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { MessageCircle, Send } from 'lucide-react';
+import { MAX_CHAT_MESSAGE_LENGTH } from '@shared/schema';
+
+export interface ChatMessage {
+  id: string;
+  userId: string;
+  name: string;
+  text: string;
+  createdAt: string;
+}
+
+interface ChatDrawerProps {
+  messages: ChatMessage[];
+  currentUserId?: string;
+  canSend: boolean; // Only seated players chat
+  onSend: (text: string) => void;
+}
+
+// Floating chat button with an unread count, opening the table's chat in a side drawer
+export default function ChatDrawer({ messages, currentUserId, canSend, onSend }: ChatDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [readCount, setReadCount] = useState(messages.length);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const unread = open ? 0 : Math.max(0, messages.length - readCount);
+
+  // Everything on screen counts as read; keep the newest message in view
+  useEffect(() => {
+    if (!open) return;
+    setReadCount(messages.length);
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [open, messages.length]);
+
+  const handleSend = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <>
+      <Button
+        size="icon"
+        onClick={() => setOpen(true)}
+        className="fixed bottom-4 right-4 z-30 h-12 w-12 rounded-full bg-game-gold text-black hover:bg-yellow-400 shadow-lg"
+        data-testid="button-open-chat"
+      >
+        <MessageCircle className="w-6 h-6" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[20px] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center" data-testid="text-chat-unread">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </Button>
+
+      <Sheet open={open} onOpenChange={setOpen}>
+        <SheetContent className="bg-slate-900 text-white border-slate-700 flex flex-col">
+          <SheetHeader>
+            <SheetTitle className="text-white">Table Chat</SheetTitle>
+            <SheetDescription className="text-gray-400">Messages are seen by everyone at this table</SheetDescription>
+          </SheetHeader>
+
+          <div className="flex-1 overflow-y-auto space-y-2 py-4" data-testid="list-chat-messages">
+            {messages.length === 0 && (
+              <p className="text-sm text-gray-500 text-center">No messages yet. Say hello!</p>
+            )}
+            {messages.map(message => {
+              const mine = message.userId === currentUserId;
+              return (
+                <div key={message.id} className={`flex flex-col ${mine ? 'items-end' : 'items-start'}`}>
+                  {!mine && <span className="text-xs text-gray-400 mb-0.5">{message.name}</span>}
+                  <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm break-words ${mine ? 'bg-green-700' : 'bg-slate-700'}`}>
+                    {message.text}
+                  </div>
+                </div>
+              );
+            })}
+            <div ref={bottomRef} />
+          </div>
+
+          <div className="flex gap-2 pt-2 border-t border-slate-700">
+            <Input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              disabled={!canSend}
+              placeholder={canSend ? 'Type a message...' : 'Only players at the table can chat'}
+              className="bg-slate-800 border-slate-700 text-white"
+              data-testid="input-chat-message"
+            />
+            <Button onClick={handleSend} disabled={!canSend || !draft.trim()} className="bg-green-600 hover:bg-green-700 text-white" data-testid="button-send-chat">
+              <Send className="w-4 h-4" />
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
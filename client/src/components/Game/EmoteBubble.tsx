@@ -0,0 +1,28 @@
+import { QUICK_CHAT_EMOTES } from '@shared/schema';
+import type { ActiveEmote } from '@/hooks/useQuickChat';
+import { cn } from '@/lib/utils';
+
+interface EmoteBubbleProps {
+  emote?: ActiveEmote;
+  className?: string;
+}
+
+// Speech bubble floating over a seat while a quick-chat emote is showing
+export default function EmoteBubble({ emote, className }: EmoteBubbleProps) {
+  const details = emote && QUICK_CHAT_EMOTES.find(option => option.id === emote.emoteId);
+  if (!details) return null;
+
+  return (
+    <div
+      key={emote.key}
+      className={cn(
+        'absolute left-1/2 -translate-x-1/2 -top-2 z-20 whitespace-nowrap rounded-full bg-white px-3 py-1 text-sm font-semibold text-gray-900 shadow-lg animate-in fade-in zoom-in',
+        className
+      )}
+      data-testid="emote-bubble"
+    >
+      <span className="mr-1">{details.emoji}</span>
+      {details.label}
+    </div>
+  );
+}
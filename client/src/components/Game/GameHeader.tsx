@@ -4,9 +4,10 @@ import { Button } from '@/components/ui/button';
 interface GameHeaderProps {
   gameState: GameState;
   onPause: () => void;
+  turnSecondsLeft?: number | null; // Online rooms with a turn timer
 }
 
-export default function GameHeader({ gameState, onPause }: GameHeaderProps) {
+export default function GameHeader({ gameState, onPause, turnSecondsLeft }: GameHeaderProps) {
   const currentPlayer = gameState.players[gameState.currentPlayerIndex];
 
   return (
@@ -29,6 +30,15 @@ export default function GameHeader({ gameState, onPause }: GameHeaderProps) {
           <div className="text-sm opacity-80">
             Current Player: <span data-testid="text-current-player">{currentPlayer.name}</span>
           </div>
+          {turnSecondsLeft != null && (
+            <div
+              className={`text-sm font-semibold ${turnSecondsLeft <= 5 ? 'text-red-400 animate-pulse' : 'text-game-gold'}`}
+              data-testid="text-turn-timer"
+            >
+              <i className="fas fa-stopwatch mr-1"></i>
+              {turnSecondsLeft}s
+            </div>
+          )}
         </div>
 
         <div className="text-white text-right">
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useCosmetics } from '@/hooks/useCosmetics';
 import { getCosmeticAsset } from '@/utils/cosmeticAssets';
+import type { ActiveEmote } from '@/hooks/useQuickChat';
 
 interface GameTableProps {
   gameState: GameState;
@@ -18,6 +19,10 @@ interface GameTableProps {
   onPeekCard: (position: number) => void;
   onEndTurn: () => void;
   onTurnStart?: () => void;
+  emotes?: Record<string, ActiveEmote>; // Online games: emote bubbles by player id
+  isMuted?: (playerId: string) => boolean;
+  onToggleMute?: (playerId: string) => void;
+  spectating?: boolean; // Watching an online game: nothing on the table is clickable
 }
 
 export default function GameTable({
@@ -28,7 +33,11 @@ export default function GameTable({
   onKeepRevealedCard,
   onPeekCard,
   onEndTurn,
-  onTurnStart
+  onTurnStart,
+  emotes,
+  isMuted,
+  onToggleMute,
+  spectating = false
 }: GameTableProps) {
   const currentPlayer = gameState.players[gameState.currentPlayerIndex];
   const { getTableThemeStyle } = useCosmetics();
@@ -75,7 +84,7 @@ export default function GameTable({
     }
   };
 
-  const canDrawCard = gameState.gamePhase === 'playing' && isPlayerTurn && !gameState.drawnCard && !gameState.roundEndTriggered;
+  const canDrawCard = !spectating && gameState.gamePhase === 'playing' && isPlayerTurn && !gameState.drawnCard && !gameState.turnComplete;
   const canDrawFromDiscard = canDrawCard && !gameState.extraTurn; // Can't draw from discard during extra turn
   
   // Debug logging
@@ -86,12 +95,12 @@ export default function GameTable({
       console.log('gameState.extraTurn:', gameState.extraTurn);
     }
   }, [gameState.extraTurn, canDrawFromDiscard]);
-  const canMakeChoice = gameState.drawnCard && gameState.selectedGridPosition !== null && !gameState.roundEndTriggered;
+  const canMakeChoice = gameState.drawnCard && gameState.selectedGridPosition !== null;
   
   // Special rule: if player has only one face-down card left at start of turn, they can discard directly
   const humanPlayerFaceDownCount = humanPlayer.grid.filter(card => !card.isRevealed && !card.isDisabled).length;
   // Only show direct discard if: has drawn card, has 1 face-down card, no position selected yet, and round hasn't ended
-  const canDiscardDirectly = gameState.drawnCard && humanPlayerFaceDownCount === 1 && isPlayerTurn && gameState.selectedGridPosition === null && !gameState.roundEndTriggered;
+  const canDiscardDirectly = gameState.drawnCard && humanPlayerFaceDownCount === 1 && isPlayerTurn && gameState.selectedGridPosition === null && !gameState.hasRevealedCardThisTurn;
 
   const tableThemeStyle = getTableThemeStyle();
   const tableAsset = getCosmeticAsset(tableThemeStyle.cosmeticId || 'green_felt');
@@ -119,6 +128,9 @@ export default function GameTable({
             player={aiPlayer}
             isCurrentPlayer={gameState.players[gameState.currentPlayerIndex].id === aiPlayer.id}
             className=""
+            emote={emotes?.[aiPlayer.id]}
+            isMuted={isMuted?.(aiPlayer.id)}
+            onToggleMute={onToggleMute && (() => onToggleMute(aiPlayer.id))}
           />
         ))}
       </div>
@@ -176,8 +188,10 @@ export default function GameTable({
         player={humanPlayer}
         isCurrentPlayer={isPlayerTurn}
         selectedPosition={gameState.selectedGridPosition}
-        onCardClick={gameState.gamePhase === 'peek' ? onPeekCard : 
-                    (gameState.gamePhase === 'playing' && gameState.drawnCard && !gameState.roundEndTriggered ? onSelectGridPosition : undefined)}
+        onCardClick={spectating ? undefined :
+                    gameState.gamePhase === 'peek' ? onPeekCard : 
+                    (gameState.gamePhase === 'playing' && gameState.drawnCard ? onSelectGridPosition : undefined)}
+        emote={emotes?.[humanPlayer.id]}
       />
 
       {/* Game Actions - Fixed Height Container */}
@@ -187,13 +201,14 @@ export default function GameTable({
             <>
               <div className="text-center text-white mb-3">
                 <div className="text-sm opacity-80">
-                  {gameState.roundEndTriggered
-                    ? 'Round ended! All players get one final turn.'
-                    : canDiscardDirectly
-                      ? 'With only 1 face-down card left, you can discard directly or place the card'
-                      : gameState.selectedGridPosition !== null 
-                        ? 'Choose to keep the drawn card or the revealed card'
-                        : 'Select a card slot to place your drawn card (you can only reveal one card per turn)'
+                  {gameState.roundEndTriggered && (
+                    <div className="font-semibold text-game-gold mb-1">Final turn! A player has revealed all their cards.</div>
+                  )}
+                  {canDiscardDirectly
+                    ? 'With only 1 face-down card left, you can discard directly or place the card'
+                    : gameState.selectedGridPosition !== null 
+                      ? 'Choose to keep the drawn card or the revealed card'
+                      : 'Select a card slot to place your drawn card (you can only reveal one card per turn)'
                   }
                 </div>
               </div>
@@ -246,13 +261,19 @@ export default function GameTable({
             </div>
           )}
 
-          {gameState.gamePhase === 'peek' && (
+          {gameState.gamePhase === 'peek' && !spectating && (
             <div className="text-center text-white">
               <div className="text-sm opacity-80">
                 Click on 2 cards to reveal them before the game begins
               </div>
             </div>
           )}
+
+          {spectating && (
+            <div className="text-center text-white text-sm opacity-80" data-testid="text-spectating">
+              You are watching this game. Face-down cards stay hidden until they are revealed.
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -3,14 +3,21 @@ import { checkThreeOfAKind, calculatePlayerScore } from '@/utils/gameLogic';
 import Card from './Card';
 import { cn } from '@/lib/utils';
 import { useCosmetics } from '@/hooks/useCosmetics';
+import { getAIPersonality } from '@shared/aiPersonalities';
+import EmoteBubble from './EmoteBubble';
+import type { ActiveEmote } from '@/hooks/useQuickChat';
+import { Volume2, VolumeX } from 'lucide-react';
 
 interface OpponentGridProps {
   player: Player;
   isCurrentPlayer?: boolean;
   className?: string;
+  emote?: ActiveEmote;
+  isMuted?: boolean;
+  onToggleMute?: () => void; // Online games only: hide this player's emotes and chat
 }
 
-export default function OpponentGrid({ player, isCurrentPlayer = false, className }: OpponentGridProps) {
+export default function OpponentGrid({ player, isCurrentPlayer = false, className, emote, isMuted = false, onToggleMute }: OpponentGridProps) {
   // Check if this is an empty seat
   const isEmpty = (player as any).isEmpty;
   
@@ -28,6 +35,7 @@ export default function OpponentGrid({ player, isCurrentPlayer = false, classNam
 
   // Calculate current round score based on revealed cards
   const currentRoundScore = isEmpty ? 0 : calculatePlayerScore(player.grid);
+  const personality = player.personalityId ? getAIPersonality(player.personalityId) : null;
 
   // Show empty seat placeholder
   if (isEmpty) {
@@ -58,7 +66,8 @@ export default function OpponentGrid({ player, isCurrentPlayer = false, classNam
   }
 
   return (
-    <div className={cn('opponent-grid', className)} data-testid={`opponent-grid-${player.id}`}>
+    <div className={cn('opponent-grid relative', className)} data-testid={`opponent-grid-${player.id}`}>
+      <EmoteBubble emote={emote} />
       <div className="text-center mb-3">
         {/* Playing indicator with reserved space to avoid layout shift */}
         <div className="h-4 flex items-center justify-center mb-1">
@@ -90,7 +99,23 @@ export default function OpponentGrid({ player, isCurrentPlayer = false, classNam
             })()}
           </div>
           <div className="text-white font-medium">{player.name}</div>
+          {onToggleMute && !player.isAI && (
+            <button
+              type="button"
+              onClick={onToggleMute}
+              className="text-white/60 hover:text-white"
+              title={isMuted ? 'Unmute player' : 'Mute player'}
+              data-testid={`button-mute-${player.id}`}
+            >
+              {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+            </button>
+          )}
         </div>
+        {personality && (
+          <div className="text-gray-400 text-xs" data-testid={`text-opponent-style-${player.id}`}>
+            {personality.style}
+          </div>
+        )}
         <div className="text-game-cream text-sm">
           <div>Round: <span className="font-semibold" data-testid={`text-opponent-round-score-${player.id}`}>
             {currentRoundScore}
@@ -3,6 +3,8 @@ import { checkThreeOfAKind } from '@/utils/gameLogic';
 import Card from './Card';
 import { cn } from '@/lib/utils';
 import { useCosmetics } from '@/hooks/useCosmetics';
+import EmoteBubble from './EmoteBubble';
+import type { ActiveEmote } from '@/hooks/useQuickChat';
 
 interface PlayerGridProps {
   player: Player;
@@ -10,6 +12,7 @@ interface PlayerGridProps {
   selectedPosition?: number | null;
   onCardClick?: (position: number) => void;
   className?: string;
+  emote?: ActiveEmote; // The emote this player just sent, in online games
 }
 
 export default function PlayerGrid({ 
@@ -17,7 +20,8 @@ export default function PlayerGrid({
   isCurrentPlayer = false, 
   selectedPosition, 
   onCardClick,
-  className 
+  className,
+  emote
 }: PlayerGridProps) {
   const threeOfAKindColumns = checkThreeOfAKind(player.grid);
   const { getAvatarUrl } = useCosmetics();
@@ -34,7 +38,8 @@ export default function PlayerGrid({
   return (
     <div className={cn('text-center', className)}>
       {/* Player Info */}
-      <div className="mb-4">
+      <div className="mb-4 relative">
+        <EmoteBubble emote={emote} className="-top-8" />
         <div className="flex items-center justify-center space-x-3 mb-2">
           <div className={cn(
             'w-10 h-10 rounded-full flex items-center justify-center text-white font-semibold border-2 overflow-hidden',
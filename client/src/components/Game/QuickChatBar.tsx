@@ -0,0 +1,29 @@
+import { QUICK_CHAT_EMOTES, type QuickChatEmoteId } from '@shared/schema';
+import { Button } from '@/components/ui/button';
+
+interface QuickChatBarProps {
+  disabled?: boolean; // While the send throttle cools down
+  onSend: (emoteId: QuickChatEmoteId) => void;
+}
+
+// One-tap reactions for players who can't type mid-turn
+export default function QuickChatBar({ disabled, onSend }: QuickChatBarProps) {
+  return (
+    <div className="flex flex-wrap justify-center gap-2" data-testid="quick-chat-bar">
+      {QUICK_CHAT_EMOTES.map(emote => (
+        <Button
+          key={emote.id}
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => onSend(emote.id)}
+          className="rounded-full bg-white/10 border-white/20 text-white hover:bg-white/20"
+          data-testid={`button-emote-${emote.id}`}
+        >
+          <span className="mr-1">{emote.emoji}</span>
+          {emote.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient, readApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Check, Copy, UserMinus, UserPlus, X } from "lucide-react";
+
+interface FriendEntry {
+  friendshipId: string;
+  userId: string;
+  name: string;
+  online: boolean;
+  since: string | null;
+}
+
+interface FriendList {
+  friends: FriendEntry[];
+  incoming: FriendEntry[];
+  outgoing: FriendEntry[];
+}
+
+interface FriendsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Friends list, requests and presence; friends see each other's friends-only tables
+export default function FriendsPanel({ open, onOpenChange }: FriendsPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [friendId, setFriendId] = useState("");
+
+  const { data } = useQuery<FriendList>({
+    queryKey: ["/api/friends"],
+    refetchInterval: open ? 10000 : false, // Presence comes from the server's open sockets
+    enabled: !!user,
+  });
+
+  // Every friends call refreshes the list and reports failures the same way
+  const friendAction = async (method: string, url: string, body?: unknown, success?: string) => {
+    try {
+      await apiRequest(method, url, body);
+      queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+      if (success) toast({ title: success });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Friends",
+        description: readApiError(error).details?.message || "Please try again",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleAddFriend = async () => {
+    const id = friendId.trim();
+    if (!id) return;
+    if (await friendAction("POST", "/api/friends/requests", { userId: id }, "Friend request sent")) {
+      setFriendId("");
+    }
+  };
+
+  const handleCopyId = () => {
+    if (!user) return;
+    navigator.clipboard.writeText(user.id);
+    toast({ title: "Player ID copied!", description: "Friends add you with this ID" });
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-gray-900 text-white border-gray-700 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">Friends</SheetTitle>
+          <SheetDescription className="text-gray-400">
+            Friends can see and join each other's friends-only tables
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-6 py-4">
+          {/* Own ID and adding friends */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-400">Your player ID</span>
+              <Button size="sm" variant="ghost" onClick={handleCopyId} className="text-white hover:bg-white/10">
+                <span className="font-mono mr-2 truncate max-w-[160px]">{user?.id}</span>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={friendId}
+                onChange={(e) => setFriendId(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleAddFriend()}
+                placeholder="Friend's player ID"
+                className="bg-gray-800 border-gray-700 text-white"
+                data-testid="input-friend-id"
+              />
+              <Button onClick={handleAddFriend} disabled={!friendId.trim()} className="bg-green-600 hover:bg-green-700 text-white">
+                <UserPlus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {/* Requests waiting for an answer */}
+          {!!data?.incoming.length && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">Friend Requests</h3>
+              {data.incoming.map(request => (
+                <div key={request.friendshipId} className="flex items-center justify-between p-2 bg-white/5 rounded-lg" data-testid={`friend-request-${request.userId}`}>
+                  <span>{request.name}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => friendAction("POST", `/api/friends/requests/${request.friendshipId}/accept`, undefined, `You and ${request.name} are now friends`)}
+                      className="text-green-400 hover:bg-green-600/20"
+                      title="Accept"
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => friendAction("POST", `/api/friends/requests/${request.friendshipId}/decline`)}
+                      className="text-red-400 hover:bg-red-600/20"
+                      title="Decline"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Separator className="bg-white/10" />
+            </div>
+          )}
+
+          {/* Friends, online first */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-300">
+              Friends ({data?.friends.filter(friend => friend.online).length ?? 0} online)
+            </h3>
+            {!data?.friends.length ? (
+              <p className="text-sm text-gray-500">No friends yet. Share your player ID to get started.</p>
+            ) : (
+              data.friends.map(friend => (
+                <div key={friend.friendshipId} className="flex items-center justify-between p-2 bg-white/5 rounded-lg" data-testid={`friend-${friend.userId}`}>
+                  <div className="flex items-center gap-2">
+                    <span className={`w-2 h-2 rounded-full ${friend.online ? "bg-green-400" : "bg-gray-500"}`} />
+                    <span>{friend.name}</span>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => friendAction("DELETE", `/api/friends/${friend.userId}`)}
+                    className="text-gray-400 hover:text-red-300 hover:bg-red-600/20"
+                    title="Remove friend"
+                  >
+                    <UserMinus className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Requests this player sent */}
+          {!!data?.outgoing.length && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-300">Sent Requests</h3>
+              {data.outgoing.map(request => (
+                <div key={request.friendshipId} className="flex items-center justify-between p-2 bg-white/5 rounded-lg">
+                  <div className="flex items-center gap-2">
+                    <span>{request.name}</span>
+                    <Badge variant="outline" className="text-yellow-400 border-yellow-400 text-xs">Pending</Badge>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => friendAction("DELETE", `/api/friends/${request.userId}`)}
+                    className="text-gray-400 hover:bg-white/10"
+                    title="Cancel request"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EMOTE_THROTTLE_MS, type QuickChatEmoteId } from '@shared/schema';
+
+const EMOTE_DISPLAY_MS = 3000; // How long a bubble stays over a seat
+const MUTED_PLAYERS_KEY = 'mutedPlayers';
+
+export interface ActiveEmote {
+  emoteId: QuickChatEmoteId;
+  key: number; // Changes with every emote so a repeat restarts the bubble
+}
+
+// Emote bubbles per seat, the local cooldown between sends, and players this
+// user has muted (kept in localStorage so mutes survive a reload)
+export function useQuickChat() {
+  const [activeEmotes, setActiveEmotes] = useState<Record<string, ActiveEmote>>({});
+  const [mutedPlayerIds, setMutedPlayerIds] = useState<string[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(MUTED_PLAYERS_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  });
+  const [coolingDown, setCoolingDown] = useState(false);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const mutedRef = useRef(mutedPlayerIds); // Lets showEmote stay stable for socket handlers
+  mutedRef.current = mutedPlayerIds;
+
+  useEffect(() => {
+    localStorage.setItem(MUTED_PLAYERS_KEY, JSON.stringify(mutedPlayerIds));
+  }, [mutedPlayerIds]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  const isMuted = useCallback((playerId: string) => mutedPlayerIds.includes(playerId), [mutedPlayerIds]);
+
+  const toggleMute = (playerId: string) => {
+    setMutedPlayerIds(previous =>
+      previous.includes(playerId) ? previous.filter(id => id !== playerId) : [...previous, playerId]
+    );
+  };
+
+  // Shows an emote over the sender's seat unless they are muted
+  const showEmote = useCallback((playerId: string, emoteId: QuickChatEmoteId) => {
+    if (mutedRef.current.includes(playerId)) return;
+
+    setActiveEmotes(previous => ({ ...previous, [playerId]: { emoteId, key: Date.now() } }));
+    clearTimeout(timers.current.get(playerId));
+    timers.current.set(playerId, setTimeout(() => {
+      setActiveEmotes(({ [playerId]: _, ...rest }) => rest);
+      timers.current.delete(playerId);
+    }, EMOTE_DISPLAY_MS));
+  }, []);
+
+  // The server drops emotes inside the throttle too; this just keeps the buttons honest
+  const startCooldown = () => {
+    setCoolingDown(true);
+    setTimeout(() => setCoolingDown(false), EMOTE_THROTTLE_MS);
+  };
+
+  return { activeEmotes, showEmote, isMuted, toggleMute, coolingDown, startCooldown };
+}
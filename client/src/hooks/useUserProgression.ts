@@ -1,7 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { GameStats, GameHistory } from "@shared/schema";
+import type { GameStats, GameHistory, CurrencyTransaction, Achievement } from "@shared/schema";
+import type { GameMove, SoloGameTicket } from "@shared/gameTypes";
 
 export function useUserStats() {
   return useQuery<GameStats>({
@@ -17,19 +18,22 @@ export function useUserHistory(limit = 10) {
   });
 }
 
+export function useUserTransactions() {
+  return useQuery<CurrencyTransaction[]>({
+    queryKey: ["/api/user/transactions"],
+    retry: false,
+  });
+}
+
 export function useCompleteGame() {
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
   return useMutation({
+    // Scores are not sent: the server replays the move log from the ticket's seed
     mutationFn: async (gameData: {
-      gameMode: string;
-      playerCount: number;
-      rounds: number;
-      finalScore: number;
-      placement: number;
-      won: boolean;
-      gameDuration?: number;
+      ticket: SoloGameTicket;
+      moves: GameMove[];
     }) => {
       const response = await fetch("/api/game/complete", {
         method: "POST",
@@ -50,6 +54,8 @@ export function useCompleteGame() {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/history"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/achievements"] });
       
       // Show success notification with rewards
       toast({
@@ -68,6 +74,17 @@ export function useCompleteGame() {
           });
         }, 1000);
       }
+      
+      // One toast per achievement unlocked by this game, after the level-up
+      (data.newAchievements as Achievement[] | undefined)?.forEach((achievement, index) => {
+        setTimeout(() => {
+          toast({
+            title: `Achievement Unlocked: ${achievement.name}`,
+            description: `${achievement.description} (+${achievement.xpReward ?? 0} XP, +${achievement.coinReward ?? 0} coins)`,
+            variant: "default",
+          });
+        }, 2000 + index * 1000);
+      });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
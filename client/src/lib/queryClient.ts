@@ -23,6 +23,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors look like "409: {json body}"
+export function readApiError(error: unknown): { status?: string; details: any } {
+  const [, status, body] = /^(\d{3}): ([\s\S]*)$/.exec((error as Error).message) || [];
+  try {
+    return { status, details: body ? JSON.parse(body) : null };
+  } catch {
+    return { status, details: null };
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -38,6 +38,7 @@ export default function Cosmetics() {
       queryClient.invalidateQueries({ queryKey: ["/api/cosmetics"] });
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/cosmetics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/transactions"] });
       toast({
         title: "Purchase Successful",
         description: "Cosmetic item added to your collection!",
@@ -1,23 +1,43 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useLocation } from 'wouter';
 import { useGameLogic } from '@/hooks/useGameLogic';
+import { useCompleteGame } from '@/hooks/useUserProgression';
+import { apiRequest } from '@/lib/queryClient';
 import { GameSettings } from '@/types/game';
+import type { SoloGameTicket, AIDifficulty } from '@shared/gameTypes';
+import { AI_DIFFICULTIES } from '@shared/aiLogic';
+import type { Achievement } from '@shared/schema';
 import GameHeader from '@/components/Game/GameHeader';
 import GameTable from '@/components/Game/GameTable';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { calculatePlayerScore } from '@/utils/gameLogic';
 import { cn } from '@/lib/utils';
+import { Trophy } from 'lucide-react';
+
+// Solo and pass-and-play settings as chosen in GameSetup
+function readGameSettings(search: string): GameSettings {
+  const params = new URLSearchParams(search);
+  const mode = params.get('mode') as 'solo' | 'pass-play' || 'solo';
+  const players = parseInt(params.get('players') || '2') as 2 | 3 | 4;
+  const rounds = parseInt(params.get('rounds') || '5') as 5 | 9;
+  const difficulty = params.get('difficulty') as AIDifficulty;
+  const aiDifficulty = AI_DIFFICULTIES.includes(difficulty) ? difficulty : 'normal';
+
+  return { mode, playerCount: players, rounds, aiDifficulty };
+}
 
 export default function Game() {
   const [, setLocation] = useLocation();
   const [showPauseMenu, setShowPauseMenu] = useState(false);
   const [showGameResults, setShowGameResults] = useState(false);
-  const [skipNextEndTurn, setSkipNextEndTurn] = useState(false);
   const [showTurnStart, setShowTurnStart] = useState(false);
   const [lastActivePlayer, setLastActivePlayer] = useState<number | null>(null);
+  const ticketRef = useRef<SoloGameTicket | null>(null);
+  const completeGame = useCompleteGame();
   const {
     gameState,
+    moves,
     isProcessing,
     startGame,
     startNextRound,
@@ -32,6 +52,30 @@ export default function Game() {
     resetGame
   } = useGameLogic();
 
+  // Solo games are dealt from a server-issued seed so the result can be verified
+  // by replaying the move log; without a ticket the game is simply unrewarded
+  const beginGame = useCallback(async (settings: GameSettings) => {
+    ticketRef.current = null;
+    completeGame.reset();
+
+    if (settings.mode === 'solo') {
+      try {
+        const response = await apiRequest('POST', '/api/game/start', {
+          playerCount: settings.playerCount,
+          rounds: settings.rounds,
+          aiDifficulty: settings.aiDifficulty
+        });
+        const ticket: SoloGameTicket = await response.json();
+        ticketRef.current = ticket;
+        startGame(settings, ticket.seed);
+        return;
+      } catch (error) {
+        console.error('[Game] Could not get a game ticket, rewards disabled:', error);
+      }
+    }
+    startGame(settings);
+  }, [startGame, completeGame.reset]);
+
   // Initialize game from URL params (ONLY for solo and pass-play modes)
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -46,13 +90,8 @@ export default function Game() {
     }
     
     // Only handle solo and pass-play modes
-    const mode = params.get('mode') as 'solo' | 'pass-play' || 'solo';
-    const players = parseInt(params.get('players') || '2') as 2 | 3 | 4;
-    const rounds = parseInt(params.get('rounds') || '5') as 5 | 9;
-
-    const settings: GameSettings = { mode, playerCount: players, rounds };
-    startGame(settings);
-  }, [startGame, setLocation]);
+    beginGame(readGameSettings(window.location.search));
+  }, [beginGame, setLocation]);
 
   // Handle AI turns (only in solo mode)
   useEffect(() => {
@@ -96,18 +135,29 @@ export default function Game() {
     });
 
     // Check for round end
-    if (gameState.roundEndTriggered && gameState.currentRound < gameState.totalRounds) {
+    if (gameState.gamePhase === 'round-end') {
       // End round, start next
-      setTimeout(() => {
+      const timer = setTimeout(() => {
         startNextRound();
       }, 2000);
-    } else if (gameState.roundEndTriggered && gameState.currentRound >= gameState.totalRounds) {
+      return () => clearTimeout(timer);
+    } else if (gameState.gamePhase === 'game-end') {
       // Game end
-      setTimeout(() => {
+      const timer = setTimeout(() => {
         setShowGameResults(true);
       }, 2000);
+      return () => clearTimeout(timer);
     }
-  }, [gameState]);
+  }, [gameState, startNextRound]);
+
+  // Submit the finished solo game; the server replays it before awarding anything
+  useEffect(() => {
+    if (gameState?.gamePhase !== 'game-end' || !ticketRef.current) return;
+
+    const ticket = ticketRef.current;
+    ticketRef.current = null;
+    completeGame.mutate({ ticket, moves });
+  }, [gameState?.gamePhase, moves, completeGame.mutate]);
 
   // Handle direct discard event
   useEffect(() => {
@@ -120,17 +170,6 @@ export default function Game() {
     return () => window.removeEventListener('directDiscard', handleDirectDiscard);
   }, [directDiscardCard, endTurn]);
 
-  // Handle skip endTurn event when three-of-a-kind is detected
-  useEffect(() => {
-    const handleSkipEndTurn = () => {
-      console.log('🎯 Received skipEndTurn event - setting flag');
-      setSkipNextEndTurn(true);
-    };
-    
-    window.addEventListener('skipEndTurn', handleSkipEndTurn);
-    return () => window.removeEventListener('skipEndTurn', handleSkipEndTurn);
-  }, []);
-
   // Handle pass-and-play turn transitions
   useEffect(() => {
     if (!gameState || gameState.gameMode !== 'pass-play') return;
@@ -176,19 +215,10 @@ export default function Game() {
       keepRevealedCard();
     }
     
-    // Check if we should skip the automatic endTurn after the state updates
+    // End the turn once the state updates; the rules engine ignores this while a
+    // three-of-a-kind extra turn is still pending
     setTimeout(() => {
-      // Use a function to get the latest state at execution time
-      setSkipNextEndTurn(currentSkipFlag => {
-        if (currentSkipFlag) {
-          console.log('🚫 Skipping endTurn because extraTurn was granted');
-          return false; // Reset the flag
-        } else {
-          console.log('✅ No extra turn, calling endTurn normally');
-          endTurn();
-          return false; // Keep flag false
-        }
-      });
+      endTurn();
     }, 1500);
   };
 
@@ -199,13 +229,7 @@ export default function Game() {
 
   const playAgain = () => {
     setShowGameResults(false);
-    const params = new URLSearchParams(window.location.search);
-    const mode = params.get('mode') as 'solo' | 'pass-play' || 'solo';
-    const players = parseInt(params.get('players') || '2') as 2 | 3 | 4;
-    const rounds = parseInt(params.get('rounds') || '5') as 5 | 9;
-
-    const settings: GameSettings = { mode, playerCount: players, rounds };
-    startGame(settings);
+    beginGame(readGameSettings(window.location.search));
   };
 
   if (!gameState) {
@@ -217,7 +241,6 @@ export default function Game() {
   }
 
   const sortedPlayers = [...gameState.players].sort((a, b) => a.totalScore - b.totalScore);
-  const winner = sortedPlayers[0];
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-game-green to-game-felt">
@@ -339,19 +362,29 @@ export default function Game() {
             </div>
 
             {/* Rewards */}
-            {winner.id === 'player-0' && (
+            {completeGame.data && (
               <div className="bg-game-gold bg-opacity-10 rounded-xl p-4 mb-6">
                 <h3 className="font-semibold text-gray-900 mb-3">Rewards Earned</h3>
                 <div className="flex justify-center space-x-6">
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-game-gold">+150</div>
+                    <div className="text-2xl font-bold text-game-gold">+{completeGame.data.xpEarned}</div>
                     <div className="text-sm text-gray-600">XP</div>
                   </div>
                   <div className="text-center">
-                    <div className="text-2xl font-bold text-game-gold">+25</div>
+                    <div className="text-2xl font-bold text-game-gold">+{completeGame.data.coinsEarned}</div>
                     <div className="text-sm text-gray-600">Coins</div>
                   </div>
                 </div>
+                {completeGame.data.newAchievements?.length > 0 && (
+                  <div className="mt-3 pt-3 border-t border-game-gold border-opacity-30" data-testid="text-new-achievements">
+                    {completeGame.data.newAchievements.map((achievement: Achievement) => (
+                      <div key={achievement.id} className="flex items-center justify-center gap-2 text-sm text-gray-700">
+                        <Trophy className="w-4 h-4 text-game-gold" />
+                        {achievement.name}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
 
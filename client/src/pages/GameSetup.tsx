@@ -2,6 +2,8 @@ import { useState, useEffect } from 'react';
 import { useLocation } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { GameSettings } from '@/types/game';
+import type { AIDifficulty } from '@shared/gameTypes';
+import { AI_DIFFICULTIES } from '@shared/aiLogic';
 import { cn } from '@/lib/utils';
 
 export default function GameSetup() {
@@ -9,7 +11,8 @@ export default function GameSetup() {
   const [settings, setSettings] = useState<GameSettings>({
     playerCount: 2,
     rounds: 5,
-    mode: 'solo'
+    mode: 'solo',
+    aiDifficulty: 'normal'
   });
 
   // Get mode from URL params
@@ -29,12 +32,19 @@ export default function GameSetup() {
     setSettings(prev => ({ ...prev, rounds }));
   };
 
+  const setAIDifficulty = (aiDifficulty: AIDifficulty) => {
+    setSettings(prev => ({ ...prev, aiDifficulty }));
+  };
+
   const startGame = () => {
     const params = new URLSearchParams({
       mode: settings.mode,
       players: settings.playerCount.toString(),
       rounds: settings.rounds.toString()
     });
+    if (settings.mode === 'solo' && settings.aiDifficulty) {
+      params.set('difficulty', settings.aiDifficulty);
+    }
     setLocation(`/game?${params.toString()}`);
   };
 
@@ -108,6 +118,30 @@ export default function GameSetup() {
             </div>
           </div>
 
+          {/* AI Difficulty */}
+          {settings.mode === 'solo' && (
+            <div className="bg-white bg-opacity-10 backdrop-blur-sm rounded-xl p-6">
+              <h3 className="text-white font-semibold mb-4">AI Difficulty</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {AI_DIFFICULTIES.map((difficulty) => (
+                  <Button
+                    key={difficulty}
+                    onClick={() => setAIDifficulty(difficulty)}
+                    className={cn(
+                      'py-3 px-4 rounded-lg font-medium capitalize transition-all',
+                      settings.aiDifficulty === difficulty
+                        ? 'bg-blue-600 text-white border-2 border-blue-500'
+                        : 'bg-white bg-opacity-20 text-white hover:bg-opacity-30'
+                    )}
+                    data-testid={`button-difficulty-${difficulty}`}
+                  >
+                    {difficulty}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Start Game */}
           <Button 
             onClick={startGame}
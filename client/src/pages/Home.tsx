@@ -6,9 +6,19 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
-import { useUserStats } from '@/hooks/useUserProgression';
+import { useUserStats, useUserTransactions } from '@/hooks/useUserProgression';
 import HowToPlay from '@/components/Game/HowToPlay';
 import { getCosmeticAsset } from '@/utils/cosmeticAssets';
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  game_reward: 'Game reward',
+  cosmetic_purchase: 'Cosmetic purchase',
+  stake_entry: 'Table entry fee',
+  stake_refund: 'Entry fee refund',
+  stake_payout: 'Table winnings',
+  achievement: 'Achievement reward',
+};
+
 interface CosmeticWithDetails {
   id: string;
   cosmeticId: string;
@@ -25,6 +35,7 @@ export default function Home() {
   
   const { user } = useAuth();
   const { data: userStats } = useUserStats();
+  const { data: transactions = [] } = useUserTransactions();
   
   const { data: userCosmetics = [] } = useQuery<CosmeticWithDetails[]>({
     queryKey: ["/api/user/cosmetics"],
@@ -349,6 +360,36 @@ export default function Home() {
               </div>
             </div>
             
+            {/* Wallet History */}
+            <div>
+              <h3 className="font-semibold text-white mb-3">Wallet History</h3>
+              {transactions.length > 0 ? (
+                <div className="space-y-1 max-h-48 overflow-y-auto pr-1" data-testid="list-wallet-history">
+                  {transactions.map(transaction => (
+                    <div key={transaction.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-700/30 text-sm">
+                      <div>
+                        <div className="text-white">{TRANSACTION_LABELS[transaction.reason] || transaction.reason}</div>
+                        <div className="text-xs text-slate-400">
+                          {transaction.createdAt ? new Date(transaction.createdAt).toLocaleString() : ''}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className={transaction.delta >= 0 ? 'font-semibold text-green-400' : 'font-semibold text-red-400'}>
+                          {transaction.delta >= 0 ? `+${transaction.delta}` : transaction.delta}
+                        </div>
+                        <div className="text-xs text-slate-400">{transaction.balanceAfter} coins</div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-4 text-slate-400">
+                  <i className="fas fa-coins text-2xl mb-2 opacity-50 text-game-gold"></i>
+                  <p className="text-sm text-white">No transactions yet</p>
+                </div>
+              )}
+            </div>
+            
             {/* Equipped Cosmetics Section */}
             <div>
               <div className="flex justify-between items-center mb-3">
@@ -1,27 +1,44 @@
 import { useEffect, useState, useRef } from 'react';
 import { useLocation } from 'wouter';
 import { useQuery } from '@tanstack/react-query';
-import { queryClient, apiRequest } from '@/lib/queryClient';
+import { queryClient, apiRequest, readApiError } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import GameHeader from '@/components/Game/GameHeader';
 import GameTable from '@/components/Game/GameTable';
+import ChatDrawer, { type ChatMessage } from '@/components/Game/ChatDrawer';
+import QuickChatBar from '@/components/Game/QuickChatBar';
+import { useQuickChat } from '@/hooks/useQuickChat';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Users, Timer, Trophy } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Users, Timer, Trophy, Bot, Crown, UserX, Check, Link2, Eye } from 'lucide-react';
 import { GameState } from '@/types/game';
+import type { GameStateView, AIDifficulty } from '@shared/gameTypes';
+import type { QuickChatEmoteId } from '@shared/schema';
+import { AI_DIFFICULTIES } from '@shared/aiLogic';
 
 interface RoomSnapshot {
   code: string;
   id: string;
+  hostId?: string;
   maxPlayers: number;
   playersSeated: number;
   seatsOpen: number;
   rounds: number;
   stakeBracket: string;
-  status: 'inGame_waiting' | 'inGame_active' | 'completed';
-  gameState?: GameState;
+  visibility?: 'public' | 'private' | 'friends';
+  status: 'inGame_waiting' | 'inGame_active' | 'finished';
+  spectatorCount?: number; // Sockets watching the table without a seat
+  gameState?: {
+    state: 'waiting' | 'active' | 'finished';
+    tableSlots: any[];
+    kickedPlayerIds?: string[]; // Players the host removed from this room
+    game: GameStateView | null; // Rules-engine state as this player is allowed to see it
+    turnTimeRemainingMs: number | null; // Time left on the current turn, null when untimed
+  };
   players: Array<{
     userId: string;
     username: string;
@@ -38,9 +55,15 @@ interface RoomSnapshot {
 export default function MultiplayerGame() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [showPauseMenu, setShowPauseMenu] = useState(false);
   const [showGameResults, setShowGameResults] = useState(false);
   const [roomSnapshot, setRoomSnapshot] = useState<RoomSnapshot | null>(null);
+  const [turnSecondsLeft, setTurnSecondsLeft] = useState<number | null>(null);
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>('normal');
+  const [isStarting, setIsStarting] = useState(false);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const { activeEmotes, showEmote, isMuted, toggleMute, coolingDown, startCooldown } = useQuickChat();
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastVersionRef = useRef<number>(0);
@@ -116,12 +139,22 @@ export default function MultiplayerGame() {
               setRoomSnapshot(message.snapshot);
               
               // Check if game has ended
-              if (message.snapshot.status === 'completed') {
+              if (message.snapshot.status === 'finished') {
                 setShowGameResults(true);
+                // The server has paid out results; refresh coins and XP
+                queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+                queryClient.invalidateQueries({ queryKey: ["/api/user/stats"] });
               }
             } else {
               console.log('[MultiplayerGame] Ignoring stale snapshot v' + newVersion + ' (current: ' + currentVersion + ')');
             }
+          } else if (message.type === 'chat_history') {
+            // Sent on every (re)subscribe, so it replaces what we had
+            setChatMessages(message.messages || []);
+          } else if (message.type === 'chat_message' && message.message) {
+            setChatMessages(previous => [...previous, message.message]);
+          } else if (message.type === 'emote') {
+            showEmote(message.userId, message.emoteId);
           } else if (message.type === 'room_deleted') {
             toast({
               title: "Room Closed",
@@ -174,7 +207,34 @@ export default function MultiplayerGame() {
         wsRef.current = null;
       }
     };
-  }, [roomCode, initialRoom, toast, setLocation]);
+  }, [roomCode, initialRoom, toast, setLocation, showEmote]);
+
+  // Count the turn clock down locally from the time left in the latest snapshot
+  useEffect(() => {
+    const remainingMs = roomSnapshot?.gameState?.turnTimeRemainingMs;
+    if (remainingMs == null) {
+      setTurnSecondsLeft(null);
+      return;
+    }
+
+    const deadline = Date.now() + remainingMs;
+    const tick = () => setTurnSecondsLeft(Math.max(0, Math.ceil((deadline - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 250);
+    return () => clearInterval(interval);
+  }, [roomSnapshot]);
+
+  // The host removed us from the table: head back to the lobby
+  useEffect(() => {
+    if (user?.id && roomSnapshot?.gameState?.kickedPlayerIds?.includes(user.id)) {
+      toast({
+        title: "Removed from Table",
+        description: "The host removed you from this room.",
+        variant: "destructive"
+      });
+      setLocation('/online-multiplayer');
+    }
+  }, [roomSnapshot, user, toast, setLocation]);
 
   // Set initial snapshot from query
   useEffect(() => {
@@ -184,16 +244,21 @@ export default function MultiplayerGame() {
       setRoomSnapshot(snapshot);
       // Parse version as number
       lastVersionRef.current = parseInt(snapshot.version?.toString() || '0');
+      if (snapshot.status === 'finished') {
+        setShowGameResults(true);
+      }
     }
   }, [initialRoom, roomSnapshot]);
 
-  // Server-authoritative game actions
+  // Server-authoritative game actions. Each action carries the snapshot version it
+  // was made against; the server answers 409 with the latest table if we were behind.
   const sendGameAction = async (action: string, data?: any) => {
     if (!roomCode) return;
     
     try {
       const response = await apiRequest('POST', `/api/rooms/${roomCode}/action`, {
         action,
+        version: lastVersionRef.current,
         ...data
       });
       const result = await response.json();
@@ -208,20 +273,53 @@ export default function MultiplayerGame() {
       // The new state will come through WebSocket
     } catch (error) {
       console.error('[MultiplayerGame] Action error:', error);
+      const { status, details } = readApiError(error);
+      
+      if (status === '409' && details?.gameSnapshot) {
+        // We acted on a stale table; catch up and let the player try again
+        lastVersionRef.current = parseInt(details.gameSnapshot.version || '0');
+        setRoomSnapshot(details.gameSnapshot);
+        toast({
+          title: "Table Updated",
+          description: "The table changed before your move arrived. Please try again."
+        });
+        return;
+      }
+      
       toast({
-        title: "Error",
-        description: "Failed to perform action",
+        title: status === '400' ? "Action Failed" : "Error",
+        description: details?.message || "Failed to perform action",
         variant: "destructive"
       });
     }
   };
 
-  const handleDrawCard = () => sendGameAction('draw_card');
+  const handleDrawCard = (source: 'draw' | 'discard') => sendGameAction('draw_card', { source });
   const handleSelectGridPosition = (position: number) => sendGameAction('select_grid_position', { position });
   const handleKeepDrawnCard = () => sendGameAction('keep_drawn_card');
   const handleKeepRevealedCard = () => sendGameAction('keep_revealed_card');
   const handlePeekCard = (index: number) => sendGameAction('peek_card', { index });
   const handleEndTurn = () => sendGameAction('end_turn');
+
+  // GameTable raises a window event for the one-face-down-card direct discard
+  useEffect(() => {
+    const handleDirectDiscard = () => sendGameAction('discard_drawn_card');
+
+    window.addEventListener('directDiscard', handleDirectDiscard);
+    return () => window.removeEventListener('directDiscard', handleDirectDiscard);
+  });
+  
+  // Seat management before the deal goes through the action endpoint too
+  const handleToggleReady = (ready: boolean) => sendGameAction(ready ? 'ready' : 'unready');
+  const handleKickPlayer = (playerId: string) => sendGameAction('kick', { playerId });
+  
+  // Host only: deal now, optionally with AI players in the empty seats
+  const handleStartGame = async (withAI: boolean) => {
+    setIsStarting(true);
+    await sendGameAction('start_game', withAI ? { aiDifficulty } : undefined);
+    // The dealt table will come through WebSocket
+    setIsStarting(false);
+  };
   
   const handleLeaveRoom = async () => {
     if (!roomCode) return;
@@ -239,6 +337,28 @@ export default function MultiplayerGame() {
     }
   };
 
+  // Chat rides on the room socket; the server filters, rate limits and echoes it back
+  const handleSendChat = (text: string) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'chat_send', text }));
+    }
+  };
+  const handleSendEmote = (emoteId: QuickChatEmoteId) => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ type: 'emote_send', emoteId }));
+      startCooldown();
+    }
+  };
+  const isSeated = !!user?.id && (roomSnapshot?.gameState?.tableSlots || []).some(slot => slot.playerId === user.id);
+  const chatDrawer = (
+    <ChatDrawer
+      messages={chatMessages.filter(message => !isMuted(message.userId))} // Muting a player hides their chat too
+      currentUserId={user?.id}
+      canSend={isSeated}
+      onSend={handleSendChat}
+    />
+  );
+
   const handlePlayAgain = () => {
     setShowGameResults(false);
     setLocation('/online-multiplayer');
@@ -260,6 +380,13 @@ export default function MultiplayerGame() {
 
   // Waiting for players state
   if (roomSnapshot.status === 'inGame_waiting') {
+    const isHost = user?.id === roomSnapshot.hostId;
+    const tableSlots = roomSnapshot.gameState?.tableSlots || [];
+    const mySlot = tableSlots.find(slot => slot.playerId === user?.id);
+    const seatedCount = tableSlots.filter(slot => !slot.isEmpty).length;
+    // Starting the game is the host's own ready-up
+    const everyoneReady = tableSlots.every(slot => slot.isEmpty || slot.isReady || slot.playerId === roomSnapshot.hostId);
+
     return (
       <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 p-4">
         <div className="max-w-4xl mx-auto">
@@ -270,34 +397,71 @@ export default function MultiplayerGame() {
                 <Badge className="text-lg px-4 py-2">
                   Room Code: {roomSnapshot.code}
                 </Badge>
+                <div className="mt-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="bg-white/10 border-white/20 text-white hover:bg-white/20"
+                    onClick={() => {
+                      navigator.clipboard.writeText(`${window.location.origin}/room/${roomSnapshot.code}`);
+                      toast({ title: "Invite link copied!", description: "Send it to the players you want at this table" });
+                    }}
+                    data-testid="button-copy-invite-link"
+                  >
+                    <Link2 className="w-4 h-4 mr-2" />
+                    {roomSnapshot.visibility === 'private' ? 'Copy Private Invite Link' : 'Copy Invite Link'}
+                  </Button>
+                </div>
               </div>
 
               <div className="grid grid-cols-2 gap-4 mb-8 max-w-md mx-auto">
-                {Array.from({ length: roomSnapshot.maxPlayers }).map((_, index) => {
-                  const player = roomSnapshot.players?.find(p => p.seatIndex === index);
-                  return (
-                    <Card 
-                      key={index} 
-                      className={`p-4 ${player ? 'bg-green-900/50' : 'bg-gray-800/50'} border-white/20`}
-                    >
-                      <div className="flex items-center gap-3">
-                        <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
-                          player ? 'bg-green-600' : 'bg-gray-600'
-                        }`}>
+                {tableSlots.map(slot => (
+                  <Card 
+                    key={slot.seatNumber} 
+                    className={`p-4 ${slot.isEmpty ? 'bg-gray-800/50' : 'bg-green-900/50'} border-white/20`}
+                    data-testid={`seat-${slot.seatNumber}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <div className={`w-12 h-12 rounded-full flex items-center justify-center ${
+                        slot.isEmpty ? 'bg-gray-600' : 'bg-green-600'
+                      }`}>
+                        {slot.playerId === roomSnapshot.hostId ? (
+                          <Crown className="w-6 h-6 text-yellow-300" />
+                        ) : (
                           <Users className="w-6 h-6 text-white" />
-                        </div>
-                        <div className="flex-1">
-                          <p className="text-white font-medium">
-                            {player ? player.username : `Waiting...`}
-                          </p>
-                          <p className="text-gray-400 text-sm">
-                            Seat {index + 1}
-                          </p>
-                        </div>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white font-medium truncate">
+                          {slot.isEmpty ? `Waiting...` : slot.playerName}
+                        </p>
+                        <p className="text-gray-400 text-sm">
+                          Seat {slot.seatNumber + 1}
+                        </p>
+                        {!slot.isEmpty && slot.playerId !== roomSnapshot.hostId && (
+                          <Badge
+                            variant="outline"
+                            className={slot.isReady ? 'text-green-400 border-green-400' : 'text-yellow-400 border-yellow-400'}
+                          >
+                            {slot.isReady ? "Ready" : "Not ready"}
+                          </Badge>
+                        )}
                       </div>
-                    </Card>
-                  );
-                })}
+                      {isHost && !slot.isEmpty && slot.playerId !== user?.id && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => handleKickPlayer(slot.playerId)}
+                          className="text-red-400 hover:text-red-300 hover:bg-red-600/20"
+                          title="Remove from table"
+                          data-testid={`button-kick-${slot.seatNumber}`}
+                        >
+                          <UserX className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </Card>
+                ))}
               </div>
 
               <div className="text-center">
@@ -305,6 +469,62 @@ export default function MultiplayerGame() {
                   <Timer className="inline w-5 h-5 mr-2" />
                   {roomSnapshot.playersSeated} of {roomSnapshot.maxPlayers} players joined
                 </div>
+                {!isHost && mySlot && (
+                  <div className="mb-6">
+                    <Button
+                      onClick={() => handleToggleReady(!mySlot.isReady)}
+                      className={mySlot.isReady ? "bg-gray-600 hover:bg-gray-700 text-white" : "bg-green-600 hover:bg-green-700 text-white"}
+                      data-testid="button-toggle-ready"
+                    >
+                      <Check className="w-4 h-4 mr-2" />
+                      {mySlot.isReady ? "Not Ready" : "Ready"}
+                    </Button>
+                  </div>
+                )}
+                {isHost && (
+                  <div className="mb-6 space-y-3">
+                    {!everyoneReady && (
+                      <p className="text-yellow-300 text-sm">Waiting for everyone to get ready</p>
+                    )}
+                    {roomSnapshot.stakeBracket === 'free' ? (
+                      <Button
+                        onClick={() => handleStartGame(false)}
+                        disabled={isStarting || !everyoneReady || seatedCount < 2}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                        data-testid="button-start-game"
+                      >
+                        {isStarting ? "Starting..." : "Start Game"}
+                      </Button>
+                    ) : (
+                      <p className="text-white/70 text-sm">Staked tables start once every seat is taken</p>
+                    )}
+                    {roomSnapshot.stakeBracket === 'free' && (
+                      <>
+                        <ToggleGroup
+                          type="single"
+                          value={aiDifficulty}
+                          onValueChange={value => value && setAIDifficulty(value as AIDifficulty)}
+                          className="justify-center"
+                        >
+                          {AI_DIFFICULTIES.map(difficulty => (
+                            <ToggleGroupItem key={difficulty} value={difficulty} className="text-white capitalize">
+                              {difficulty}
+                            </ToggleGroupItem>
+                          ))}
+                        </ToggleGroup>
+                        <Button
+                          onClick={() => handleStartGame(true)}
+                          disabled={isStarting || !everyoneReady}
+                          className="bg-green-600 hover:bg-green-700 text-white"
+                          data-testid="button-start-with-ai"
+                        >
+                          <Bot className="w-4 h-4 mr-2" />
+                          {isStarting ? "Starting..." : "Start Now with AI Players"}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
                 <Button 
                   onClick={handleLeaveRoom}
                   variant="outline"
@@ -316,66 +536,47 @@ export default function MultiplayerGame() {
             </div>
           </Card>
         </div>
+        {chatDrawer}
       </div>
     );
   }
 
-  // Active game state - render server's authoritative game state
-  if (roomSnapshot.status === 'inGame_active' && roomSnapshot.gameState) {
-    const serverState = roomSnapshot.gameState as any;
+  // Active or finished game - render server's authoritative game state
+  if ((roomSnapshot.status === 'inGame_active' || roomSnapshot.status === 'finished') && roomSnapshot.gameState?.game) {
+    const serverGame = roomSnapshot.gameState.game;
     
-    // Transform server game state to match client's expected format
-    // IMPORTANT: Include ALL table slots to show correct number of seats (2, 3, or 4 players)
-    const transformedGameState: any = {
-      players: (serverState.tableSlots || [])
-        .map((slot: any, index: number) => {
-          if (slot.isEmpty) {
-            // Show empty seat as a placeholder player
-            return {
-              id: `empty_${index}`,
-              name: 'Empty Seat',
-              isAI: false,
-              isEmpty: true,
-              grid: Array(9).fill({ suit: '', rank: '', isRevealed: false }),
-              roundScore: 0,
-              totalScore: 0,
-              roundScores: []
-            };
-          } else {
-            // Active player
-            return {
-              id: slot.playerId,
-              name: slot.playerName || `Player ${index + 1}`,
-              isAI: false,
-              isEmpty: false,
-              grid: slot.cards || [],
-              roundScore: slot.score || 0,
-              totalScore: slot.totalScore || 0,
-              roundScores: slot.roundScores || []
-            };
-          }
-        }),
-      currentPlayerIndex: serverState.currentPlayerIndex || 0,
-      gamePhase: serverState.gamePhase || 'playing',
-      drawnCard: serverState.drawnCard || null,
-      discardPile: serverState.discardPile || [],
-      deck: serverState.deck || [],
-      selectedGridPosition: serverState.selectedPosition,
-      currentRound: roomSnapshot.currentRound || 0,
-      totalRounds: (roomSnapshot.rounds || 9) as (5 | 9),
-      gameMode: 'online' as const,
-      maxPlayers: roomSnapshot.maxPlayers || 4,
-      roundEndTriggered: false,
-      hasRevealedCardThisTurn: false
+    // GameTable always renders players[0] as the local user, so rotate the seat
+    // order to start with our own seat and shift turn indices to match
+    const playerCount = serverGame.players.length;
+    const myIndex = Math.max(0, serverGame.players.findIndex(p => p.id === user?.id));
+    const toLocalIndex = (index: number) => (index - myIndex + playerCount) % playerCount;
+    
+    // Seats the server is playing while their player is away are labelled as bots
+    const botControlledIds = new Set(
+      (roomSnapshot.gameState.tableSlots || []).filter(slot => slot.botControlled).map(slot => slot.playerId)
+    );
+    const seatedPlayers = serverGame.players.map(player =>
+      botControlledIds.has(player.id) ? { ...player, name: `${player.name} (Bot)` } : player
+    );
+    
+    // The server only sends the draw pile as a count; the table just renders its back
+    const { drawPileCount, ...visibleGame } = serverGame;
+    const transformedGameState: GameState = {
+      ...visibleGame,
+      drawPile: [],
+      rngState: 0,
+      players: [...seatedPlayers.slice(myIndex), ...seatedPlayers.slice(0, myIndex)],
+      currentPlayerIndex: toLocalIndex(serverGame.currentPlayerIndex),
+      roundEndingPlayer: serverGame.roundEndingPlayer !== undefined 
+        ? toLocalIndex(serverGame.roundEndingPlayer) 
+        : undefined
     };
     
     console.log('[MultiplayerGame] Rendering game state:', {
       phase: transformedGameState.gamePhase,
       currentPlayer: transformedGameState.currentPlayerIndex,
-      totalSeats: transformedGameState.players.length,
-      activePlayers: transformedGameState.players.filter((p: any) => !p.isEmpty).length,
-      maxPlayers: transformedGameState.maxPlayers,
-      deck: transformedGameState.deck.length,
+      players: playerCount,
+      drawPile: drawPileCount,
       discardPile: transformedGameState.discardPile.length
     });
     
@@ -384,9 +585,16 @@ export default function MultiplayerGame() {
         <GameHeader 
           gameState={transformedGameState} 
           onPause={() => setShowPauseMenu(true)} 
+          turnSecondsLeft={turnSecondsLeft}
         />
 
         <div className="flex-1 p-4 overflow-hidden">
+          {!!roomSnapshot.spectatorCount && (
+            <div className="flex justify-end text-white/70 text-sm mb-2" data-testid="text-spectator-count">
+              <Eye className="w-4 h-4 mr-1" />
+              {roomSnapshot.spectatorCount} watching
+            </div>
+          )}
           <GameTable
             gameState={transformedGameState}
             onDrawCard={handleDrawCard}
@@ -396,9 +604,44 @@ export default function MultiplayerGame() {
             onPeekCard={handlePeekCard}
             onEndTurn={handleEndTurn}
             onTurnStart={() => {}}
+            emotes={activeEmotes}
+            isMuted={isMuted}
+            onToggleMute={toggleMute}
           />
+          {isSeated && roomSnapshot.status === 'inGame_active' && (
+            <div className="mt-4 pr-16">
+              <QuickChatBar disabled={coolingDown} onSend={handleSendEmote} />
+            </div>
+          )}
         </div>
 
+        {/* Round Results - shown while the server pauses before dealing the next round */}
+        {serverGame.gamePhase === 'round-end' && (
+          <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40">
+            <Card className="p-6 bg-slate-900 border-game-gold text-white min-w-[280px]">
+              <h2 className="text-2xl font-bold text-center mb-4">
+                Round {serverGame.currentRound} Complete
+              </h2>
+              <div className="space-y-2">
+                {[...serverGame.players]
+                  .sort((a, b) => a.roundScore - b.roundScore)
+                  .map(player => (
+                    <div key={player.id} className="flex justify-between gap-6">
+                      <span>{player.name}</span>
+                      <span className="font-semibold">
+                        {player.roundScore > 0 ? `+${player.roundScore}` : player.roundScore}
+                        <span className="text-gray-400 text-sm ml-2">({player.totalScore})</span>
+                      </span>
+                    </div>
+                  ))}
+              </div>
+              <p className="text-gray-400 text-sm text-center mt-4">Next round starting soon...</p>
+            </Card>
+          </div>
+        )}
+
+        {chatDrawer}
+
         {/* Pause Menu */}
         <Dialog open={showPauseMenu} onOpenChange={setShowPauseMenu}>
           <DialogContent>
@@ -435,11 +678,11 @@ export default function MultiplayerGame() {
 
               <div className="bg-gray-50 rounded-xl p-4 mb-6">
                 <div className="space-y-3">
-                  {roomSnapshot.players
-                    ?.sort((a, b) => (a.totalScore || 0) - (b.totalScore || 0))
+                  {[...serverGame.players]
+                    .sort((a, b) => a.totalScore - b.totalScore)
                     .map((player, index) => (
                       <div 
-                        key={player.userId}
+                        key={player.id}
                         className="flex justify-between items-center py-2 border-b border-gray-200 last:border-b-0"
                       >
                         <div className="flex items-center gap-3">
@@ -447,11 +690,11 @@ export default function MultiplayerGame() {
                             {index === 0 ? '🏆' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`}
                           </span>
                           <span className="font-medium text-gray-900">
-                            {player.username}
+                            {player.name}
                           </span>
                         </div>
                         <span className="font-bold text-gray-900">
-                          {player.totalScore || 0} pts
+                          {player.totalScore} pts
                         </span>
                       </div>
                     ))}
@@ -473,7 +716,7 @@ export default function MultiplayerGame() {
     );
   }
 
-  // Fallback for completed or unknown states
+  // Fallback for unknown states
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 flex items-center justify-center">
       <Card className="p-8 bg-black/20 backdrop-blur border-white/10">
@@ -2,17 +2,19 @@ import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { ArrowLeft, Users, Settings, Trophy, Coins, DollarSign, Star, Crown } from "lucide-react";
-import { STAKE_BRACKETS, type StakeBracket, type GameRoom } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { ArrowLeft, Users, Settings, Trophy, Coins, DollarSign, Star, Crown, KeyRound, Eye } from "lucide-react";
+import { STAKE_BRACKETS, TURN_TIME_OPTIONS, DEFAULT_TURN_TIME_SECONDS, type StakeBracket, type GameRoom, type RoomVisibility } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import FriendsPanel from "@/components/Social/FriendsPanel";
 
 interface StakeOption {
   value: StakeBracket;
@@ -47,6 +49,20 @@ export default function OnlineMultiplayer() {
   const [createRoomOpen, setCreateRoomOpen] = useState(false);
   const [playerCount, setPlayerCount] = useState("4");
   const [roundCount, setRoundCount] = useState("9");
+  const [turnTime, setTurnTime] = useState(String(DEFAULT_TURN_TIME_SECONDS));
+  const [visibility, setVisibility] = useState<RoomVisibility>("public");
+  const [passphrase, setPassphrase] = useState("");
+  
+  // Join by Code Dialog state
+  const [joinByCodeOpen, setJoinByCodeOpen] = useState(false);
+  const [joinCode, setJoinCode] = useState("");
+  const [friendsOpen, setFriendsOpen] = useState(false);
+  
+  // Games in progress at this stake that can be watched
+  const { data: liveRooms = [] } = useQuery<Array<GameRoom & { spectatorCount: number }>>({
+    queryKey: ["/api/rooms/live", selectedStake],
+    refetchInterval: 10000,
+  });
 
   // Persist stake selection to localStorage
   useEffect(() => {
@@ -114,17 +130,22 @@ export default function OnlineMultiplayer() {
   
   // Create room mutation
   const createRoomMutation = useMutation({
-    mutationFn: async (params: { maxPlayers: number; rounds: number }) => {
+    mutationFn: async (params: { maxPlayers: number; rounds: number; turnTimeSeconds: number; visibility: RoomVisibility; passphrase: string }) => {
       const res = await apiRequest("POST", "/api/rooms/create", { 
         stakeBracket: selectedStake,
         rounds: params.rounds,
-        maxPlayers: params.maxPlayers
+        maxPlayers: params.maxPlayers,
+        turnTimeSeconds: params.turnTimeSeconds,
+        visibility: params.visibility,
+        passphrase: params.visibility === "private" ? params.passphrase : ""
       });
       return await res.json();
     },
     onSuccess: (response: any) => {
       if (response.success && response.gameSnapshot) {
         console.log("Room created, navigating to game:", response.gameSnapshot.code);
+        // The entry fee is now held in the room's escrow
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
         toast({
           title: "Game Starting!",
           description: `Joining table...`,
@@ -156,9 +177,21 @@ export default function OnlineMultiplayer() {
   const handleCreateRoom = () => {
     createRoomMutation.mutate({
       maxPlayers: parseInt(playerCount),
-      rounds: parseInt(roundCount)
+      rounds: parseInt(roundCount),
+      turnTimeSeconds: parseInt(turnTime),
+      visibility,
+      passphrase: passphrase.trim()
     });
   };
+  
+  // Private rooms are opened by code; the room page takes care of seating and passphrases
+  const handleJoinByCode = () => {
+    const code = joinCode.trim().toUpperCase();
+    if (!code) return;
+    setJoinByCodeOpen(false);
+    setJoinCode("");
+    navigate(`/room/${code}`);
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 p-4">
@@ -169,7 +202,12 @@ export default function OnlineMultiplayer() {
           
           {/* Navigation Controls */}
           <div className="flex flex-wrap gap-2">
-            <Button variant="outline" className="bg-white/10 backdrop-blur border-white/20 text-white hover:bg-white/20">
+            <Button
+              variant="outline"
+              className="bg-white/10 backdrop-blur border-white/20 text-white hover:bg-white/20"
+              onClick={() => setFriendsOpen(true)}
+              data-testid="button-social"
+            >
               <Users className="w-4 h-4 mr-2" />
               Social
             </Button>
@@ -247,6 +285,16 @@ export default function OnlineMultiplayer() {
                 >
                   Create Room
                 </Button>
+                <Button 
+                  size="sm"
+                  variant="outline" 
+                  className="bg-white/10 backdrop-blur border-white/20 text-white hover:bg-white/20"
+                  onClick={() => setJoinByCodeOpen(true)}
+                  data-testid="button-join-by-code"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Join by Code
+                </Button>
                 <Button 
                   size="sm"
                   variant="outline" 
@@ -306,6 +354,11 @@ export default function OnlineMultiplayer() {
                             <Badge className="bg-white/20 text-white border-white/30">
                               {currentStake.label}
                             </Badge>
+                            {room.visibility === "friends" && (
+                              <Badge variant="outline" className="text-white border-white/30">
+                                Friends
+                              </Badge>
+                            )}
                           </div>
                           
                           <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
@@ -344,6 +397,7 @@ export default function OnlineMultiplayer() {
                               const result = await response.json();
                               
                               if (result.success || result.alreadySeated) {
+                                queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
                                 // Navigate to MultiplayerGame component for online rooms
                                 navigate(`/multiplayer-game?room=${room.code}`);
                               } else {
@@ -375,6 +429,49 @@ export default function OnlineMultiplayer() {
           </CardContent>
         </Card>
 
+        {/* Games in Progress Section */}
+        {liveRooms.length > 0 && (
+          <Card className="mt-6 bg-black/20 backdrop-blur border-white/10">
+            <CardContent className="p-4 sm:p-6">
+              <h2 className="text-xl font-semibold text-white mb-4">Games in Progress</h2>
+              <div className="space-y-3" data-testid="live-rooms-list">
+                {liveRooms.map((room) => {
+                  const players = room.players as any[];
+                  
+                  return (
+                    <div 
+                      key={room.id} 
+                      className="p-4 bg-white/10 rounded-lg border border-white/20 flex justify-between items-center"
+                      data-testid={`live-room-${room.code}`}
+                    >
+                      <div>
+                        <p className="text-white font-semibold">Room {room.code}</p>
+                        <p className="text-white/60 text-xs">
+                          {players.map((p: any, idx: number) => p.name || `Player ${idx + 1}`).join(", ")}
+                        </p>
+                        <p className="text-white/60 text-xs flex items-center gap-1 mt-1">
+                          <Eye className="w-3 h-3" />
+                          {room.spectatorCount} watching
+                        </p>
+                      </div>
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        className="bg-white/10 border-white/20 text-white hover:bg-white/20 ml-4"
+                        onClick={() => navigate(`/spectate/${room.code}`)}
+                        data-testid={`button-watch-${room.code}`}
+                      >
+                        <Eye className="w-4 h-4 mr-2" />
+                        Watch
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Mobile-friendly bottom navigation */}
         <div className="sm:hidden fixed bottom-0 left-0 right-0 bg-black/80 backdrop-blur border-t border-white/20 p-4">
           <div className="flex justify-around">
@@ -382,7 +479,7 @@ export default function OnlineMultiplayer() {
               <Trophy className="w-5 h-5" />
               <span className="text-xs">Rooms</span>
             </Button>
-            <Button variant="ghost" className="text-white flex-col gap-1 h-auto py-2">
+            <Button variant="ghost" className="text-white flex-col gap-1 h-auto py-2" onClick={() => setFriendsOpen(true)}>
               <Users className="w-5 h-5" />
               <span className="text-xs">Social</span>
             </Button>
@@ -442,6 +539,54 @@ export default function OnlineMultiplayer() {
                 </RadioGroup>
               </div>
               
+              {/* Turn Timer Selection */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Turn Timer</Label>
+                <RadioGroup value={turnTime} onValueChange={setTurnTime}>
+                  <div className="flex gap-4">
+                    {TURN_TIME_OPTIONS.map(seconds => (
+                      <div key={seconds} className="flex items-center space-x-2">
+                        <RadioGroupItem value={String(seconds)} id={`turn-time-${seconds}`} />
+                        <Label htmlFor={`turn-time-${seconds}`} className="cursor-pointer">
+                          {seconds === 0 ? "Off" : `${seconds}s`}
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </RadioGroup>
+              </div>
+              
+              {/* Visibility Selection */}
+              <div className="space-y-3">
+                <Label className="text-sm font-medium">Visibility</Label>
+                <RadioGroup value={visibility} onValueChange={(value) => setVisibility(value as RoomVisibility)}>
+                  <div className="flex gap-4">
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="public" id="visibility-public" />
+                      <Label htmlFor="visibility-public" className="cursor-pointer">Public (listed)</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="friends" id="visibility-friends" />
+                      <Label htmlFor="visibility-friends" className="cursor-pointer">Friends only</Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="private" id="visibility-private" />
+                      <Label htmlFor="visibility-private" className="cursor-pointer">Private (invite only)</Label>
+                    </div>
+                  </div>
+                </RadioGroup>
+                {visibility === "private" && (
+                  <Input
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    maxLength={64}
+                    placeholder="Passphrase (optional)"
+                    className="bg-gray-800 border-gray-700 text-white"
+                    data-testid="input-room-passphrase"
+                  />
+                )}
+              </div>
+              
               {/* Stake Information */}
               <div className="p-3 bg-gray-800 rounded-lg">
                 <div className="flex items-center justify-between">
@@ -479,6 +624,48 @@ export default function OnlineMultiplayer() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+        
+        <FriendsPanel open={friendsOpen} onOpenChange={setFriendsOpen} />
+        
+        {/* Join by Code Dialog */}
+        <Dialog open={joinByCodeOpen} onOpenChange={setJoinByCodeOpen}>
+          <DialogContent className="bg-gray-900 text-white border-gray-700">
+            <DialogHeader>
+              <DialogTitle>Join by Code</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                Enter the room code from your invite
+              </DialogDescription>
+            </DialogHeader>
+            
+            <Input
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => e.key === "Enter" && handleJoinByCode()}
+              maxLength={6}
+              placeholder="ABC123"
+              className="bg-gray-800 border-gray-700 text-white text-center text-2xl tracking-widest"
+              data-testid="input-join-code"
+            />
+            
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setJoinByCodeOpen(false)}
+                className="bg-gray-800 text-white border-gray-700 hover:bg-gray-700"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleJoinByCode}
+                disabled={!joinCode.trim()}
+                className="bg-green-600 hover:bg-green-700 text-white"
+                data-testid="button-join-code-submit"
+              >
+                Find Room
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -1,8 +1,11 @@
 import { useEffect, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
+import { queryClient, apiRequest, readApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { 
@@ -12,7 +15,11 @@ import {
   Copy, 
   CheckCircle2,
   ArrowLeft,
-  Loader2
+  Loader2,
+  UserX,
+  Link2,
+  Lock,
+  UserPlus
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -23,12 +30,18 @@ interface RoomData {
   players: any[];
   maxPlayers: number;
   stakeBracket: string;
+  visibility: string;
+  hasPassphrase: boolean;
   settings: {
     rounds: number;
     timeLimit: number | null;
     allowSpectators: boolean;
   };
   status: string;
+  gameState: {
+    tableSlots: Array<{ seatNumber: number; isEmpty: boolean; playerId: string | null; isReady: boolean }>;
+    kickedPlayerIds?: string[];
+  } | null;
   playerCount: number;
   version: number;
   isActive: boolean;
@@ -47,8 +60,11 @@ export default function RoomView() {
   const { code } = useParams<{ code: string }>();
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const { user } = useAuth();
   const [codeCopied, setCodeCopied] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [isJoining, setIsJoining] = useState(false);
 
   // Fetch room details
   const { data: room, isLoading, error } = useQuery<RoomData>({
@@ -71,15 +87,15 @@ export default function RoomView() {
       // Subscribe to this specific room
       ws.send(JSON.stringify({ 
         type: "subscribe_room", 
-        roomCode: code 
+        roomId: code 
       }));
     };
 
     ws.onmessage = (event) => {
       const data = JSON.parse(event.data);
-      if (data.type === "room_update" && data.room?.code === code) {
-        // Room update received - the query will refetch automatically
-        console.log("Room update received:", data.room);
+      if (data.type === "room_snapshot" && data.snapshot?.code === code) {
+        // Ready-ups, kicks and the start arrive as snapshots; refetch rather than wait for the poll
+        queryClient.invalidateQueries({ queryKey: [`/api/rooms/${code}`] });
       }
     };
 
@@ -105,14 +121,80 @@ export default function RoomView() {
     }
   };
 
-  const handleStartGame = () => {
-    // TODO: Implement game start logic
-    toast({
-      title: "Starting game...",
-      description: "Preparing the game room",
-    });
+  // Invite links open this page, which is also how private rooms are reached
+  const handleCopyInviteLink = () => {
+    if (room?.code) {
+      navigator.clipboard.writeText(`${window.location.origin}/room/${room.code}`);
+      toast({
+        title: "Invite link copied!",
+        description: room.hasPassphrase ? "Players will also need the room passphrase" : "Anyone with the link can join",
+      });
+    }
   };
 
+  const handleAddFriend = async (playerId: string, name: string) => {
+    try {
+      await apiRequest("POST", "/api/friends/requests", { userId: playerId });
+      queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+      toast({ title: "Friend request sent", description: `Sent to ${name}` });
+    } catch (error) {
+      toast({
+        title: "Friend request not sent",
+        description: readApiError(error).details?.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleJoinRoom = async () => {
+    setIsJoining(true);
+    try {
+      await apiRequest("POST", `/api/rooms/${code}/join`, { passphrase });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${code}`] });
+    } catch (error) {
+      const { details } = readApiError(error);
+      toast({
+        title: details?.needsPassphrase ? "Passphrase required" : "Failed to join",
+        description: details?.message || "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  // Once the host deals (or we are removed) this page is done
+  useEffect(() => {
+    if (!room || !user) return;
+    if (room.gameState?.kickedPlayerIds?.includes(user.id)) {
+      toast({
+        title: "Removed from room",
+        description: "The host removed you from this room",
+        variant: "destructive",
+      });
+      navigate("/online-multiplayer");
+    } else if (room.status === "inGame_active") {
+      navigate(`/multiplayer-game?room=${room.code}`);
+    }
+  }, [room, user, toast, navigate]);
+
+  // Ready-ups, kicks and the start share the room's action endpoint
+  const sendRoomAction = async (action: string, data?: Record<string, unknown>) => {
+    try {
+      await apiRequest("POST", `/api/rooms/${code}/action`, { action, ...data });
+      queryClient.invalidateQueries({ queryKey: [`/api/rooms/${code}`] });
+    } catch (error) {
+      toast({
+        title: "Action failed",
+        description: readApiError(error).details?.message || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleStartGame = () => sendRoomAction("start_game");
+
   const handleLeaveRoom = () => {
     // TODO: Implement leave room logic
     navigate("/online-multiplayer");
@@ -136,7 +218,9 @@ export default function RoomView() {
       <div className="min-h-screen bg-gradient-to-br from-emerald-900 via-emerald-800 to-emerald-900 p-4 flex items-center justify-center">
         <Card className="bg-black/40 backdrop-blur border-white/20">
           <CardContent className="p-8">
-            <p className="text-red-400 mb-4">Room not found or error loading room</p>
+            <p className="text-red-400 mb-4">
+              {(error && readApiError(error).details?.message) || "Room not found or error loading room"}
+            </p>
             <Button 
               onClick={() => navigate("/online-multiplayer")}
               className="bg-white/20 hover:bg-white/30 text-white"
@@ -151,7 +235,13 @@ export default function RoomView() {
   }
 
   const stake = STAKE_LABELS[room.stakeBracket] || STAKE_LABELS.free;
-  const isHost = true; // TODO: Check if current user is host
+  const isHost = !!user && user.id === room.hostId;
+  const slots = room.gameState?.tableSlots || [];
+  const mySlot = slots.find(slot => slot.playerId === user?.id);
+  const slotFor = (playerId: string) => slots.find(slot => slot.playerId === playerId);
+  const everyoneReady = slots.every(slot => slot.isEmpty || slot.isReady || slot.playerId === room.hostId);
+  // Staked tables only start once every seat is taken
+  const minPlayersToStart = room.stakeBracket === "free" ? 2 : room.maxPlayers;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-emerald-900 via-emerald-800 to-emerald-900 p-4">
@@ -173,6 +263,18 @@ export default function RoomView() {
                       {stake.coins} coins entry
                     </Badge>
                   )}
+                  {room.visibility === "private" && (
+                    <Badge variant="outline" className="text-white border-white/20">
+                      <Lock className="w-3 h-3 mr-1" />
+                      Private
+                    </Badge>
+                  )}
+                  {room.visibility === "friends" && (
+                    <Badge variant="outline" className="text-white border-white/20">
+                      <Users className="w-3 h-3 mr-1" />
+                      Friends only
+                    </Badge>
+                  )}
                   {isConnected && (
                     <Badge className="bg-green-600 text-white">
                       Live
@@ -259,6 +361,15 @@ export default function RoomView() {
                   )}
                 </Button>
               </div>
+              <Button
+                onClick={handleCopyInviteLink}
+                variant="outline"
+                className="w-full mt-3 bg-white/10 border-white/20 text-white hover:bg-white/20"
+                data-testid="button-copy-invite-link"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Copy Invite Link
+              </Button>
             </CardContent>
           </Card>
         </div>
@@ -270,7 +381,7 @@ export default function RoomView() {
               <CardTitle className="text-white">
                 Players ({room.playerCount}/{room.maxPlayers})
               </CardTitle>
-              {room.status === "room" && (
+              {room.status === "inGame_waiting" && (
                 <Badge variant="outline" className="text-yellow-400 border-yellow-400">
                   Waiting for players...
                 </Badge>
@@ -299,9 +410,41 @@ export default function RoomView() {
                       )}
                     </div>
                   </div>
-                  <Badge variant="outline" className="text-green-400 border-green-400">
-                    Ready
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    {user && player.id !== user.id && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleAddFriend(player.id, player.name || "Player")}
+                        className="text-white/70 hover:text-white hover:bg-white/10"
+                        title="Add friend"
+                      >
+                        <UserPlus className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {player.id !== room.hostId && (
+                      slotFor(player.id)?.isReady ? (
+                        <Badge variant="outline" className="text-green-400 border-green-400">
+                          Ready
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-yellow-400 border-yellow-400">
+                          Not ready
+                        </Badge>
+                      )
+                    )}
+                    {isHost && player.id !== user?.id && room.status === "inGame_waiting" && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => sendRoomAction("kick", { playerId: player.id })}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-600/20"
+                        title="Remove from room"
+                      >
+                        <UserX className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
                 </div>
               ))}
               
@@ -321,22 +464,62 @@ export default function RoomView() {
           </CardContent>
         </Card>
 
-        {/* Action Buttons */}
-        {isHost && room.status === "room" && (
+        {/* Seat claim for visitors arriving by code or invite link */}
+        {room.status === "inGame_waiting" && user && !mySlot && room.playerCount < room.maxPlayers && (
           <Card className="bg-black/40 backdrop-blur border-white/20">
             <CardContent className="p-4">
-              <div className="flex justify-center gap-4">
+              <div className="flex flex-col sm:flex-row justify-center gap-3">
+                {room.hasPassphrase && (
+                  <Input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleJoinRoom()}
+                    placeholder="Room passphrase"
+                    className="sm:max-w-xs bg-white/10 border-white/20 text-white"
+                    data-testid="input-join-passphrase"
+                  />
+                )}
                 <Button
-                  onClick={handleStartGame}
+                  onClick={handleJoinRoom}
+                  disabled={isJoining || (room.hasPassphrase && !passphrase)}
                   className="bg-green-600 hover:bg-green-700 text-white px-8"
-                  disabled={room.playerCount < 2}
+                  data-testid="button-take-seat"
                 >
-                  {room.playerCount < 2 ? "Waiting for players..." : "Start Game"}
+                  {isJoining ? "Joining..." : "Take a Seat"}
                 </Button>
               </div>
             </CardContent>
           </Card>
         )}
+
+        {/* Action Buttons */}
+        {room.status === "inGame_waiting" && (isHost || mySlot) && (
+          <Card className="bg-black/40 backdrop-blur border-white/20">
+            <CardContent className="p-4">
+              <div className="flex justify-center gap-4">
+                {isHost ? (
+                  <Button
+                    onClick={handleStartGame}
+                    className="bg-green-600 hover:bg-green-700 text-white px-8"
+                    disabled={room.playerCount < minPlayersToStart || !everyoneReady}
+                  >
+                    {room.playerCount < minPlayersToStart
+                      ? "Waiting for players..."
+                      : everyoneReady ? "Start Game" : "Waiting for everyone to get ready..."}
+                  </Button>
+                ) : (
+                  <Button
+                    onClick={() => sendRoomAction(mySlot?.isReady ? "unready" : "ready")}
+                    className="bg-green-600 hover:bg-green-700 text-white px-8"
+                  >
+                    {mySlot?.isReady ? "Not Ready" : "Ready"}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { readApiError } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import GameTable from '@/components/Game/GameTable';
+import ChatDrawer, { type ChatMessage } from '@/components/Game/ChatDrawer';
+import { useQuickChat } from '@/hooks/useQuickChat';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Eye, Trophy } from 'lucide-react';
+import { GameState } from '@/types/game';
+import type { GameStateView } from '@shared/gameTypes';
+
+interface SpectatorSnapshot {
+  code: string;
+  status: 'inGame_waiting' | 'inGame_active' | 'finished';
+  spectatorCount: number;
+  version: string;
+  gameState?: {
+    tableSlots: any[];
+    game: GameStateView | null; // Face-up cards only; spectators never see hidden ones
+  };
+}
+
+// Read-only view of an online game in progress, reached from the lobby's Watch button
+export default function SpectateGame() {
+  const { code } = useParams<{ code: string }>();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [snapshot, setSnapshot] = useState<SpectatorSnapshot | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const { activeEmotes, showEmote, isMuted, toggleMute } = useQuickChat();
+  const lastVersionRef = useRef<number>(0);
+
+  const { data: initialSnapshot, isLoading, error } = useQuery<SpectatorSnapshot>({
+    queryKey: [`/api/rooms/${code}/spectate`],
+    enabled: !!code,
+  });
+
+  useEffect(() => {
+    if (initialSnapshot && !snapshot) {
+      lastVersionRef.current = parseInt(initialSnapshot.version || '0');
+      setSnapshot(initialSnapshot);
+    }
+  }, [initialSnapshot, snapshot]);
+
+  // Same room stream the players use, subscribed as a spectator
+  useEffect(() => {
+    if (!code || !initialSnapshot) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const ws = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: 'subscribe_room', roomId: code, spectate: true }));
+    };
+
+    ws.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+
+      if (message.type === 'room_snapshot' && message.snapshot) {
+        const version = parseInt(message.snapshot.version || '0');
+        if (version >= lastVersionRef.current) {
+          lastVersionRef.current = version;
+          setSnapshot(message.snapshot);
+        }
+      } else if (message.type === 'chat_message' && message.message) {
+        setChatMessages(previous => [...previous, message.message]);
+      } else if (message.type === 'emote') {
+        showEmote(message.userId, message.emoteId);
+      } else if (message.type === 'room_deleted') {
+        toast({ title: "Room Closed", description: "The game you were watching has ended." });
+        setLocation('/online-multiplayer');
+      } else if (message.type === 'error') {
+        toast({ title: "Error", description: message.message || "An error occurred", variant: "destructive" });
+      }
+    };
+
+    return () => ws.close();
+  }, [code, initialSnapshot, toast, setLocation, showEmote]);
+
+  const backToLobby = (
+    <Button onClick={() => setLocation('/online-multiplayer')} className="bg-white/20 hover:bg-white/30 text-white" data-testid="button-stop-watching">
+      <ArrowLeft className="w-4 h-4 mr-2" />
+      Back to Lobby
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 flex items-center justify-center">
+        <div className="text-white text-xl">Loading game...</div>
+      </div>
+    );
+  }
+
+  const serverGame = snapshot?.gameState?.game;
+  if (error || !snapshot || !serverGame) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-900 via-green-800 to-green-900 p-4 flex items-center justify-center">
+        <Card className="bg-black/40 backdrop-blur border-white/20">
+          <CardContent className="p-8">
+            <p className="text-red-400 mb-4">
+              {(error && readApiError(error).details?.message) || "This game can't be watched right now"}
+            </p>
+            {backToLobby}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Seats the server is playing while their player is away are labelled as bots
+  const botControlledIds = new Set(
+    (snapshot.gameState?.tableSlots || []).filter(slot => slot.botControlled).map(slot => slot.playerId)
+  );
+  const { drawPileCount, ...visibleGame } = serverGame;
+  const gameState: GameState = {
+    ...visibleGame,
+    drawPile: [],
+    rngState: 0,
+    players: serverGame.players.map(player =>
+      botControlledIds.has(player.id) ? { ...player, name: `${player.name} (Bot)` } : player
+    )
+  };
+  const currentPlayer = gameState.players[gameState.currentPlayerIndex];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-game-green to-game-felt">
+      <div className="bg-game-felt border-b border-white border-opacity-10 px-4 py-3">
+        <div className="flex justify-between items-center text-white">
+          <Button variant="ghost" size="sm" onClick={() => setLocation('/online-multiplayer')} className="text-white hover:text-game-gold">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="text-center">
+            <div className="font-semibold">
+              Room {snapshot.code} · Round {gameState.currentRound} / {gameState.totalRounds}
+            </div>
+            <div className="text-sm opacity-80">Current Player: {currentPlayer?.name}</div>
+          </div>
+          <Badge variant="outline" className="text-white border-white/30" data-testid="text-spectator-count">
+            <Eye className="w-4 h-4 mr-1" />
+            {snapshot.spectatorCount}
+          </Badge>
+        </div>
+      </div>
+
+      <div className="flex-1 p-4 overflow-hidden">
+        <GameTable
+          gameState={gameState}
+          onDrawCard={() => {}}
+          onSelectGridPosition={() => {}}
+          onKeepDrawnCard={() => {}}
+          onKeepRevealedCard={() => {}}
+          onPeekCard={() => {}}
+          onEndTurn={() => {}}
+          emotes={activeEmotes}
+          isMuted={isMuted}
+          onToggleMute={toggleMute}
+          spectating
+        />
+      </div>
+
+      {snapshot.status === 'finished' && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40">
+          <Card className="p-6 bg-slate-900 border-game-gold text-white min-w-[280px]">
+            <Trophy className="w-12 h-12 text-game-gold mx-auto mb-2" />
+            <h2 className="text-2xl font-bold text-center mb-4">Game Over</h2>
+            <div className="space-y-2 mb-6">
+              {[...gameState.players]
+                .sort((a, b) => a.totalScore - b.totalScore)
+                .map(player => (
+                  <div key={player.id} className="flex justify-between gap-6">
+                    <span>{player.name}</span>
+                    <span className="font-semibold">{player.totalScore} pts</span>
+                  </div>
+                ))}
+            </div>
+            <div className="text-center">{backToLobby}</div>
+          </Card>
+        </div>
+      )}
+
+      <ChatDrawer
+        messages={chatMessages.filter(message => !isMuted(message.userId))}
+        canSend={false}
+        onSend={() => {}}
+      />
+    </div>
+  );
+}
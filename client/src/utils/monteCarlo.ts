@@ -0,0 +1,67 @@
+import type { GameState } from '@shared/gameTypes';
+import { runMonteCarlo, type MonteCarloAnswers } from '@shared/monteCarloAI';
+import type { MonteCarloJob } from '@/workers/monteCarlo.worker';
+
+const MONTE_CARLO_TIMEOUT_MS = 10000; // A decision takes well under a second on most devices
+
+interface PendingJob {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let worker: Worker | null = null;
+let nextJobId = 0;
+const pending = new Map<number, PendingJob>();
+
+// A failed or stuck worker takes every job it holds with it; the next question
+// starts a fresh one
+function discardWorker(error: Error) {
+  worker?.terminate();
+  worker = null;
+  pending.forEach(job => {
+    clearTimeout(job.timer);
+    job.reject(error);
+  });
+  pending.clear();
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('../workers/monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<{ id: number; result: unknown }>) => {
+      const job = pending.get(event.data.id);
+      if (!job) return;
+      clearTimeout(job.timer);
+      pending.delete(event.data.id);
+      job.resolve(event.data.result);
+    };
+    worker.onerror = event => discardWorker(new Error(`Monte Carlo worker failed: ${event.message}`));
+    worker.onmessageerror = () => discardWorker(new Error('Monte Carlo worker sent an unreadable answer'));
+  }
+  return worker;
+}
+
+// Ask the Monte Carlo AI for one decision of the turn. The simulations run in a
+// Web Worker so the table keeps rendering; without worker support they run here.
+// Rejects if the worker fails or takes longer than MONTE_CARLO_TIMEOUT_MS.
+export function askMonteCarlo<K extends keyof MonteCarloAnswers>(
+  kind: K,
+  state: GameState,
+  playerIndex: number
+): Promise<MonteCarloAnswers[K]> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(runMonteCarlo({ kind, state, playerIndex }));
+  }
+
+  const job: MonteCarloJob = { id: nextJobId++, request: { kind, state, playerIndex } };
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => discardWorker(new Error('Monte Carlo decision timed out')), MONTE_CARLO_TIMEOUT_MS);
+    pending.set(job.id, { resolve: result => resolve(result as MonteCarloAnswers[K]), reject, timer });
+    try {
+      getWorker().postMessage(job);
+    } catch (error) {
+      discardWorker(error instanceof Error ? error : new Error(String(error)));
+    }
+  });
+}
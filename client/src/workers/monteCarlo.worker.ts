@@ -0,0 +1,12 @@
+// Runs Expert Monte Carlo decisions off the main thread; see shared/monteCarloAI.ts
+import { runMonteCarlo, type MonteCarloRequest } from '@shared/monteCarloAI';
+
+export interface MonteCarloJob {
+  id: number;
+  request: MonteCarloRequest;
+}
+
+self.onmessage = (event: MessageEvent<MonteCarloJob>) => {
+  const { id, request } = event.data;
+  self.postMessage({ id, result: runMonteCarlo(request) });
+};
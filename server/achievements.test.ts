@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import type { Card, GameEvent } from "@shared/gameTypes";
+import { evaluateAchievements, type PlayedGame } from "./achievements";
+import { storage } from "./storage";
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+async function newPlayer(id: string) {
+  await storage.upsertUser({ id, firstName: id });
+  await storage.getUserStats(id);
+}
+
+// A round-end event for two players: the player's cards and both running totals
+function roundEnd(round: number, values: (Card['value'] | null)[], roundScores: [number, number], totals: [number, number]): GameEvent {
+  return {
+    type: 'ROUND_END',
+    round,
+    results: [0, 1].map(playerIndex => ({
+      playerIndex,
+      roundScore: roundScores[playerIndex],
+      totalScore: totals[playerIndex],
+      cards: values.map((value, i) => value ? { value, suit: 'clubs', id: `clubs-${value}-${i}` } : null),
+    })),
+  };
+}
+
+const ordinaryHand: Card['value'][] = ['A', '2', '3', '4', '6', '7', '8', '9', '10'];
+
+async function unlockedBy(id: string, game: PlayedGame) {
+  await newPlayer(id);
+  return (await evaluateAchievements(id, game)).map(a => a.id);
+}
+
+describe("evaluateAchievements", () => {
+  it("unlocks achievements whose requirement is met and pays their rewards", async () => {
+    await newPlayer("first-winner");
+    await storage.updateUserStats("first-winner", { gamesPlayed: 1, gamesWon: 1, longestWinStreak: 1 });
+
+    const unlocked = await evaluateAchievements("first-winner");
+    expect(unlocked.map(a => a.id)).toEqual(["first_win"]);
+
+    const user = await storage.getUser("first-winner");
+    expect(user?.currency).toBe(100 + 25);
+    expect(user?.experience).toBe(50);
+    expect((await storage.getUserTransactions("first-winner"))[0]).toMatchObject({ reason: "achievement", referenceId: "first_win" });
+  });
+
+  it("never unlocks or rewards the same achievement twice", async () => {
+    await newPlayer("repeat-winner");
+    await storage.updateUserStats("repeat-winner", { gamesPlayed: 1, gamesWon: 1 });
+
+    await evaluateAchievements("repeat-winner");
+    expect(await evaluateAchievements("repeat-winner")).toEqual([]);
+    expect(await storage.getUserAchievements("repeat-winner")).toHaveLength(1);
+    expect((await storage.getUser("repeat-winner"))?.currency).toBe(125);
+  });
+
+  it("checks level achievements again after reward XP levels the player up", async () => {
+    await newPlayer("almost-ten");
+    // 875 XP is level 9; the Perfect Score reward (100 XP) takes them to level 10
+    await storage.addExperience("almost-ten", 875);
+    await storage.updateUserStats("almost-ten", { perfectGames: 1 });
+
+    const unlocked = await evaluateAchievements("almost-ten");
+    expect(unlocked.map(a => a.id)).toEqual(["perfect_game", "level_10"]);
+    expect((await storage.getUser("almost-ten"))?.level).toBe(12);
+  });
+
+  it("unlocks nothing for a player with no progress", async () => {
+    await newPlayer("newcomer");
+    expect(await evaluateAchievements("newcomer")).toEqual([]);
+  });
+});
+
+describe("per-game achievements", () => {
+  it("counts three-of-a-kind columns from stats", async () => {
+    await newPlayer("column-clearer");
+    await storage.updateUserStats("column-clearer", { threeOfAKindColumns: 10 });
+    expect((await evaluateAchievements("column-clearer")).map(a => a.id)).toEqual(["column_collector"]);
+  });
+
+  it("unlocks High Fives for a round won holding two 5s", async () => {
+    const game = { playerIndex: 0, won: false, events: [roundEnd(1, ['5', '5', ...ordinaryHand.slice(2)], [3, 10], [3, 10])] };
+    expect(await unlockedBy("two-fives", game)).toEqual(["high_fives"]);
+  });
+
+  it("needs the round to be won for High Fives", async () => {
+    const game = { playerIndex: 0, won: false, events: [roundEnd(1, ['5', '5', ...ordinaryHand.slice(2)], [12, 10], [12, 10])] };
+    expect(await unlockedBy("two-fives-lost", game)).toEqual([]);
+  });
+
+  it("unlocks Comeback Kid for a win after trailing at round 5", async () => {
+    const events = [roundEnd(5, ordinaryHand, [30, 10], [60, 40]), roundEnd(9, ordinaryHand, [0, 40], [70, 120])];
+    expect(await unlockedBy("comeback", { playerIndex: 0, won: true, events })).toEqual(["comeback_kid"]);
+  });
+
+  it("unlocks High Roller only for a win at a Premium table", async () => {
+    expect(await unlockedBy("premium-winner", { playerIndex: 0, won: true, events: [], stakeBracket: "premium" })).toEqual(["high_roller"]);
+    expect(await unlockedBy("premium-loser", { playerIndex: 0, won: false, events: [], stakeBracket: "premium" })).toEqual([]);
+    expect(await unlockedBy("high-winner", { playerIndex: 0, won: true, events: [], stakeBracket: "high" })).toEqual([]);
+  });
+
+  it("unlocks Ice Cold for a round of nine cards worth zero or less", async () => {
+    const frozen: Card['value'][] = ['5', 'K', '5', 'K', '5', 'K', '5', 'K', 'K'];
+    expect(await unlockedBy("ice-cold", { playerIndex: 0, won: false, events: [roundEnd(2, frozen, [-20, 5], [-20, 5])] })).toContain("ice_cold");
+
+    // A cleared column leaves fewer than nine cards
+    const cleared: (Card['value'] | null)[] = [null, 'K', '5', null, '5', 'K', null, '5', 'K'];
+    expect(await unlockedBy("ice-cold-cleared", { playerIndex: 0, won: false, events: [roundEnd(2, cleared, [-15, 5], [-15, 5])] })).not.toContain("ice_cold");
+  });
+});
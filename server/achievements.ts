@@ -0,0 +1,126 @@
+import type { Achievement, AchievementRequirement, GameStats, User } from "@shared/schema";
+import type { GameEvent, RoundResult } from "@shared/gameTypes";
+import { getCardValue } from "@shared/gameLogic";
+import { storage } from "./storage";
+
+// Achievements are data: each row's `requirement` JSON is checked against the
+// player's running totals after every game and every level-up. Per-game
+// requirements also need the events of the game that was just played.
+
+// A finished game as seen by one of its players
+export interface PlayedGame {
+  playerIndex: number;
+  won: boolean;
+  events: GameEvent[];
+  stakeBracket?: string; // Online rooms only
+}
+
+interface PlayerProgress {
+  user: User;
+  stats: GameStats | undefined;
+  game?: PlayedGame;
+}
+
+// The player's own result for every round of the game, in order
+function playerRounds({ events, playerIndex }: PlayedGame): { round: number; results: RoundResult[]; mine: RoundResult }[] {
+  return events.flatMap(event =>
+    event.type === 'ROUND_END'
+      ? [{ round: event.round, results: event.results, mine: event.results[playerIndex] }]
+      : []
+  );
+}
+
+// Lowest round score wins the round; tied players all count as winners
+function wonRound(results: RoundResult[], mine: RoundResult): boolean {
+  return results.every(result => mine.roundScore <= result.roundScore);
+}
+
+// Highest running total is last; a table where everyone is level has nobody last
+function wasLast(results: RoundResult[], mine: RoundResult): boolean {
+  return results.every(result => mine.totalScore >= result.totalScore)
+    && results.some(result => mine.totalScore > result.totalScore);
+}
+
+export function countThreeOfAKindColumns(events: GameEvent[], playerIndex: number): number {
+  return events.reduce((total, event) =>
+    event.type === 'THREE_OF_A_KIND' && event.playerIndex === playerIndex ? total + event.columns : total, 0);
+}
+
+// Won the game after trailing the table at the end of some earlier round
+export function isComebackWin(game: PlayedGame, round?: number): boolean {
+  if (!game.won) return false;
+  const rounds = playerRounds(game);
+  return rounds.some(({ round: scoredRound, results, mine }, index) =>
+    (round === undefined ? index < rounds.length - 1 : scoredRound === round) && wasLast(results, mine));
+}
+
+export function meetsRequirement(requirement: AchievementRequirement, { user, stats, game }: PlayerProgress): boolean {
+  switch (requirement.type) {
+    case 'wins':
+      return (stats?.gamesWon || 0) >= requirement.count;
+    case 'games_played':
+      return (stats?.gamesPlayed || 0) >= requirement.count;
+    case 'level':
+      return (user.level || 1) >= requirement.count;
+    case 'perfect_score':
+      return (stats?.perfectGames || 0) >= requirement.count;
+    case 'win_streak':
+      return (stats?.longestWinStreak || 0) >= requirement.count;
+    case 'three_of_a_kind_columns':
+      return (stats?.threeOfAKindColumns || 0) >= requirement.count;
+    case 'round_win_with_cards':
+      return !!game && playerRounds(game).some(({ results, mine }) =>
+        wonRound(results, mine) && mine.cards.filter(card => card?.value === requirement.value).length >= requirement.count);
+    case 'comeback_win':
+      return !!game && isComebackWin(game, requirement.round);
+    case 'stake_win':
+      return !!game && game.won && game.stakeBracket === requirement.stakeBracket;
+    case 'round_all_non_positive':
+      return !!game && playerRounds(game).some(({ mine }) =>
+        mine.cards.length === 9 && mine.cards.every(card => card !== null && getCardValue(card) <= 0));
+    default:
+      return false;
+  }
+}
+
+// Unlock every achievement the player now qualifies for and pay out its rewards.
+// Pass the game just played to also check its per-game requirements.
+// Reward XP can itself level the player up, so this keeps going until a pass
+// unlocks nothing new. Safe to call any number of times: storage refuses a
+// second unlock of the same achievement and only first unlocks are rewarded.
+export async function evaluateAchievements(userId: string, game?: PlayedGame): Promise<Achievement[]> {
+  const allAchievements = await storage.getAllAchievements();
+  const unlockedIds = new Set((await storage.getUserAchievements(userId)).map(ua => ua.achievementId));
+  const newlyUnlocked: Achievement[] = [];
+
+  let unlockedThisPass = true;
+  while (unlockedThisPass) {
+    unlockedThisPass = false;
+
+    const user = await storage.getUser(userId);
+    if (!user) break;
+    const progress = { user, stats: await storage.getUserStats(userId), game };
+
+    for (const achievement of allAchievements) {
+      if (unlockedIds.has(achievement.id)) continue;
+      if (!meetsRequirement(achievement.requirement as AchievementRequirement, progress)) continue;
+
+      unlockedIds.add(achievement.id);
+      const unlocked = await storage.unlockAchievement({ userId, achievementId: achievement.id });
+      if (!unlocked) continue; // Another request got there first
+
+      if (achievement.coinReward) {
+        await storage.addCurrency(userId, achievement.coinReward, 'achievement', achievement.id);
+      }
+      if (achievement.xpReward) {
+        await storage.addExperience(userId, achievement.xpReward);
+      }
+
+      console.log(`[ACHIEVEMENT] user=${userId}, unlocked=${achievement.id}`);
+      newlyUnlocked.push(achievement);
+      unlockedThisPass = true;
+    }
+  }
+
+  return newlyUnlocked;
+}
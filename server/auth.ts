@@ -0,0 +1,98 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import type { IncomingMessage } from "http";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { usesMemoryStorage } from "./db";
+import { replitAuthProvider } from "./replitAuth";
+import { localAuthProvider } from "./localAuth";
+
+// Every provider logs users in through passport and leaves the same shape on
+// req.user ({ claims: { sub, email, ... } }), so routes only ever read
+// req.user.claims.sub and never care which provider is active.
+export interface AuthProvider {
+  name: string;
+  // Session cookies can only be Secure when the app is served over HTTPS
+  secureCookies: boolean;
+  // Register strategies plus the /api/login and /api/logout routes
+  setup(app: Express): Promise<void>;
+  isAuthenticated: RequestHandler;
+}
+
+const providers: Record<string, AuthProvider> = {
+  replit: replitAuthProvider,
+  local: localAuthProvider,
+};
+
+// AUTH_PROVIDER picks the provider; outside Replit it defaults to local logins
+const providerName = process.env.AUTH_PROVIDER ?? (process.env.REPLIT_DOMAINS ? "replit" : "local");
+const provider = providers[providerName];
+if (!provider) {
+  throw new Error(`Unknown AUTH_PROVIDER "${providerName}" (expected ${Object.keys(providers).join(" or ")})`);
+}
+
+let sessionMiddleware: RequestHandler | undefined;
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  let sessionStore: session.Store;
+  if (process.env.DATABASE_URL && !usesMemoryStorage) {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: sessionTtl });
+  }
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      secure: provider.secureCookies,
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+export async function setupAuth(app: Express) {
+  // Local logins are for development only, so a missing secret gets a throwaway default
+  if (!process.env.SESSION_SECRET && provider === localAuthProvider) {
+    process.env.SESSION_SECRET = "golf9-local-development-secret";
+  }
+
+  app.set("trust proxy", 1);
+  sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  await provider.setup(app);
+  console.log(`[AUTH] Using ${provider.name} authentication`);
+}
+
+// Resolve the logged-in user for a raw HTTP request such as a WebSocket upgrade,
+// which never passes through the Express middleware stack
+export function getSessionUserId(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    if (!sessionMiddleware) {
+      return resolve(null);
+    }
+    sessionMiddleware(req as any, {} as any, () => {
+      const user = (req as any).session?.passport?.user;
+      resolve(user?.claims?.sub ?? null);
+    });
+  });
+}
+
+export const isAuthenticated: RequestHandler = (req, res, next) => provider.isAuthenticated(req, res, next);
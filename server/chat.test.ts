@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { filterProfanity, cleanChatText, createRateLimiter } from "./chat";
+
+describe("filterProfanity", () => {
+  it("stars out blocked words whatever their case or spelling", () => {
+    expect(filterProfanity("Oh SHIT, nice draw")).toBe("Oh ****, nice draw");
+    expect(filterProfanity("what the fu<k and $h!t")).toBe("what the fu<k and ****");
+    expect(filterProfanity("damn!")).toBe("****!");
+  });
+
+  it("leaves words that only contain a blocked word alone", () => {
+    expect(filterProfanity("Classic pass, Dickens")).toBe("Classic pass, Dickens");
+  });
+});
+
+describe("cleanChatText", () => {
+  it("collapses whitespace and caps the length", () => {
+    expect(cleanChatText("  good   game \n ")).toBe("good game");
+    expect(cleanChatText("x".repeat(500))).toHaveLength(200);
+  });
+
+  it("has nothing to send for blank or non-text messages", () => {
+    expect(cleanChatText("   ")).toBeNull();
+    expect(cleanChatText(42)).toBeNull();
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("allows a burst per player and recovers once the window passes", () => {
+    const allow = createRateLimiter(2, 1000);
+    expect(allow("alice", 0)).toBe(true);
+    expect(allow("alice", 100)).toBe(true);
+    expect(allow("alice", 200)).toBe(false);
+    expect(allow("bob", 200)).toBe(true);
+    expect(allow("alice", 1050)).toBe(true);
+  });
+});
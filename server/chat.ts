@@ -0,0 +1,54 @@
+import { MAX_CHAT_MESSAGE_LENGTH } from "@shared/schema";
+
+// Table chat rules: messages are trimmed and capped, swear words are starred
+// out before anything is stored or sent, and each player may only send a few
+// messages in a short window.
+
+export const CHAT_RATE_LIMIT = 5; // Messages per player...
+export const CHAT_RATE_WINDOW_MS = 10000; // ...in this window
+
+// Kept short and obvious; matched as whole words, ignoring case and the usual
+// letter-for-symbol swaps
+const BLOCKED_WORDS = [
+  'arse', 'arsehole', 'ass', 'asshole', 'bastard', 'bitch', 'bollocks', 'bullshit',
+  'cock', 'crap', 'cunt', 'damn', 'dick', 'dickhead', 'fuck', 'fucker', 'fucking',
+  'motherfucker', 'piss', 'prick', 'pussy', 'shit', 'shitty', 'slut', 'twat', 'wanker', 'whore',
+];
+
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's', '!': 'i' };
+
+function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[013457@$!]/g, char => LOOKALIKES[char]);
+}
+
+export function filterProfanity(text: string): string {
+  return text.replace(/[A-Za-z0-9@$!]+/g, word => {
+    // Trailing punctuation such as "!" is usually just punctuation
+    const core = word.replace(/!+$/, '');
+    return BLOCKED_WORDS.includes(normalizeWord(core))
+      ? '*'.repeat(core.length) + word.slice(core.length)
+      : word;
+  });
+}
+
+// Tidies a message for the table, or returns null if there is nothing to send
+export function cleanChatText(raw: unknown): string | null {
+  if (typeof raw !== 'string') return null;
+  const text = raw.replace(/\s+/g, ' ').trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+  return text ? filterProfanity(text) : null;
+}
+
+// Sliding-window limiter keyed by player
+export function createRateLimiter(limit = CHAT_RATE_LIMIT, windowMs = CHAT_RATE_WINDOW_MS) {
+  const sent = new Map<string, number[]>();
+  return (key: string, now = Date.now()): boolean => {
+    const recent = (sent.get(key) ?? []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      sent.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    sent.set(key, recent);
+    return true;
+  };
+}
@@ -5,9 +5,12 @@ import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
+// STORAGE=memory runs the whole app on MemStorage, with no Postgres at all
+export const usesMemoryStorage = process.env.STORAGE === "memory";
+
+if (!process.env.DATABASE_URL && !usesMemoryStorage) {
   throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
+    "DATABASE_URL must be set. Did you forget to provision a database? (Set STORAGE=memory to run without one.)",
   );
 }
 
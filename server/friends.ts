@@ -0,0 +1,60 @@
+import type { Friendship, User } from "@shared/schema";
+import { storage } from "./storage";
+import { isOnline } from "./presence";
+
+export interface FriendEntry {
+  friendshipId: string;
+  userId: string;
+  name: string;
+  online: boolean;
+  since: Date | null; // When the friendship was accepted, or the request was sent
+}
+
+export interface FriendList {
+  friends: FriendEntry[];
+  incoming: FriendEntry[]; // Requests waiting for this player to answer
+  outgoing: FriendEntry[]; // Requests this player sent that are still pending
+}
+
+export function getDisplayName(user: User | undefined): string {
+  if (!user) return 'Player';
+  if (user.firstName) return user.lastName ? `${user.firstName} ${user.lastName}` : user.firstName;
+  return user.email || 'Player';
+}
+
+export function areFriends(friendship: Friendship | undefined): boolean {
+  return friendship?.status === 'accepted';
+}
+
+export async function getFriendIds(userId: string): Promise<string[]> {
+  const friendships = await storage.getFriendships(userId);
+  return friendships
+    .filter(areFriends)
+    .map(f => f.requesterId === userId ? f.addresseeId : f.requesterId);
+}
+
+// Everyone this player is friends with or has a pending request with, named and
+// marked online from the open /ws connections
+export async function getFriendList(userId: string): Promise<FriendList> {
+  const friendships = await storage.getFriendships(userId);
+  const list: FriendList = { friends: [], incoming: [], outgoing: [] };
+
+  for (const friendship of friendships) {
+    const otherId = friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId;
+    const entry: FriendEntry = {
+      friendshipId: friendship.id,
+      userId: otherId,
+      name: getDisplayName(await storage.getUser(otherId)),
+      online: areFriends(friendship) && isOnline(otherId), // Presence is only shared between friends
+      since: friendship.acceptedAt ?? friendship.createdAt,
+    };
+
+    if (areFriends(friendship)) list.friends.push(entry);
+    else if (friendship.addresseeId === userId) list.incoming.push(entry);
+    else list.outgoing.push(entry);
+  }
+
+  // Online friends first, then by name
+  list.friends.sort((a, b) => Number(b.online) - Number(a.online) || a.name.localeCompare(b.name));
+  return list;
+}
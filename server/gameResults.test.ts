@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import type { AIDifficulty, GameAction, GameMove, GameState, SoloGameTicket } from "@shared/gameTypes";
+import { initializeGame } from "@shared/gameLogic";
+import { applyGameAction } from "@shared/gameEngine";
+import {
+  createAIRandom,
+  makeAIDecision,
+  makeAIPlacementDecision,
+  selectAIGridPosition,
+  selectAIPeekCards,
+  shouldAIDiscardDrawnCard,
+} from "@shared/aiLogic";
+import { awardGameResult, issueSoloTicket, replaySoloGame, type GameResult } from "./gameResults";
+import { storage } from "./storage";
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+async function newPlayer(id: string) {
+  await storage.upsertUser({ id, firstName: id });
+  await storage.getUserStats(id);
+}
+
+function soloTicket(aiDifficulty: AIDifficulty, seed: number): SoloGameTicket {
+  return { ...issueSoloTicket("replayer", 2, 5, aiDifficulty), seed };
+}
+
+// Play a solo game to the end the way the client does (useGameLogic.processAITurn),
+// with the Normal AI standing in for the player in seat 0. Expert seats play the
+// lookahead's answer to every Monte Carlo question, or `expertFallback`'s as when
+// the client's worker fails. Returns the move log.
+function playSoloGame(ticket: SoloGameTicket, expertFallback?: AIDifficulty): GameMove[] {
+  let state: GameState = initializeGame({ mode: 'solo', playerCount: ticket.playerCount, rounds: ticket.rounds }, ticket.seed);
+  const moves: GameMove[] = [];
+  const play = (playerIndex: number, action: GameAction) => {
+    const result = applyGameAction(state, playerIndex, action);
+    if (result.ok) {
+      state = result.state;
+      moves.push({ playerIndex, action });
+    }
+  };
+
+  while (state.gamePhase !== 'game-end') {
+    const playerIndex = state.currentPlayerIndex;
+    const player = state.players[playerIndex];
+    const expert = player.isAI && ticket.aiDifficulty === 'expert';
+    const difficulty = !player.isAI ? 'normal' : expert ? expertFallback ?? 'expert' : ticket.aiDifficulty;
+
+    if (state.gamePhase === 'round-end') {
+      play(playerIndex, { type: 'START_ROUND' });
+      continue;
+    }
+    if (state.gamePhase === 'peek') {
+      const revealedCount = player.grid.filter(gridCard => gridCard.isRevealed).length;
+      selectAIPeekCards(player, createAIRandom(state, playerIndex)).slice(0, 2 - revealedCount)
+        .forEach(position => play(playerIndex, { type: 'PEEK_CARD', position }));
+      play(playerIndex, { type: 'END_TURN' });
+      continue;
+    }
+
+    const decision = makeAIDecision(state, player, difficulty);
+    play(playerIndex, { type: 'DRAW_CARD', source: decision.action === 'draw-from-discard' ? 'discard' : 'draw' });
+    const drawnCard = state.drawnCard!;
+    const discards = (!expert || decision.gridPosition === undefined)
+      && shouldAIDiscardDrawnCard(state, state.players[playerIndex], drawnCard, difficulty);
+    if (discards) {
+      play(playerIndex, { type: 'DISCARD_DRAWN_CARD' });
+    } else {
+      const position = decision.gridPosition
+        ?? selectAIGridPosition(state, state.players[playerIndex], drawnCard, difficulty, createAIRandom(state, playerIndex));
+      play(playerIndex, { type: 'SELECT_GRID_POSITION', position });
+      const keepDrawn = makeAIPlacementDecision(state, state.players[playerIndex], drawnCard, position, difficulty);
+      play(playerIndex, { type: keepDrawn ? 'KEEP_DRAWN_CARD' : 'KEEP_REVEALED_CARD' });
+    }
+    play(playerIndex, { type: 'END_TURN' });
+  }
+  return moves;
+}
+
+// The log with the first matching move by an AI seat changed
+function tamperWithAIMove(moves: GameMove[], matches: (action: GameAction) => boolean, replace: (action: GameAction) => GameAction): GameMove[] {
+  const index = moves.findIndex(move => move.playerIndex !== 0 && matches(move.action));
+  expect(index).not.toBe(-1);
+  return moves.map((move, i) => i === index ? { ...move, action: replace(move.action) } : move);
+}
+
+describe("replaySoloGame", () => {
+  it("replays a finished game whose opponents played as the server's AI", async () => {
+    for (const difficulty of ['easy', 'normal', 'hard', 'expert'] as AIDifficulty[]) {
+      const ticket = soloTicket(difficulty, 101);
+      const replay = await replaySoloGame(ticket, playSoloGame(ticket));
+      expect(replay.ok, difficulty).toBe(true);
+      if (replay.ok) expect(replay.state.gamePhase).toBe('game-end');
+    }
+  });
+
+  it("accepts the Hard moves an Expert seat falls back on", async () => {
+    const ticket = soloTicket('expert', 505);
+    expect(await replaySoloGame(ticket, playSoloGame(ticket, 'hard'))).toMatchObject({ ok: true });
+  });
+
+  it("rejects a log in which an opponent didn't make the server AI's move", async () => {
+    const ticket = soloTicket('normal', 202);
+    const moves = tamperWithAIMove(playSoloGame(ticket),
+      action => action.type === 'KEEP_DRAWN_CARD' || action.type === 'KEEP_REVEALED_CARD',
+      action => ({ type: action.type === 'KEEP_DRAWN_CARD' ? 'KEEP_REVEALED_CARD' : 'KEEP_DRAWN_CARD' }));
+
+    expect(await replaySoloGame(ticket, moves)).toEqual({ ok: false, message: "AI move in log doesn't match the server's AI" });
+  });
+
+  it("re-runs Monte Carlo for an Expert move the lookahead wouldn't make", async () => {
+    const ticket = soloTicket('expert', 303);
+    const moves = tamperWithAIMove(playSoloGame(ticket),
+      action => action.type === 'KEEP_DRAWN_CARD',
+      () => ({ type: 'KEEP_REVEALED_CARD' }));
+
+    expect(await replaySoloGame(ticket, moves)).toEqual({ ok: false, message: "AI move in log doesn't match the server's AI" });
+  });
+
+  it("rejects a log that stops before the game is over", async () => {
+    const ticket = soloTicket('normal', 404);
+    const moves = playSoloGame(ticket);
+
+    expect(await replaySoloGame(ticket, moves.slice(0, moves.length / 2))).toEqual({ ok: false, message: "Game is not finished" });
+  });
+
+  it("rejects logs with entries that aren't moves", async () => {
+    const ticket = soloTicket('normal', 606);
+    const moves = playSoloGame(ticket);
+    const invalid = [null, { playerIndex: 0.5, action: moves[0].action }, { playerIndex: 0, action: { type: 'FLIP_TABLE' } }];
+
+    for (const entry of invalid) {
+      expect(await replaySoloGame(ticket, [...moves.slice(0, 3), entry as any]), JSON.stringify(entry))
+        .toEqual({ ok: false, message: "Invalid move log" });
+    }
+  });
+});
+
+const soloWin: GameResult = {
+  gameId: "solo-game-1",
+  gameMode: "solo",
+  playerCount: 2,
+  rounds: 5,
+  finalScore: 12,
+  placement: 1,
+  won: true,
+};
+
+describe("awardGameResult", () => {
+  it("pays a game out once when the same result is submitted twice at the same time", async () => {
+    await newPlayer("double-submitter");
+
+    const outcomes = await Promise.all([
+      awardGameResult("double-submitter", soloWin),
+      awardGameResult("double-submitter", soloWin),
+    ]);
+
+    expect(outcomes.filter(rewards => rewards === null)).toHaveLength(1);
+    const paid = outcomes.find(rewards => rewards !== null)!;
+    expect((await storage.getUser("double-submitter"))!.currency).toBe(paid.newCurrency);
+    expect(await storage.getUserTransactions("double-submitter")).toHaveLength(1 + paid.newAchievements.length);
+    expect((await storage.getUserStats("double-submitter"))?.gamesPlayed).toBe(1);
+  });
+});
@@ -0,0 +1,402 @@
+import { createHmac, randomInt, randomUUID, timingSafeEqual } from "crypto";
+import type { AIDifficulty, GameState, GameMove, GameEvent, GameAction, SoloGameTicket } from "@shared/gameTypes";
+import { initializeGame } from "@shared/gameLogic";
+import { applyGameAction } from "@shared/gameEngine";
+import {
+  AI_DIFFICULTIES,
+  type AIDecision,
+  createAIRandom,
+  makeAIDecision,
+  makeAIPlacementDecision,
+  selectAIGridPosition,
+  selectAIPeekCards,
+  shouldAIDiscardDrawnCard,
+} from "@shared/aiLogic";
+import { runMonteCarlo, type MonteCarloAnswers } from "@shared/monteCarloAI";
+import type { Achievement } from "@shared/schema";
+import { storage } from "./storage";
+import { evaluateAchievements, countThreeOfAKindColumns, isComebackWin, type PlayedGame } from "./achievements";
+
+// Results are never taken from the client. Online rooms are scored from the
+// server's own game state; solo games are replayed from a server-issued seed,
+// with every AI move checked against what the server's own AI would play.
+
+const TICKET_MAX_AGE_MS = 24 * 60 * 60 * 1000; // Solo games must be submitted within a day
+const MAX_MOVES = 10000;
+const MAX_MONTE_CARLO_CHECKS = 100; // Expert moves per game that may need a Monte Carlo re-run
+
+export interface GameResult {
+  gameId: string;
+  gameMode: 'solo' | 'pass-play' | 'online';
+  playerCount: number;
+  rounds: number;
+  finalScore: number;
+  placement: number;
+  won: boolean;
+  gameDuration?: number;
+}
+
+export interface GameRewards {
+  xpEarned: number;
+  coinsEarned: number;
+  newLevel: number | null;
+  newExperience: number | null;
+  newCurrency: number | null;
+  newAchievements: Achievement[];
+}
+
+function signTicket(userId: string, ticket: Omit<SoloGameTicket, 'signature'>): string {
+  const payload = [userId, ticket.gameId, ticket.seed, ticket.playerCount, ticket.rounds, ticket.aiDifficulty, ticket.issuedAt].join('.');
+  return createHmac('sha256', process.env.SESSION_SECRET!).update(payload).digest('hex');
+}
+
+export function issueSoloTicket(userId: string, playerCount: number, rounds: number, aiDifficulty?: AIDifficulty): SoloGameTicket {
+  const ticket = {
+    gameId: randomUUID(),
+    seed: randomInt(0, 0xffffffff),
+    playerCount: ([2, 3, 4].includes(playerCount) ? playerCount : 2) as SoloGameTicket['playerCount'],
+    rounds: (rounds === 5 ? 5 : 9) as SoloGameTicket['rounds'],
+    aiDifficulty: (aiDifficulty && AI_DIFFICULTIES.includes(aiDifficulty) ? aiDifficulty : 'normal') as AIDifficulty,
+    issuedAt: Date.now()
+  };
+  return { ...ticket, signature: signTicket(userId, ticket) };
+}
+
+export function verifySoloTicket(userId: string, ticket: SoloGameTicket | undefined): boolean {
+  if (!ticket || typeof ticket.signature !== 'string') return false;
+  if (Date.now() - ticket.issuedAt > TICKET_MAX_AGE_MS) return false;
+
+  const { signature, ...fields } = ticket;
+  const expected = Buffer.from(signTicket(userId, fields), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+interface SoloReplay {
+  state: GameState;
+  events: GameEvent[];
+  moves: GameMove[];
+  cursor: number; // Next move of the log to apply
+  monteCarloChecks: number;
+}
+
+const AI_MOVE_MISMATCH = "AI move in log doesn't match the server's AI";
+
+// Deal the ticket's game and run the move log through the rules engine. Only
+// the human's moves are taken from the log as they are; an AI seat's moves must
+// be the ones the server's AI makes from the same position.
+export async function replaySoloGame(ticket: SoloGameTicket, moves: GameMove[]): Promise<{ ok: true; state: GameState; events: GameEvent[] } | { ok: false; message: string }> {
+  if (!Array.isArray(moves) || moves.length > MAX_MOVES || !moves.every(isGameMove)) {
+    return { ok: false, message: "Invalid move log" };
+  }
+
+  const replay: SoloReplay = {
+    state: initializeGame({ mode: 'solo', playerCount: ticket.playerCount, rounds: ticket.rounds, aiDifficulty: ticket.aiDifficulty }, ticket.seed),
+    events: [],
+    moves,
+    cursor: 0,
+    monteCarloChecks: 0
+  };
+  while (replay.cursor < moves.length) {
+    const move = moves[replay.cursor];
+    // Dealing the next round is the client's call whoever's seat sent it
+    const isAIMove = move.action.type !== 'START_ROUND' && replay.state.players[move.playerIndex]?.isAI;
+    const error = isAIMove
+      ? await replayAITurn(replay, move.playerIndex, ticket.aiDifficulty)
+      : applyLoggedMove(replay);
+    if (error) {
+      return { ok: false, message: error };
+    }
+  }
+
+  if (replay.state.gamePhase !== 'game-end') {
+    return { ok: false, message: "Game is not finished" };
+  }
+  return { ok: true, state: replay.state, events: replay.events };
+}
+
+// Whether an entry of a submitted log is a move the engine understands
+function isGameMove(move: unknown): move is GameMove {
+  if (typeof move !== 'object' || move === null) return false;
+  const { playerIndex, action } = move as Partial<GameMove>;
+  if (!Number.isInteger(playerIndex) || typeof action !== 'object' || action === null) return false;
+  switch (action.type) {
+    case 'PEEK_CARD':
+    case 'SELECT_GRID_POSITION':
+      return Number.isInteger(action.position);
+    case 'DRAW_CARD':
+      return action.source === 'draw' || action.source === 'discard';
+    case 'KEEP_DRAWN_CARD':
+    case 'KEEP_REVEALED_CARD':
+    case 'DISCARD_DRAWN_CARD':
+    case 'END_TURN':
+    case 'START_ROUND':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Apply the next move of the log. Returns an error message if the engine rejects it.
+function applyLoggedMove(replay: SoloReplay): string | null {
+  const move = replay.moves[replay.cursor++];
+  const result = applyGameAction(replay.state, move?.playerIndex, move?.action);
+  if (!result.ok) {
+    return `Illegal move in log: ${result.error.message}`;
+  }
+  replay.state = result.state;
+  replay.events.push(...result.events);
+  return null;
+}
+
+// The move `offset` places ahead in the log, if that seat made it
+function loggedAction(replay: SoloReplay, playerIndex: number, offset = 0): GameAction | null {
+  const move = replay.moves[replay.cursor + offset];
+  return move?.playerIndex === playerIndex && move.action ? move.action : null;
+}
+
+// Apply the next move if it is the seat's and `accepts` it
+function expectMove(replay: SoloReplay, playerIndex: number, accepts: (action: GameAction) => boolean): string | null {
+  const action = loggedAction(replay, playerIndex);
+  return action && accepts(action) ? applyLoggedMove(replay) : AI_MOVE_MISMATCH;
+}
+
+// One turn of an AI seat, decision by decision in the order the client's AI
+// takes them (see processAITurn in client/src/hooks/useGameLogic.ts)
+async function replayAITurn(replay: SoloReplay, playerIndex: number, difficulty: AIDifficulty): Promise<string | null> {
+  const start = replay.state;
+  if (start.currentPlayerIndex !== playerIndex) {
+    return AI_MOVE_MISMATCH;
+  }
+
+  let error: string | null = null;
+  if (start.gamePhase === 'peek') {
+    const player = start.players[playerIndex];
+    const revealedCount = player.grid.filter(gridCard => gridCard.isRevealed).length;
+    for (const position of selectAIPeekCards(player, createAIRandom(start, playerIndex)).slice(0, 2 - revealedCount)) {
+      error = error ?? expectMove(replay, playerIndex, action => action.type === 'PEEK_CARD' && action.position === position);
+    }
+  } else if (start.gamePhase !== 'playing') {
+    return applyLoggedMove(replay); // Nothing an AI may do; the engine says why
+  } else if (difficulty === 'expert') {
+    error = await replayExpertMove(replay, playerIndex);
+  } else {
+    error = replayHeuristicMove(replay, playerIndex, difficulty);
+  }
+  if (error) return error;
+
+  // The client always tries to end the turn, and only logs it if the engine agreed
+  if (!applyGameAction(replay.state, playerIndex, { type: 'END_TURN' }).ok) return null;
+  return expectMove(replay, playerIndex, action => action.type === 'END_TURN');
+}
+
+function drawSource(decision: AIDecision): 'discard' | 'draw' {
+  return decision.action === 'draw-from-discard' ? 'discard' : 'draw';
+}
+
+function keepAction(keepDrawn: boolean): GameAction['type'] {
+  return keepDrawn ? 'KEEP_DRAWN_CARD' : 'KEEP_REVEALED_CARD';
+}
+
+// Easy, Normal and Hard: the same decisions applyBotMove makes, with the
+// position-seeded random picks the client uses
+function replayHeuristicMove(replay: SoloReplay, playerIndex: number, difficulty: AIDifficulty): string | null {
+  const decision = makeAIDecision(replay.state, replay.state.players[playerIndex], difficulty);
+  const drew = expectMove(replay, playerIndex, action => action.type === 'DRAW_CARD' && action.source === drawSource(decision));
+  if (drew) return drew;
+
+  const drawn = replay.state;
+  const drawnCard = drawn.drawnCard!;
+  const player = drawn.players[playerIndex];
+  if (shouldAIDiscardDrawnCard(drawn, player, drawnCard, difficulty)) {
+    return expectMove(replay, playerIndex, action => action.type === 'DISCARD_DRAWN_CARD');
+  }
+
+  const position = decision.gridPosition
+    ?? selectAIGridPosition(drawn, player, drawnCard, difficulty, createAIRandom(drawn, playerIndex));
+  const selected = expectMove(replay, playerIndex, action => action.type === 'SELECT_GRID_POSITION' && action.position === position);
+  if (selected) return selected;
+
+  const keepDrawn = makeAIPlacementDecision(replay.state, replay.state.players[playerIndex], drawnCard, position, difficulty);
+  return expectMove(replay, playerIndex, action => action.type === keepAction(keepDrawn));
+}
+
+// Lookahead answers an Expert seat may give without Monte Carlo: its own, and the
+// Hard one the client falls back on when its worker fails or times out
+const EXPERT_LOOKAHEADS: AIDifficulty[] = ['expert', 'hard'];
+
+// Expert: each decision is the lookahead's, unless Monte Carlo overrules it.
+// Re-running Monte Carlo is slow, so it only happens when the logged move isn't
+// a lookahead's; a move a lookahead would have made is accepted either way.
+async function replayExpertMove(replay: SoloReplay, playerIndex: number): Promise<string | null> {
+  // A discard draw is followed straight away by the position it was taken for
+  const matchesDraw = (decision: AIDecision) => {
+    const drawAction = loggedAction(replay, playerIndex);
+    const nextAction = loggedAction(replay, playerIndex, 1);
+    return drawAction?.type === 'DRAW_CARD' && drawAction.source === drawSource(decision)
+      && (decision.gridPosition === undefined
+        || (nextAction?.type === 'SELECT_GRID_POSITION' && nextAction.position === decision.gridPosition));
+  };
+  const decision = EXPERT_LOOKAHEADS
+    .map(difficulty => makeAIDecision(replay.state, replay.state.players[playerIndex], difficulty))
+    .find(matchesDraw)
+    ?? await checkMonteCarlo(replay, 'draw', playerIndex, matchesDraw);
+  if (!decision) return AI_MOVE_MISMATCH;
+  const drew = applyLoggedMove(replay);
+  if (drew) return drew;
+
+  let position = decision.gridPosition;
+  if (position === undefined) {
+    const action = loggedAction(replay, playerIndex);
+    const logged = action?.type === 'DISCARD_DRAWN_CARD' ? 'discard' : action?.type === 'SELECT_GRID_POSITION' ? action.position : null;
+    const drawn = replay.state;
+    const player = drawn.players[playerIndex];
+    const lookaheadPositions = EXPERT_LOOKAHEADS.map(difficulty => shouldAIDiscardDrawnCard(drawn, player, drawn.drawnCard!, difficulty)
+      ? 'discard'
+      : selectAIGridPosition(drawn, player, drawn.drawnCard!, difficulty, createAIRandom(drawn, playerIndex)));
+    const answer = logged !== null && lookaheadPositions.includes(logged)
+      ? logged
+      : await checkMonteCarlo(replay, 'position', playerIndex, answer => answer === logged);
+    if (answer === null) return AI_MOVE_MISMATCH;
+    if (answer === 'discard') {
+      return applyLoggedMove(replay);
+    }
+    position = answer;
+  }
+  const selected = applyLoggedMove(replay);
+  if (selected) return selected;
+
+  const action = loggedAction(replay, playerIndex);
+  const selectedState = replay.state;
+  const keepDrawn = EXPERT_LOOKAHEADS
+    .map(difficulty => makeAIPlacementDecision(selectedState, selectedState.players[playerIndex], selectedState.drawnCard!, position, difficulty))
+    .find(keep => action?.type === keepAction(keep))
+    ?? await checkMonteCarlo(replay, 'keep', playerIndex, keep => action?.type === keepAction(keep));
+  if (keepDrawn === null) return AI_MOVE_MISMATCH;
+  return applyLoggedMove(replay);
+}
+
+// Re-run the Monte Carlo decision the client's worker made from this position.
+// Resolves to its answer if the log agrees with it, otherwise null.
+async function checkMonteCarlo<K extends keyof MonteCarloAnswers>(
+  replay: SoloReplay,
+  kind: K,
+  playerIndex: number,
+  agrees: (answer: MonteCarloAnswers[K]) => boolean
+): Promise<MonteCarloAnswers[K] | null> {
+  if (replay.monteCarloChecks >= MAX_MONTE_CARLO_CHECKS) return null;
+  replay.monteCarloChecks++;
+
+  // Each check takes a while, so let other requests in between them
+  await new Promise(resolve => setImmediate(resolve));
+  const answer = runMonteCarlo({ kind, state: replay.state, playerIndex });
+  return agrees(answer) ? answer : null;
+}
+
+// Lowest total wins; tied players share the better placement
+export function getPlacement(game: GameState, playerIndex: number): number {
+  const score = game.players[playerIndex].totalScore;
+  return 1 + game.players.filter(player => player.totalScore < score).length;
+}
+
+export function buildGameResult(game: GameState, playerIndex: number, gameId: string, gameDuration?: number): GameResult {
+  const placement = getPlacement(game, playerIndex);
+  return {
+    gameId,
+    gameMode: game.gameMode,
+    playerCount: game.players.length,
+    rounds: game.totalRounds,
+    finalScore: game.players[playerIndex].totalScore,
+    placement,
+    won: placement === 1,
+    gameDuration
+  };
+}
+
+// Record a verified result and pay out XP and coins. Returns null if this
+// player has already been rewarded for the game. The game's events, when
+// given, feed event stats and per-game achievements.
+export async function awardGameResult(userId: string, result: GameResult, play?: Omit<PlayedGame, 'won'>): Promise<GameRewards | null> {
+  const existing = await storage.getGameHistoryEntry(userId, result.gameId);
+  if (existing) {
+    return null;
+  }
+
+  const { finalScore, placement, won } = result;
+  const playedGame: PlayedGame | undefined = play && { ...play, won };
+
+  // Calculate XP and coin rewards
+  const baseXP = 10;
+  const winBonus = won ? 20 : 0;
+  const placementBonus = Math.max(0, (5 - placement) * 5); // 1st: 20, 2nd: 15, 3rd: 10, 4th: 5
+  const xpEarned = baseXP + winBonus + placementBonus;
+
+  const baseCoins = 5;
+  const coinBonus = won ? 10 : 0;
+  const coinsEarned = baseCoins + coinBonus;
+
+  // Add game to history. The insert is the claim: a concurrent duplicate
+  // submit that got past the check above loses here.
+  const recorded = await storage.addGameToHistory({
+    userId,
+    ...result,
+    xpEarned,
+    coinsEarned
+  });
+  if (!recorded) {
+    return null;
+  }
+
+  // Update user stats
+  const currentStats = await storage.getUserStats(userId);
+  await storage.updateUserStats(userId, {
+    gamesPlayed: (currentStats?.gamesPlayed || 0) + 1,
+    gamesWon: (currentStats?.gamesWon || 0) + (won ? 1 : 0),
+    gamesLost: (currentStats?.gamesLost || 0) + (won ? 0 : 1),
+    totalScore: (currentStats?.totalScore || 0) + finalScore,
+    bestScore: currentStats?.bestScore ? Math.min(currentStats.bestScore, finalScore) : finalScore,
+    currentWinStreak: won ? (currentStats?.currentWinStreak || 0) + 1 : 0,
+    longestWinStreak: won ? Math.max(currentStats?.longestWinStreak || 0, (currentStats?.currentWinStreak || 0) + 1) : currentStats?.longestWinStreak || 0,
+    perfectGames: (currentStats?.perfectGames || 0) + (finalScore === 0 ? 1 : 0),
+    comebackWins: (currentStats?.comebackWins || 0) + (playedGame && isComebackWin(playedGame) ? 1 : 0),
+    threeOfAKindColumns: (currentStats?.threeOfAKindColumns || 0) + (play ? countThreeOfAKindColumns(play.events, play.playerIndex) : 0),
+  });
+
+  // Award currency and XP
+  await storage.addCurrency(userId, coinsEarned, 'game_reward', result.gameId);
+  await storage.addExperience(userId, xpEarned);
+
+  // New totals (and any level-up) may unlock achievements, which pay out on top
+  const newAchievements = await evaluateAchievements(userId, playedGame);
+  const updatedUser = await storage.getUser(userId);
+
+  return {
+    xpEarned,
+    coinsEarned,
+    newLevel: updatedUser?.level ?? null,
+    newExperience: updatedUser?.experience ?? null,
+    newCurrency: updatedUser?.currency ?? null,
+    newAchievements
+  };
+}
+
+// Pay out every human seat once an online room has played its last round
+export async function awardRoomResults(roomId: string, game: GameState, events: GameEvent[], stakeBracket?: string | null, startedAt?: string | null): Promise<void> {
+  const gameDuration = startedAt
+    ? Math.round((Date.now() - new Date(startedAt).getTime()) / 1000)
+    : undefined;
+
+  for (let index = 0; index < game.players.length; index++) {
+    const player = game.players[index];
+    if (player.isAI) continue;
+
+    const rewards = await awardGameResult(player.id, buildGameResult(game, index, roomId, gameDuration), {
+      playerIndex: index,
+      events,
+      stakeBracket: stakeBracket ?? undefined
+    });
+    if (rewards) {
+      console.log(`[GAME_RESULT] roomId=${roomId}, user=${player.id}, placement=${getPlacement(game, index)}, xp=${rewards.xpEarned}, coins=${rewards.coinsEarned}, achievements=${rewards.newAchievements.length}`);
+    }
+  }
+}
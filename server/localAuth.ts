@@ -0,0 +1,107 @@
+import type { Express, RequestHandler } from "express";
+import { storage } from "./storage";
+import type { AuthProvider } from "./auth";
+
+// Development logins without Replit: pick one of the test users or type any
+// name. Every name maps to a stable user id, so signing in as "Bob" in a second
+// browser profile always gets the same Bob back.
+
+const TEST_USERS = ["Alice", "Bob", "Carol", "Dave"];
+const NAME_PATTERN = /^[A-Za-z0-9 _-]{1,32}$/;
+
+function toLocalUserId(name: string): string {
+  return `local-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-")}`;
+}
+
+function renderLoginPage(error?: string): string {
+  const buttons = TEST_USERS
+    .map(name => `<button type="submit" name="name" value="${name}">${name}</button>`)
+    .join("\n        ");
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <title>Golf 9 - Local Login</title>
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <style>
+      body { font-family: sans-serif; background: #14532d; color: #fff; display: flex; justify-content: center; padding-top: 10vh; }
+      main { background: rgba(0, 0, 0, 0.35); padding: 2rem; border-radius: 12px; width: 320px; }
+      button, input { font-size: 1rem; padding: 0.5rem 0.75rem; margin: 0.25rem 0; border-radius: 6px; border: none; }
+      button { cursor: pointer; background: #facc15; color: #111; }
+      .error { color: #fca5a5; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Local Login</h1>
+      <p>Development sign-in. Use a different browser profile for each player.</p>
+      ${error ? `<p class="error">${error}</p>` : ""}
+      <form method="post" action="/api/login/local">
+        ${buttons}
+      </form>
+      <form method="post" action="/api/login/local">
+        <input name="name" placeholder="Or enter a name" maxlength="32" required />
+        <button type="submit">Sign in</button>
+      </form>
+    </main>
+  </body>
+</html>`;
+}
+
+async function setup(app: Express) {
+  if (process.env.NODE_ENV === "production" && process.env.AUTH_PROVIDER !== "local") {
+    throw new Error("Local authentication is for development; set AUTH_PROVIDER=local to use it in production");
+  }
+
+  app.get("/api/login", (_req, res) => {
+    res.type("html").send(renderLoginPage());
+  });
+
+  app.post("/api/login/local", async (req, res, next) => {
+    const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+    if (!NAME_PATTERN.test(name)) {
+      const message = "Names are 1-32 letters, numbers, spaces, dashes or underscores";
+      return req.is("application/json")
+        ? res.status(400).json({ message })
+        : res.status(400).type("html").send(renderLoginPage(message));
+    }
+
+    try {
+      const id = toLocalUserId(name);
+      const claims = { sub: id, name, first_name: name };
+      await storage.upsertUser({ id, firstName: name });
+
+      req.login({ claims }, (err) => {
+        if (err) return next(err);
+        if (req.is("application/json")) {
+          return res.json({ id, name });
+        }
+        res.redirect("/");
+      });
+    } catch (error) {
+      console.error("Error signing in local user:", error);
+      res.status(500).json({ message: "Failed to sign in" });
+    }
+  });
+
+  app.get("/api/logout", (req, res) => {
+    req.logout(() => {
+      res.redirect("/");
+    });
+  });
+}
+
+const isAuthenticated: RequestHandler = (req, res, next) => {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+};
+
+export const localAuthProvider: AuthProvider = {
+  name: "local",
+  secureCookies: false,
+  setup,
+  isAuthenticated,
+};
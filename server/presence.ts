@@ -0,0 +1,23 @@
+// Who is online right now. A player counts as online while at least one /ws
+// connection opened with their session cookie is still open.
+
+const connections = new Map<string, Set<string>>(); // userId -> open clientIds
+
+export function markConnected(userId: string, clientId: string) {
+  if (!connections.has(userId)) {
+    connections.set(userId, new Set());
+  }
+  connections.get(userId)!.add(clientId);
+}
+
+export function markDisconnected(userId: string, clientId: string) {
+  const clients = connections.get(userId);
+  clients?.delete(clientId);
+  if (clients?.size === 0) {
+    connections.delete(userId);
+  }
+}
+
+export function isOnline(userId: string): boolean {
+  return connections.has(userId);
+}
@@ -0,0 +1,61 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "crypto";
+import type { GameRoom } from "@shared/schema";
+import { storage } from "./storage";
+import { areFriends } from "./friends";
+
+// Private rooms are never listed in the lobby or open to spectators; anyone
+// holding the code or an invite link can take a seat, and a room passphrase (if
+// the host set one) is checked before a seat is claimed. Only a salted hash of
+// it is stored.
+// Friends-only rooms are listed for, and open to, the host's friends alone.
+
+export const MAX_PASSPHRASE_LENGTH = 64;
+
+export function hashPassphrase(passphrase: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(passphrase, salt, 32).toString('hex')}`;
+}
+
+export function checkPassphrase(passphraseHash: string, passphrase: unknown): boolean {
+  if (typeof passphrase !== 'string' || passphrase.length === 0) return false;
+  const [salt, expected] = passphraseHash.split(':');
+  if (!salt || !expected) return false;
+  return timingSafeEqual(scryptSync(passphrase, salt, 32), Buffer.from(expected, 'hex'));
+}
+
+// Whether a room shows up in this viewer's lobby
+export function isListedFor(room: Pick<GameRoom, 'visibility' | 'hostId'>, viewerId: string | null | undefined, friendIds: string[]): boolean {
+  const visibility = room.visibility || 'public';
+  if (visibility === 'public') return true;
+  if (visibility === 'friends') return !!viewerId && (viewerId === room.hostId || friendIds.includes(room.hostId));
+  return false;
+}
+
+// Whether a player may open a room at all; only friends-only rooms turn anyone away
+export async function isOpenTo(room: GameRoom, userId: string | null | undefined): Promise<boolean> {
+  if (room.visibility !== 'friends') return true;
+  if (!userId) return false;
+  if (userId === room.hostId || (room.players as any[]).some(p => p.id === userId)) return true;
+  return areFriends(await storage.getFriendship(room.hostId, userId));
+}
+
+// Whether a player may claim a seat with the passphrase they sent
+export function canEnterRoom(room: GameRoom, passphrase: unknown): boolean {
+  return !room.passphraseHash || checkPassphrase(room.passphraseHash, passphrase);
+}
+
+// The room as clients see it: the passphrase hash becomes a yes/no flag
+export function withoutPassphrase<T extends { passphraseHash?: string | null }>(room: T) {
+  const { passphraseHash, ...rest } = room;
+  return { ...rest, hasPassphrase: !!passphraseHash };
+}
+
+// Why a room can't be watched right now, or null when spectators are welcome.
+// Spectators only ever see face-up cards, but private and locked tables stay
+// closed to them.
+export function spectateBlocker(room: GameRoom): string | null {
+  if (room.passphraseHash) return "Locked tables can't be watched";
+  if (room.visibility === 'private') return "Private tables can't be watched";
+  if (room.status !== 'inGame_active') return 'Only games in progress can be watched';
+  return null;
+}
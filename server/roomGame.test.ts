@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  type RoomGameState,
+  createTableSlot,
+  startRoomGame,
+  updateTurnClock,
+  applyTimeoutMove,
+  applyBotMove,
+  getBotSeats,
+  projectRoomGameState,
+} from "./roomGame";
+
+// A dealt two-player room with a 30 second turn clock
+function startedRoom(turnTimeSeconds = 30): RoomGameState {
+  const roomState: RoomGameState = {
+    state: 'waiting',
+    tableSlots: [createTableSlot(0, 'alice', 'Alice'), createTableSlot(1, 'bob', 'Bob')],
+    settings: { rounds: 5, playerCount: 2, stakeBracket: 'free', turnTimeSeconds },
+    game: null,
+    events: [],
+    turnClock: null,
+    kickedPlayerIds: [],
+  };
+  startRoomGame(roomState);
+  return roomState;
+}
+
+// Everyone peeks their first two cards so player 0 is on turn
+function skipPeek(roomState: RoomGameState) {
+  const result = applyTimeoutMove(roomState.game!);
+  if (!result.ok) throw new Error(result.error.message);
+  roomState.game = result.state;
+}
+
+describe("updateTurnClock", () => {
+  it("starts the clock when the game is dealt", () => {
+    const roomState = startedRoom();
+    expect(roomState.turnClock?.turn).toBe('1:peek');
+    expect(roomState.turnClock!.deadline - Date.now()).toBeGreaterThan(29000);
+  });
+
+  it("keeps the deadline while the same turn continues and restarts it for the next one", () => {
+    const roomState = startedRoom();
+    skipPeek(roomState);
+    updateTurnClock(roomState, 1000);
+    expect(roomState.turnClock).toEqual({ turn: '1:0:turn', deadline: 31000 });
+
+    updateTurnClock(roomState, 5000);
+    expect(roomState.turnClock?.deadline).toBe(31000);
+
+    roomState.game!.currentPlayerIndex = 1;
+    updateTurnClock(roomState, 5000);
+    expect(roomState.turnClock).toEqual({ turn: '1:1:turn', deadline: 35000 });
+  });
+
+  it("leaves untimed rooms and finished rounds off the clock", () => {
+    expect(startedRoom(0).turnClock).toBeNull();
+
+    const roomState = startedRoom();
+    roomState.game!.gamePhase = 'round-end';
+    updateTurnClock(roomState);
+    expect(roomState.turnClock).toBeNull();
+  });
+});
+
+describe("applyTimeoutMove", () => {
+  it("peeks two cards for everyone still peeking", () => {
+    const roomState = startedRoom();
+    const result = applyTimeoutMove(roomState.game!, () => 0);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.state.gamePhase).toBe('playing');
+    result.state.players.forEach(player => {
+      expect(player.grid.filter(gridCard => gridCard.isRevealed)).toHaveLength(2);
+    });
+  });
+
+  it("draws, discards the drawn card over a face-down card and passes the turn", () => {
+    const roomState = startedRoom();
+    skipPeek(roomState);
+    const game = roomState.game!;
+    const drawn = game.drawPile[0];
+
+    const result = applyTimeoutMove(game, () => 0.99);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.state.discardPile.at(-1)).toEqual(drawn);
+    expect(result.state.players[0].grid.filter(gridCard => gridCard.isRevealed)).toHaveLength(3);
+    expect(result.state.currentPlayerIndex === 1 || result.state.extraTurn).toBe(true);
+  });
+
+  it("finishes a move the player had already started", () => {
+    const roomState = startedRoom();
+    skipPeek(roomState);
+    const game = roomState.game!;
+    game.drawnCard = game.drawPile.shift()!;
+
+    const result = applyTimeoutMove(game);
+    if (!result.ok) throw new Error(result.error.message);
+    expect(result.state.drawnCard).toBeNull();
+  });
+});
+
+describe("applyBotMove", () => {
+  it("peeks for bot seats only", () => {
+    const roomState = startedRoom();
+    roomState.tableSlots[1].botControlled = true;
+    expect(getBotSeats(roomState)).toEqual([{ playerIndex: 1, difficulty: 'normal' }]);
+
+    const result = applyBotMove(roomState.game!, getBotSeats(roomState));
+    if (!result?.ok) throw new Error("bot did not peek");
+
+    expect(result.state.players[1].grid.filter(gridCard => gridCard.isRevealed)).toHaveLength(2);
+    expect(result.state.players[0].grid.filter(gridCard => gridCard.isRevealed)).toHaveLength(0);
+    expect(applyBotMove(result.state, [{ playerIndex: 1, difficulty: 'normal' }])).toBeNull();
+  });
+
+  it("plays a whole turn for a bot on turn and passes it on", () => {
+    const roomState = startedRoom();
+    skipPeek(roomState);
+
+    const result = applyBotMove(roomState.game!, [{ playerIndex: 0, difficulty: 'normal' }]);
+    if (!result?.ok) throw new Error("bot did not move");
+
+    // A three-of-a-kind would keep the bot on turn for its extra turn
+    expect(result.state.currentPlayerIndex === 1 || result.state.extraTurn).toBe(true);
+    expect(result.state.drawnCard).toBeNull();
+  });
+
+  it("waits while a human player is on turn", () => {
+    const roomState = startedRoom();
+    skipPeek(roomState);
+    expect(applyBotMove(roomState.game!, [{ playerIndex: 1, difficulty: 'easy' }])).toBeNull();
+  });
+});
+
+describe("projectRoomGameState", () => {
+  it("sends the time left on the clock instead of the deadline", () => {
+    const roomState = startedRoom();
+    roomState.turnClock = { turn: '1:peek', deadline: 20000 };
+
+    const view = projectRoomGameState(roomState, 'alice', 12500)!;
+    expect(view.turnTimeRemainingMs).toBe(7500);
+    expect(view).not.toHaveProperty('turnClock');
+    expect(projectRoomGameState(roomState, 'alice', 25000)!.turnTimeRemainingMs).toBe(0);
+  });
+});
@@ -0,0 +1,365 @@
+import type { GameState, GameAction, GameEvent, GameStateView, AIDifficulty } from "@shared/gameTypes";
+import { createGameState, hasPlayerFinishedPeeking } from "@shared/gameLogic";
+import { applyGameAction, applyGameActions, type GameActionResult } from "@shared/gameEngine";
+import { makeAIDecision, makeAIPlacementDecision, selectAIPeekCards, selectAIGridPosition, shouldAIDiscardDrawnCard } from "@shared/aiLogic";
+
+// Online rooms keep seat bookkeeping in tableSlots and the authoritative Golf 9
+// state in `game`, which is only ever changed through the shared rules engine.
+
+export interface TableSlot {
+  seatNumber: number;
+  isEmpty: boolean;
+  playerId: string | null;
+  playerName: string | null;
+  score: number;
+  roundScores: number[];
+  isReady: boolean;
+  isActive: boolean;
+  botControlled: boolean; // The server plays this seat until its player reconnects
+  aiDifficulty: AIDifficulty | null; // Set for seats filled by a server AI player
+}
+
+// The clock for whoever has to act next. `turn` identifies that turn, so the
+// deadline only restarts when the turn actually moves on.
+export interface TurnClock {
+  turn: string;
+  deadline: number; // Epoch milliseconds
+}
+
+export interface RoomGameState {
+  state: 'waiting' | 'active' | 'finished';
+  tableSlots: TableSlot[];
+  settings: {
+    rounds: number;
+    playerCount: number;
+    stakeBracket: string;
+    turnTimeSeconds: number; // 0 leaves turns untimed
+  };
+  game: GameState | null;
+  events: GameEvent[]; // Everything the engine reported this game, for end-of-game achievements
+  turnClock: TurnClock | null;
+  kickedPlayerIds: string[]; // Removed by the host; they may not join this room again
+}
+
+// Room state as sent to one particular client
+export interface RoomGameView extends Omit<RoomGameState, 'game' | 'events' | 'turnClock'> {
+  game: GameStateView | null;
+  turnTimeRemainingMs: number | null; // Null when nobody is on the clock
+}
+
+export function createTableSlot(seatNumber: number, playerId: string | null = null, playerName: string | null = null): TableSlot {
+  return {
+    seatNumber,
+    isEmpty: playerId === null,
+    playerId,
+    playerName,
+    score: 0,
+    roundScores: [],
+    isReady: false,
+    isActive: playerId !== null,
+    botControlled: false,
+    aiDifficulty: null
+  };
+}
+
+// Seat a server AI player, e.g. "ai-2" as "AI Player 3"
+export function createAISlot(seatNumber: number, difficulty: AIDifficulty): TableSlot {
+  return {
+    ...createTableSlot(seatNumber, `ai-${seatNumber}`, `AI Player ${seatNumber + 1}`),
+    isReady: true,
+    aiDifficulty: difficulty
+  };
+}
+
+// Let the host start short-handed: every empty seat gets an AI player
+export function fillEmptySeatsWithAI(roomState: RoomGameState, difficulty: AIDifficulty): number {
+  let filled = 0;
+  roomState.tableSlots = roomState.tableSlots.map(slot => {
+    if (!slot.isEmpty) return slot;
+    filled++;
+    return createAISlot(slot.seatNumber, difficulty);
+  });
+  return filled;
+}
+
+// Returns false when the player has no seat at this table
+export function setPlayerReady(roomState: RoomGameState, playerId: string, ready: boolean): boolean {
+  const slot = roomState.tableSlots.find(s => s.playerId === playerId);
+  if (!slot) return false;
+  slot.isReady = ready;
+  return true;
+}
+
+// Seated human players the host is still waiting on. Starting the game is the
+// host's own ready-up, so the host is never on this list.
+export function playersNotReady(roomState: RoomGameState, hostId: string): TableSlot[] {
+  return roomState.tableSlots.filter(slot =>
+    !slot.isEmpty && !slot.aiDifficulty && slot.playerId !== hostId && !slot.isReady);
+}
+
+// Empty the player's seat so someone else can take it
+export function vacateSeat(roomState: RoomGameState, playerId: string): boolean {
+  const index = roomState.tableSlots.findIndex(s => s.playerId === playerId);
+  if (index === -1) return false;
+  roomState.tableSlots[index] = createTableSlot(roomState.tableSlots[index].seatNumber);
+  return true;
+}
+
+// Deal the first round for everyone currently seated, in seat order
+export function startRoomGame(roomState: RoomGameState): void {
+  const seated = roomState.tableSlots.filter(slot => !slot.isEmpty && slot.playerId);
+  const totalRounds: GameState['totalRounds'] = roomState.settings.rounds === 5 ? 5 : 9;
+
+  roomState.game = createGameState(
+    seated.map(slot => ({
+      id: slot.playerId!,
+      name: slot.playerName || `Player ${slot.seatNumber + 1}`,
+      isAI: !!slot.aiDifficulty,
+      avatar: slot.aiDifficulty ? 'AI' : `P${slot.seatNumber + 1}`
+    })),
+    totalRounds,
+    'online'
+  );
+  roomState.events = [];
+  roomState.state = 'active';
+  updateTurnClock(roomState);
+}
+
+// Peeking is simultaneous, so the whole peek phase shares one clock; after
+// that each turn (and each extra turn) gets its own
+function currentTurn(game: GameState): string | null {
+  switch (game.gamePhase) {
+    case 'peek':
+      return `${game.currentRound}:peek`;
+    case 'playing':
+      return `${game.currentRound}:${game.currentPlayerIndex}:${game.extraTurn ? 'extra' : 'turn'}`;
+    default:
+      return null;
+  }
+}
+
+// Start a fresh clock when the turn has moved on, keep it running otherwise
+export function updateTurnClock(roomState: RoomGameState, now = Date.now()): void {
+  const turn = roomState.game ? currentTurn(roomState.game) : null;
+  const seconds = roomState.settings.turnTimeSeconds ?? 0;
+
+  if (!turn || seconds <= 0) {
+    roomState.turnClock = null;
+  } else if (roomState.turnClock?.turn !== turn) {
+    roomState.turnClock = { turn, deadline: now + seconds * 1000 };
+  }
+}
+
+// Seat management sent through the same endpoint as moves, before the deal
+export type RoomControlAction = 'ready' | 'unready' | 'start_game' | 'kick';
+
+export const ROOM_CONTROL_ACTIONS: RoomControlAction[] = ['ready', 'unready', 'start_game', 'kick'];
+
+export function isRoomControlAction(action: string): action is RoomControlAction {
+  return (ROOM_CONTROL_ACTIONS as string[]).includes(action);
+}
+
+// Translate the wire format ({ action: 'draw_card', source: 'discard' }) into an engine action
+export function toGameAction(action: string, data: any): GameAction | null {
+  switch (action) {
+    case 'draw_card':
+      return { type: 'DRAW_CARD', source: data?.source === 'discard' ? 'discard' : 'draw' };
+    case 'select_grid_position':
+      return { type: 'SELECT_GRID_POSITION', position: Number(data?.position) };
+    case 'keep_drawn_card':
+      return { type: 'KEEP_DRAWN_CARD' };
+    case 'keep_revealed_card':
+      return { type: 'KEEP_REVEALED_CARD' };
+    case 'discard_drawn_card':
+      return { type: 'DISCARD_DRAWN_CARD' };
+    case 'peek_card':
+      return { type: 'PEEK_CARD', position: Number(data?.index ?? data?.position) };
+    case 'end_turn':
+      return { type: 'END_TURN' };
+    default:
+      return null;
+  }
+}
+
+// Once a move is fully resolved the turn passes automatically
+function passTurnIfComplete(result: GameActionResult, playerIndex: number): GameActionResult {
+  if (!result.ok || result.state.gamePhase !== 'playing' || !result.state.turnComplete) {
+    return result;
+  }
+  const endTurn = applyGameAction(result.state, playerIndex, { type: 'END_TURN' });
+  if (!endTurn.ok) return endTurn;
+  return { ...endTurn, events: [...result.events, ...endTurn.events] };
+}
+
+// Apply a player's action to the room's game, so clients never have to send end_turn themselves
+export function applyRoomAction(game: GameState, userId: string, action: GameAction): GameActionResult {
+  const playerIndex = game.players.findIndex(player => player.id === userId);
+  const result = applyGameAction(game, playerIndex, action);
+  if (action.type === 'END_TURN') return result;
+  return passTurnIfComplete(result, playerIndex);
+}
+
+// The move made for whoever lets the clock run out. In the peek phase everyone
+// still peeking turns over random cards; otherwise the current player draws
+// from the pile (unless it cannot be refilled) and discards the drawn card,
+// turning over a random face-down card if they still may.
+export function applyTimeoutMove(game: GameState, random: () => number = Math.random): GameActionResult {
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  if (game.gamePhase === 'peek') {
+    let result: GameActionResult = { ok: true, state: game, events: [] };
+    for (let playerIndex = 0; playerIndex < game.players.length && result.ok; playerIndex++) {
+      while (result.ok && !hasPlayerFinishedPeeking(result.state.players[playerIndex])) {
+        const faceDown = result.state.players[playerIndex].grid.filter(gridCard => !gridCard.isRevealed && !gridCard.isDisabled);
+        if (faceDown.length === 0) break;
+        result = applyGameAction(result.state, playerIndex, { type: 'PEEK_CARD', position: pick(faceDown).position });
+      }
+    }
+    return result;
+  }
+
+  const playerIndex = game.currentPlayerIndex;
+  const actions: GameAction[] = [];
+
+  if (!game.drawnCard) {
+    const canDrawFromPile = game.drawPile.length > 0 || game.discardPile.length > 1 || game.extraTurn;
+    actions.push({ type: 'DRAW_CARD', source: canDrawFromPile ? 'draw' : 'discard' });
+  }
+  if (game.selectedGridPosition === null) {
+    const open = game.players[playerIndex].grid.filter(gridCard => !gridCard.isDisabled);
+    const faceDown = open.filter(gridCard => !gridCard.isRevealed);
+    const choices = faceDown.length > 0 && !game.hasRevealedCardThisTurn ? faceDown : open.filter(gridCard => gridCard.isRevealed);
+    actions.push({ type: 'SELECT_GRID_POSITION', position: pick(choices).position });
+  }
+  actions.push({ type: 'KEEP_REVEALED_CARD' });
+
+  return passTurnIfComplete(applyGameActions(game, playerIndex, actions), playerIndex);
+}
+
+// A seat the server plays: an AI player, or a human's seat while they are away
+export interface BotSeat {
+  playerIndex: number;
+  difficulty: AIDifficulty;
+}
+
+export function getBotSeats(roomState: RoomGameState): BotSeat[] {
+  const game = roomState.game;
+  if (!game) return [];
+  return game.players.flatMap((player, playerIndex) => {
+    const slot = roomState.tableSlots.find(s => s.playerId === player.id);
+    if (slot?.aiDifficulty) return [{ playerIndex, difficulty: slot.aiDifficulty }];
+    if (slot?.botControlled) return [{ playerIndex, difficulty: 'normal' as const }];
+    return [];
+  });
+}
+
+// Act for bot seats with the same decisions as solo AI opponents. In the peek
+// phase every bot still peeking does so; otherwise the current player moves if
+// they are a bot. Returns null when no bot has anything to do.
+export function applyBotMove(game: GameState, bots: BotSeat[]): GameActionResult | null {
+  if (game.gamePhase === 'peek') {
+    const peeking = bots.map(bot => bot.playerIndex).filter(index => !hasPlayerFinishedPeeking(game.players[index]));
+    if (peeking.length === 0) return null;
+
+    let result: GameActionResult = { ok: true, state: game, events: [] };
+    for (const playerIndex of peeking) {
+      const player = game.players[playerIndex];
+      const revealedCount = player.grid.filter(gridCard => gridCard.isRevealed).length;
+      for (const position of selectAIPeekCards(player).slice(0, 2 - revealedCount)) {
+        if (!result.ok) return result;
+        result = applyGameAction(result.state, playerIndex, { type: 'PEEK_CARD', position });
+      }
+    }
+    return result;
+  }
+
+  const playerIndex = game.currentPlayerIndex;
+  const bot = bots.find(seat => seat.playerIndex === playerIndex);
+  if (game.gamePhase !== 'playing' || !bot) return null;
+
+  const decision = makeAIDecision(game, game.players[playerIndex], bot.difficulty);
+  const drawn = applyGameAction(game, playerIndex, {
+    type: 'DRAW_CARD',
+    source: decision.action === 'draw-from-discard' ? 'discard' : 'draw'
+  });
+  if (!drawn.ok) return drawn;
+
+  const drawnCard = drawn.state.drawnCard!;
+  const player = drawn.state.players[playerIndex];
+
+  // With only one face-down card left a bad card may be discarded outright
+  if (shouldAIDiscardDrawnCard(drawn.state, player, drawnCard, bot.difficulty)) {
+    return passTurnIfComplete(applyGameAction(drawn.state, playerIndex, { type: 'DISCARD_DRAWN_CARD' }), playerIndex);
+  }
+
+  // Select (and reveal) a position, then decide which card to keep
+  const position = decision.gridPosition ?? selectAIGridPosition(drawn.state, player, drawnCard, bot.difficulty);
+  const selected = applyGameAction(drawn.state, playerIndex, { type: 'SELECT_GRID_POSITION', position });
+  if (!selected.ok) return selected;
+
+  const keepDrawn = makeAIPlacementDecision(selected.state, selected.state.players[playerIndex], drawnCard, position, bot.difficulty);
+  const kept = applyGameAction(selected.state, playerIndex, { type: keepDrawn ? 'KEEP_DRAWN_CARD' : 'KEEP_REVEALED_CARD' });
+  return passTurnIfComplete(kept, playerIndex);
+}
+
+// Copy the engine's freshly scored round onto the seats: append each round score
+// and keep the running total in `score`. Returns the phase the round ended in.
+export function recordRoundScores(roomState: RoomGameState): 'round-end' | 'game-end' | null {
+  const game = roomState.game;
+  if (!game || (game.gamePhase !== 'round-end' && game.gamePhase !== 'game-end')) {
+    return null;
+  }
+
+  game.players.forEach(player => {
+    const slot = roomState.tableSlots.find(s => s.playerId === player.id);
+    if (slot) {
+      slot.roundScores = [...slot.roundScores, player.roundScore];
+      slot.score = player.totalScore;
+    }
+  });
+
+  if (game.gamePhase === 'game-end') {
+    roomState.state = 'finished';
+  }
+  return game.gamePhase;
+}
+
+// Deal the next round once the round-end pause is over
+export function startNextRoomRound(roomState: RoomGameState): boolean {
+  if (!roomState.game) return false;
+
+  const result = applyGameAction(roomState.game, roomState.game.currentPlayerIndex, { type: 'START_ROUND' });
+  if (!result.ok) return false;
+
+  roomState.game = result.state;
+  updateTurnClock(roomState);
+  return true;
+}
+
+// Project the room for a single viewer. Cards that are still face down are
+// stripped for everyone (a player's own peeked cards are already face up), the
+// draw pile becomes a count and the drawn card is only shown to whoever drew it.
+// The turn clock is sent as time remaining so client clocks don't matter.
+export function projectRoomGameState(roomState: RoomGameState | null, viewerId?: string | null, now = Date.now()): RoomGameView | null {
+  if (!roomState) return null;
+  const { events, turnClock, ...room } = roomState;
+  const turnTimeRemainingMs = turnClock ? Math.max(0, turnClock.deadline - now) : null;
+  if (!room.game) return { ...room, game: null, turnTimeRemainingMs };
+
+  const { drawPile, rngState, ...game } = room.game;
+  const viewerIsCurrent = game.players[game.currentPlayerIndex]?.id === viewerId;
+
+  return {
+    ...room,
+    turnTimeRemainingMs,
+    game: {
+      ...game,
+      players: game.players.map(player => ({
+        ...player,
+        grid: player.grid.map(gridCard => gridCard.isRevealed ? gridCard : { ...gridCard, card: null })
+      })),
+      drawnCard: viewerIsCurrent ? game.drawnCard : null,
+      drawPileCount: drawPile.length
+    }
+  };
+}
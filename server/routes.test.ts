@@ -0,0 +1,722 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Drives the room API and /ws against a real in-process server. vitest.config.ts
+// runs the server on MemStorage with local logins, so every player is just a
+// session cookie from POST /api/login/local.
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+async function login(name: string): Promise<string> {
+  const res = await fetch(`${baseUrl}/api/login/local`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  expect(res.status).toBe(200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function post(cookie: string, path: string, body: unknown = {}) {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+async function get(cookie: string, path: string) {
+  const res = await fetch(`${baseUrl}${path}`, { headers: { Cookie: cookie } });
+  return { status: res.status, body: await res.json() };
+}
+
+async function createRoom(cookie: string, options: Record<string, unknown> = {}): Promise<string> {
+  const { status, body } = await post(cookie, "/api/rooms/create", { stakeBracket: "free", maxPlayers: 2, rounds: 5, ...options });
+  expect(status).toBe(200);
+  return body.room.code;
+}
+
+// The guest gets ready and the host deals
+async function readyAndStart(host: string, guest: string, code: string) {
+  expect((await post(guest, `/api/rooms/${code}/action`, { action: "ready" })).status).toBe(200);
+  const started = await post(host, `/api/rooms/${code}/action`, { action: "start_game" });
+  expect(started.status).toBe(200);
+  return started.body;
+}
+
+// Two logged-in players at a full, started two-seat table
+async function startedRoom(host: string, guest: string) {
+  const alice = await login(host);
+  const bob = await login(guest);
+  const code = await createRoom(alice);
+  expect((await post(bob, `/api/rooms/${code}/join`)).status).toBe(200);
+  await readyAndStart(alice, bob, code);
+  return { alice, bob, code };
+}
+
+// Collects every message a /ws client receives
+function connect(cookie?: string) {
+  const ws = new WebSocket(`${baseUrl.replace("http", "ws")}/ws`, { headers: cookie ? { Cookie: cookie } : {} });
+  const messages: any[] = [];
+  ws.on("message", data => messages.push(JSON.parse(data.toString())));
+
+  const next = async (type: string, after = 0) => {
+    await vi.waitFor(() => {
+      if (!messages.slice(after).some(m => m.type === type)) throw new Error(`no ${type} yet`);
+    }, { timeout: 2000 });
+    return messages.slice(after).find(m => m.type === type);
+  };
+  const opened = new Promise(resolve => ws.once("open", resolve));
+  return { ws, messages, next, opened };
+}
+
+describe("POST /api/rooms/create", () => {
+  it("seats the host and waits for players", async () => {
+    const alice = await login("Create Host");
+    const { status, body } = await post(alice, "/api/rooms/create", { stakeBracket: "free", maxPlayers: 3, rounds: 9 });
+
+    expect(status).toBe(200);
+    expect(body.gameSnapshot.status).toBe("inGame_waiting");
+    expect(body.room.players).toHaveLength(1);
+    expect(body.room.version).toBe("1");
+    expect(body.gameSnapshot.gameState.tableSlots.map((s: any) => s.isEmpty)).toEqual([false, true, true]);
+  });
+
+  it("escrows the host's entry fee", async () => {
+    const alice = await login("Stake Host");
+    await createRoom(alice, { stakeBracket: "low" });
+
+    const user = await storage.getUser("local-stake-host");
+    expect(user?.currency).toBe(90);
+  });
+
+  it("rejects turn times that are not on offer", async () => {
+    const alice = await login("Clock Host");
+    const { status } = await post(alice, "/api/rooms/create", { stakeBracket: "free", maxPlayers: 2, rounds: 5, turnTimeSeconds: 7 });
+    expect(status).toBe(400);
+  });
+
+  it("requires a login", async () => {
+    expect((await post("", "/api/rooms/create")).status).toBe(401);
+  });
+
+  it("keeps private rooms out of the lobby but opens them by code", async () => {
+    const alice = await login("Private Host");
+    const code = await createRoom(alice, { visibility: "private", passphrase: "open sesame" });
+
+    const listed = await (await fetch(`${baseUrl}/api/rooms/active/free`)).json();
+    expect(listed.map((r: any) => r.code)).not.toContain(code);
+
+    const room = await (await fetch(`${baseUrl}/api/rooms/${code}`)).json();
+    expect(room.visibility).toBe("private");
+    expect(room.hasPassphrase).toBe(true);
+    expect(room).not.toHaveProperty("passphraseHash");
+  });
+
+  it("only lets private rooms have a passphrase", async () => {
+    const alice = await login("Passphrase Host");
+    expect((await post(alice, "/api/rooms/create", { visibility: "public", passphrase: "secret" })).status).toBe(400);
+    expect((await post(alice, "/api/rooms/create", { visibility: "hidden" })).status).toBe(400);
+  });
+});
+
+describe("POST /api/rooms/:code/join", () => {
+  it("waits for the ready check and the host's start even at a full table", async () => {
+    const alice = await login("Join Host");
+    const bob = await login("Join Guest");
+    const code = await createRoom(alice);
+
+    const { status, body } = await post(bob, `/api/rooms/${code}/join`);
+    expect(status).toBe(200);
+    expect(body.seatNumber).toBe(1);
+    expect(body.gameSnapshot.status).toBe("inGame_waiting");
+    expect(body.gameSnapshot.gameState.game).toBeFalsy();
+
+    const started = await readyAndStart(alice, bob, code);
+    expect(started.gameSnapshot.status).toBe("inGame_active");
+    expect(started.gameSnapshot.gameState.game.gamePhase).toBe("peek");
+    // Nobody has peeked yet, so no card faces are sent
+    expect(started.gameSnapshot.gameState.game.players[0].grid.every((g: any) => g.card === null)).toBe(true);
+  });
+
+  it("starts the turn clock once the game is dealt", async () => {
+    const alice = await login("Timed Host");
+    const bob = await login("Timed Guest");
+    const code = await createRoom(alice, { turnTimeSeconds: 15 });
+
+    await post(bob, `/api/rooms/${code}/join`);
+    const body = await readyAndStart(alice, bob, code);
+    expect(body.gameSnapshot.gameState.turnTimeRemainingMs).toBeGreaterThan(14000);
+    expect(body.gameSnapshot.gameState.turnTimeRemainingMs).toBeLessThanOrEqual(15000);
+  });
+
+  it("is idempotent for a player who is already seated", async () => {
+    const alice = await login("Rejoin Host");
+    const code = await createRoom(alice);
+
+    const { status, body } = await post(alice, `/api/rooms/${code}/join`);
+    expect(status).toBe(200);
+    expect(body.alreadySeated).toBe(true);
+  });
+
+  it("turns players away from a full table", async () => {
+    const { code } = await startedRoom("Full Host", "Full Guest");
+    const carol = await login("Full Latecomer");
+
+    const { status, body } = await post(carol, `/api/rooms/${code}/join`);
+    expect(status).toBe(400);
+    expect(body.gameSnapshot.players).toHaveLength(2);
+  });
+
+  it("asks for the passphrase of a locked private room", async () => {
+    const alice = await login("Locked Host");
+    const bob = await login("Locked Guest");
+    const code = await createRoom(alice, { visibility: "private", passphrase: "open sesame" });
+
+    const missing = await post(bob, `/api/rooms/${code}/join`);
+    expect(missing.status).toBe(403);
+    expect(missing.body.needsPassphrase).toBe(true);
+    expect((await post(bob, `/api/rooms/${code}/join`, { passphrase: "open barley" })).status).toBe(403);
+
+    const { status, body } = await post(bob, `/api/rooms/${code}/join`, { passphrase: "open sesame" });
+    expect(status).toBe(200);
+    expect(body.gameSnapshot.visibility).toBe("private");
+  });
+
+  it("returns 404 for an unknown room", async () => {
+    const bob = await login("Lost Guest");
+    expect((await post(bob, "/api/rooms/NOPE00/join")).status).toBe(404);
+  });
+});
+
+describe("room control actions", () => {
+  const control = (cookie: string, code: string, action: string, data: Record<string, unknown> = {}) =>
+    post(cookie, `/api/rooms/${code}/action`, { action, ...data });
+
+  it("starts short-handed once every seated player is ready", async () => {
+    const alice = await login("Ready Host");
+    const bob = await login("Ready Guest");
+    const code = await createRoom(alice, { maxPlayers: 4 });
+    await post(bob, `/api/rooms/${code}/join`);
+
+    const early = await control(alice, code, "start_game");
+    expect(early.status).toBe(400);
+    expect(early.body.message).toBe("Waiting for Ready Guest to get ready");
+
+    const ready = await control(bob, code, "ready");
+    expect(ready.body.gameSnapshot.gameState.tableSlots[1].isReady).toBe(true);
+
+    const { status, body } = await control(alice, code, "start_game");
+    expect(status).toBe(200);
+    expect(body.gameSnapshot.status).toBe("inGame_active");
+    expect(body.gameSnapshot.gameState.game.players).toHaveLength(2);
+
+    // The seats left empty are not open any more
+    const carol = await login("Ready Latecomer");
+    expect((await post(carol, `/api/rooms/${code}/join`)).status).toBe(400);
+  });
+
+  it("fills empty seats with AI players when asked", async () => {
+    const alice = await login("Early Host");
+    const bob = await login("Early Guest");
+    const code = await createRoom(alice, { maxPlayers: 4 });
+    await post(bob, `/api/rooms/${code}/join`);
+    await control(bob, code, "ready");
+
+    const { status, body } = await control(alice, code, "start_game", { aiDifficulty: "easy" });
+    expect(status).toBe(200);
+
+    const { tableSlots, game } = body.gameSnapshot.gameState;
+    expect(tableSlots.map((s: any) => s.aiDifficulty)).toEqual([null, null, "easy", "easy"]);
+    expect(game.players.map((p: any) => p.isAI)).toEqual([false, false, true, true]);
+    expect(body.gameSnapshot.players).toHaveLength(2);
+
+    // A game in progress is not an open table, whatever its seat count says
+    const listed = await (await fetch(`${baseUrl}/api/rooms/active/free`)).json();
+    expect(listed.map((r: any) => r.code)).not.toContain(code);
+  });
+
+  it("needs a second player to start without AI", async () => {
+    const alice = await login("Lonely Host");
+    const code = await createRoom(alice, { maxPlayers: 3 });
+
+    const { status, body } = await control(alice, code, "start_game");
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/two players/);
+  });
+
+  it("only lets the host start or remove players", async () => {
+    const alice = await login("Start Host");
+    const bob = await login("Start Guest");
+    const code = await createRoom(alice, { maxPlayers: 3 });
+    await post(bob, `/api/rooms/${code}/join`);
+
+    expect((await control(bob, code, "start_game")).status).toBe(403);
+    expect((await control(bob, code, "kick", { playerId: "local-start-host" })).status).toBe(403);
+  });
+
+  it("keeps AI players away from staked tables", async () => {
+    const alice = await login("Staked Starter");
+    const code = await createRoom(alice, { stakeBracket: "low" });
+
+    const { status, body } = await control(alice, code, "start_game", { aiDifficulty: "normal" });
+    expect(status).toBe(400);
+    expect(body.message).toMatch(/free tables/);
+    expect((await storage.getGameRoom(code))?.status).toBe("inGame_waiting");
+  });
+
+  it("only starts staked tables once every seat is taken", async () => {
+    const alice = await login("Short Stake Host");
+    const bob = await login("Short Stake Guest");
+    const code = await createRoom(alice, { stakeBracket: "low", maxPlayers: 3 });
+    await post(bob, `/api/rooms/${code}/join`);
+    await control(bob, code, "ready");
+
+    const { status, body } = await control(alice, code, "start_game");
+    expect(status).toBe(400);
+    expect(body.message).toBe("Staked tables start once every seat is taken");
+    expect((await storage.getGameRoom(code))?.status).toBe("inGame_waiting");
+  });
+
+  it("removes a kicked player, refunds them and keeps them out", async () => {
+    const alice = await login("Kick Host");
+    const bob = await login("Kick Guest");
+    const code = await createRoom(alice, { stakeBracket: "low", maxPlayers: 3 });
+    await post(bob, `/api/rooms/${code}/join`);
+
+    const { status, body } = await control(alice, code, "kick", { playerId: "local-kick-guest" });
+    expect(status).toBe(200);
+    expect(body.gameSnapshot.players).toHaveLength(1);
+    expect(body.gameSnapshot.gameState.tableSlots[1].isEmpty).toBe(true);
+    expect((await storage.getUser("local-kick-guest"))?.currency).toBe(100);
+
+    const rejoin = await post(bob, `/api/rooms/${code}/join`);
+    expect(rejoin.status).toBe(403);
+    expect((await storage.getUser("local-kick-guest"))?.currency).toBe(100);
+  });
+});
+
+describe("POST /api/rooms/:code/action", () => {
+  it("applies legal moves and bumps the room version", async () => {
+    const { alice, code } = await startedRoom("Action Host", "Action Guest");
+    const before = await storage.getGameRoom(code);
+
+    const { status, body } = await post(alice, `/api/rooms/${code}/action`, { action: "peek_card", index: 0 });
+    expect(status).toBe(200);
+    expect(body.version).toBe((before!.version + BigInt(1)).toString());
+
+    const game = ((await storage.getGameRoom(code))!.gameState as any).game;
+    expect(game.players[0].grid[0].isRevealed).toBe(true);
+  });
+
+  it("rejects moves the rules engine does not allow", async () => {
+    const { alice, code } = await startedRoom("Rules Host", "Rules Guest");
+
+    const { status, body } = await post(alice, `/api/rooms/${code}/action`, { action: "draw_card", source: "draw" });
+    expect(status).toBe(400);
+    expect(body.code).toBe("WRONG_PHASE");
+  });
+
+  it("rejects unknown actions and players from other tables", async () => {
+    const { alice, code } = await startedRoom("Unknown Host", "Unknown Guest");
+    const mallory = await login("Unknown Outsider");
+
+    expect((await post(alice, `/api/rooms/${code}/action`, { action: "flip_table" })).status).toBe(400);
+    expect((await post(mallory, `/api/rooms/${code}/action`, { action: "peek_card", index: 0 })).status).toBe(403);
+  });
+
+  it("answers a stale version with 409 and the latest snapshot", async () => {
+    const { alice, bob, code } = await startedRoom("Stale Host", "Stale Guest");
+    const { version } = (await storage.getGameRoom(code))!;
+    await post(bob, `/api/rooms/${code}/action`, { action: "peek_card", index: 4, version: version.toString() });
+
+    const { status, body } = await post(alice, `/api/rooms/${code}/action`, { action: "peek_card", index: 0, version: version.toString() });
+    expect(status).toBe(409);
+    expect(body.gameSnapshot.version).toBe((version + BigInt(1)).toString());
+  });
+});
+
+describe("POST /api/rooms/:code/leave", () => {
+  it("refunds the entry fee and hands the room to the next player", async () => {
+    const alice = await login("Leave Host");
+    const bob = await login("Leave Guest");
+    const code = await createRoom(alice, { stakeBracket: "low", maxPlayers: 3 });
+    await post(bob, `/api/rooms/${code}/join`);
+
+    const { status } = await post(alice, `/api/rooms/${code}/leave`);
+    expect(status).toBe(200);
+
+    const room = await storage.getGameRoom(code);
+    expect(room?.hostId).toBe("local-leave-guest");
+    expect(room?.escrow).toBe(10);
+    expect((await storage.getUser("local-leave-host"))?.currency).toBe(100);
+  });
+
+  it("hands a seat left mid-game to a bot that plays it", async () => {
+    const { alice, code } = await startedRoom("Midgame Leaver", "Midgame Stayer");
+
+    expect((await post(alice, `/api/rooms/${code}/leave`)).status).toBe(200);
+    const room = await storage.getGameRoom(code);
+    const seat = (room?.gameState as any).tableSlots.find((slot: any) => slot.playerId === "local-midgame-leaver");
+    expect(seat.botControlled).toBe(true);
+
+    // The bot peeks for the seat it took over
+    await vi.waitFor(async () => {
+      const game = ((await storage.getGameRoom(code))?.gameState as any).game;
+      expect(game.players.find((player: any) => player.id === "local-midgame-leaver").grid.filter((card: any) => card.isRevealed)).toHaveLength(2);
+    }, { timeout: 4000 });
+
+    // The seat is still theirs to come back to
+    expect((await post(alice, `/api/rooms/${code}/join`)).body.alreadySeated).toBe(true);
+  });
+
+  it("deletes the room when the last player leaves", async () => {
+    const alice = await login("Last Leaver");
+    const code = await createRoom(alice);
+
+    const { body } = await post(alice, `/api/rooms/${code}/leave`);
+    expect(body.message).toBe("Left room and room deleted");
+    expect(await storage.getGameRoom(code)).toBeUndefined();
+  });
+});
+
+describe("friends", () => {
+  // Two players who have sent and accepted a friend request
+  async function friends(first: string, second: string) {
+    const a = await login(first);
+    const b = await login(second);
+    const { body } = await post(a, "/api/friends/requests", { userId: `local-${second.toLowerCase().replace(/ /g, "-")}` });
+    expect((await post(b, `/api/friends/requests/${body.friendship.id}/accept`)).status).toBe(200);
+    return { a, b };
+  }
+
+  it("sends a request the other player can accept", async () => {
+    const erin = await login("Erin");
+    const frank = await login("Frank");
+
+    const sent = await post(erin, "/api/friends/requests", { userId: "local-frank" });
+    expect(sent.status).toBe(200);
+    expect((await get(erin, "/api/friends")).body.outgoing.map((f: any) => f.name)).toEqual(["Frank"]);
+
+    const waiting = (await get(frank, "/api/friends")).body;
+    expect(waiting.incoming.map((f: any) => f.userId)).toEqual(["local-erin"]);
+    // Only the addressee answers
+    expect((await post(erin, `/api/friends/requests/${sent.body.friendship.id}/accept`)).status).toBe(404);
+
+    expect((await post(frank, `/api/friends/requests/${sent.body.friendship.id}/accept`)).status).toBe(200);
+    expect((await get(frank, "/api/friends")).body.friends.map((f: any) => f.name)).toEqual(["Erin"]);
+    expect((await post(erin, "/api/friends/requests", { userId: "local-frank" })).status).toBe(409);
+  });
+
+  it("drops declined requests and removed friends", async () => {
+    const gina = await login("Gina");
+    const hank = await login("Hank");
+
+    const { body } = await post(gina, "/api/friends/requests", { userId: "local-hank" });
+    expect((await post(hank, `/api/friends/requests/${body.friendship.id}/decline`)).status).toBe(200);
+    expect((await get(gina, "/api/friends")).body.outgoing).toHaveLength(0);
+
+    const { a } = await friends("Ivy", "Jack");
+    expect((await fetch(`${baseUrl}/api/friends/local-jack`, { method: "DELETE", headers: { Cookie: a } })).status).toBe(200);
+    expect((await get(a, "/api/friends")).body.friends).toHaveLength(0);
+  });
+
+  it("turns away unknown players and yourself", async () => {
+    const kim = await login("Kim");
+    expect((await post(kim, "/api/friends/requests", { userId: "local-kim" })).status).toBe(400);
+    expect((await post(kim, "/api/friends/requests", { userId: "local-nobody-at-all" })).status).toBe(404);
+  });
+
+  it("shows friends online while they hold a /ws connection", async () => {
+    const { a, b } = await friends("Liam", "Mona");
+    expect((await get(a, "/api/friends")).body.friends[0].online).toBe(false);
+
+    const client = connect(b);
+    await client.opened;
+    await vi.waitFor(async () => expect((await get(a, "/api/friends")).body.friends[0].online).toBe(true));
+
+    client.ws.close();
+    await vi.waitFor(async () => expect((await get(a, "/api/friends")).body.friends[0].online).toBe(false));
+  });
+
+  it("lists and opens friends-only rooms for the host's friends alone", async () => {
+    const { a: host, b: friend } = await friends("Nina", "Omar");
+    const stranger = await login("Pete");
+    const code = await createRoom(host, { visibility: "friends", maxPlayers: 3 });
+
+    expect((await get(friend, "/api/rooms/active/free")).body.map((r: any) => r.code)).toContain(code);
+    expect((await get(stranger, "/api/rooms/active/free")).body.map((r: any) => r.code)).not.toContain(code);
+
+    const refused = await post(stranger, `/api/rooms/${code}/join`);
+    expect(refused.status).toBe(403);
+    expect(refused.body.friendsOnly).toBe(true);
+    expect((await get(stranger, `/api/rooms/${code}`)).status).toBe(403);
+
+    expect((await post(friend, `/api/rooms/${code}/join`)).status).toBe(200);
+  });
+});
+
+describe("GET /api/rooms/:code/spectate", () => {
+  it("shows a game in progress with only the face-up cards", async () => {
+    const { alice, code } = await startedRoom("Watched Host", "Watched Guest");
+    await post(alice, `/api/rooms/${code}/action`, { action: "peek_card", index: 0 });
+    const carol = await login("Watching Carol");
+
+    const { status, body } = await get(carol, `/api/rooms/${code}/spectate`);
+    expect(status).toBe(200);
+    expect(body.spectatorCount).toBe(0);
+    const grids = body.gameState.game.players.map((p: any) => p.grid);
+    expect(grids[0][0].card).not.toBeNull();
+    expect(grids.flat().filter((c: any) => c.card !== null)).toHaveLength(1);
+    expect(body.gameState.game.drawPile).toBeUndefined();
+
+    const live = await get(carol, "/api/rooms/live/free");
+    expect(live.body.map((r: any) => r.code)).toContain(code);
+  });
+
+  it("only opens games in progress", async () => {
+    const alice = await login("Waiting Host");
+    const code = await createRoom(alice);
+
+    const { status, body } = await get(alice, `/api/rooms/${code}/spectate`);
+    expect(status).toBe(409);
+    expect(body.message).toBe("Only games in progress can be watched");
+    expect((await get(alice, "/api/rooms/live/free")).body.map((r: any) => r.code)).not.toContain(code);
+    expect((await get(alice, "/api/rooms/NOPE00/spectate")).status).toBe(404);
+  });
+});
+
+describe("/ws", () => {
+  it("sends a snapshot on subscribe_room and pushes every accepted action", async () => {
+    const { alice, bob, code } = await startedRoom("Socket Host", "Socket Guest");
+    const client = connect(bob);
+    await client.opened;
+
+    client.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    const initial = await client.next("room_snapshot");
+    expect(initial.snapshot.code).toBe(code);
+    expect(initial.snapshot.gameState.game.drawPile).toBeUndefined();
+    expect(typeof initial.snapshot.gameState.game.drawPileCount).toBe("number");
+
+    const seen = client.messages.length;
+    await post(alice, `/api/rooms/${code}/action`, { action: "peek_card", index: 2 });
+    const update = await client.next("room_snapshot", seen);
+    expect(BigInt(update.snapshot.version)).toBeGreaterThan(BigInt(initial.snapshot.version));
+    expect(update.snapshot.gameState.game.players[0].grid[2].card).not.toBeNull();
+
+    client.ws.close();
+  });
+
+  it("ties authenticate to the session's user, whatever userId the message names", async () => {
+    const { alice, bob, code } = await startedRoom("Away Host", "Impostor Guest");
+    await post(alice, `/api/rooms/${code}/leave`);
+    const aliceSeat = async () => ((await storage.getGameRoom(code))?.gameState as any).tableSlots
+      .find((slot: any) => slot.playerId === "local-away-host");
+
+    const impostor = connect(bob);
+    await impostor.opened;
+    impostor.ws.send(JSON.stringify({ type: "authenticate", userId: "local-away-host", roomCode: code }));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect((await aliceSeat()).botControlled).toBe(true);
+
+    const returning = connect(alice);
+    await returning.opened;
+    returning.ws.send(JSON.stringify({ type: "authenticate", roomCode: code }));
+    await vi.waitFor(async () => expect((await aliceSeat()).botControlled).toBe(false));
+
+    impostor.ws.close();
+    returning.ws.close();
+  });
+
+  it("re-arms the next-round deal for a room left between rounds by a restart", async () => {
+    const { bob, code } = await startedRoom("Paused Host", "Paused Guest");
+    // As stored when the server went down during the round-end pause, with no timer armed
+    const room = (await storage.getGameRoom(code))!;
+    const gameState = room.gameState as any;
+    gameState.game.gamePhase = "round-end";
+    gameState.turnClock = null;
+    await storage.updateGameRoom(code, room.version, { gameState });
+
+    const client = connect(bob);
+    await client.opened;
+    client.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await client.next("room_snapshot");
+
+    await vi.waitFor(async () => {
+      const game = ((await storage.getGameRoom(code))?.gameState as any).game;
+      expect(game.currentRound).toBe(2);
+      expect(game.gamePhase).toBe("peek");
+    }, { timeout: 7000, interval: 250 });
+    client.ws.close();
+  }, 10000);
+
+  it("holds subscribers who aren't seated to the spectator rules", async () => {
+    const alice = await login("Locked Host");
+    const bob = await login("Locked Guest");
+    const code = await createRoom(alice, { visibility: "private", passphrase: "open sesame" });
+    expect((await post(bob, `/api/rooms/${code}/join`, { passphrase: "open sesame" })).status).toBe(200);
+    const host = connect(alice);
+    const outsider = connect(await login("Locked Onlooker"));
+    await Promise.all([host.opened, outsider.opened]);
+    host.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await host.next("chat_history");
+    host.ws.send(JSON.stringify({ type: "chat_send", text: "the plan" }));
+    await host.next("chat_message");
+
+    outsider.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    expect((await outsider.next("error")).message).toBe("Locked tables can't be watched");
+    expect(outsider.messages.map(m => m.type)).toEqual(["error"]);
+
+    [host, outsider].forEach(client => client.ws.close());
+  });
+
+  it("keeps private tables closed to anyone holding only the code", async () => {
+    const alice = await login("Invite Host");
+    const bob = await login("Invite Guest");
+    const code = await createRoom(alice, { visibility: "private" });
+    expect((await post(bob, `/api/rooms/${code}/join`)).status).toBe(200);
+    const outsider = connect(await login("Invite Onlooker"));
+    await outsider.opened;
+
+    outsider.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code, spectate: true }));
+    expect((await outsider.next("error")).message).toBe("Private tables can't be watched");
+    expect(outsider.messages.map(m => m.type)).toEqual(["error"]);
+    expect((await get(await login("Invite Onlooker"), `/api/rooms/${code}/spectate`)).status).toBe(409);
+
+    outsider.ws.close();
+  });
+
+  it("reports unknown rooms", async () => {
+    const client = connect();
+    await client.opened;
+
+    client.ws.send(JSON.stringify({ type: "subscribe_room", roomId: "NOPE00" }));
+    expect((await client.next("error")).message).toBe("Room not found");
+    client.ws.close();
+  });
+
+  it("lists open tables on subscribe_rooms", async () => {
+    const alice = await login("Lobby Host");
+    const code = await createRoom(alice, { stakeBracket: "medium" });
+    const client = connect();
+    await client.opened;
+
+    client.ws.send(JSON.stringify({ type: "subscribe_rooms", stakeBracket: "medium" }));
+    const { rooms } = await client.next("rooms_snapshot");
+    expect(rooms.map((r: any) => r.code)).toContain(code);
+    client.ws.close();
+  });
+
+  it("relays filtered chat to the table and replays it to late subscribers", async () => {
+    const { alice, bob, code } = await startedRoom("Chat Host", "Chat Guest");
+    const host = connect(alice);
+    const guest = connect(bob);
+    await Promise.all([host.opened, guest.opened]);
+    host.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    guest.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    expect((await guest.next("chat_history")).messages).toEqual([]);
+    await host.next("chat_history");
+
+    host.ws.send(JSON.stringify({ type: "chat_send", text: "  well  shit " }));
+    const { message } = await guest.next("chat_message");
+    expect(message).toMatchObject({ userId: "local-chat-host", name: "Chat Host", text: "well ****" });
+
+    const late = connect(bob);
+    await late.opened;
+    late.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    expect((await late.next("chat_history")).messages.map((m: any) => m.text)).toEqual(["well ****"]);
+
+    [host, guest, late].forEach(client => client.ws.close());
+  });
+
+  it("keeps chat to seated players and slows down floods", async () => {
+    const { alice, code } = await startedRoom("Flood Host", "Flood Guest");
+    const outsider = connect(await login("Flood Onlooker"));
+    const host = connect(alice);
+    await Promise.all([outsider.opened, host.opened]);
+
+    outsider.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await outsider.next("room_snapshot");
+    outsider.ws.send(JSON.stringify({ type: "chat_send", text: "hello" }));
+    expect((await outsider.next("error")).message).toBe("Take a seat at this table to chat");
+
+    host.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await host.next("chat_history");
+    for (let i = 0; i < 6; i++) {
+      host.ws.send(JSON.stringify({ type: "chat_send", text: `message ${i}` }));
+    }
+    expect((await host.next("error")).message).toBe("You are sending messages too fast");
+    await vi.waitFor(() => expect(host.messages.filter(m => m.type === "chat_message")).toHaveLength(5));
+
+    [outsider, host].forEach(client => client.ws.close());
+  });
+
+  it("broadcasts quick-chat emotes and drops taps inside the throttle", async () => {
+    const { alice, bob, code } = await startedRoom("Emote Host", "Emote Guest");
+    const host = connect(alice);
+    const guest = connect(bob);
+    await Promise.all([host.opened, guest.opened]);
+    host.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    guest.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await Promise.all([host.next("chat_history"), guest.next("chat_history")]);
+
+    host.ws.send(JSON.stringify({ type: "emote_send", emoteId: "boo" }));
+    expect((await host.next("error")).message).toBe("Unknown emote");
+
+    host.ws.send(JSON.stringify({ type: "emote_send", emoteId: "nice" }));
+    host.ws.send(JSON.stringify({ type: "emote_send", emoteId: "ouch" }));
+    expect(await guest.next("emote")).toMatchObject({ userId: "local-emote-host", emoteId: "nice" });
+
+    // The second emote never arrives; a chat line sent after it does
+    host.ws.send(JSON.stringify({ type: "chat_send", text: "after" }));
+    await guest.next("chat_message");
+    expect(guest.messages.filter(m => m.type === "emote")).toHaveLength(1);
+
+    [host, guest].forEach(client => client.ws.close());
+  });
+
+  it("counts spectators at the table and keeps them out of the game", async () => {
+    const { alice, code } = await startedRoom("Spectated Host", "Spectated Guest");
+    const host = connect(alice);
+    const watcher = connect(await login("Spectating Dan"));
+    await Promise.all([host.opened, watcher.opened]);
+    host.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code }));
+    await host.next("chat_history");
+
+    const seen = host.messages.length;
+    watcher.ws.send(JSON.stringify({ type: "subscribe_room", roomId: code, spectate: true }));
+    expect((await watcher.next("room_snapshot")).snapshot.spectatorCount).toBe(1);
+    expect((await host.next("room_snapshot", seen)).snapshot.spectatorCount).toBe(1);
+
+    watcher.ws.send(JSON.stringify({ type: "chat_send", text: "go alice" }));
+    expect((await watcher.next("error")).message).toBe("Take a seat at this table to chat");
+
+    const beforeLeaving = host.messages.length;
+    watcher.ws.close();
+    expect((await host.next("room_snapshot", beforeLeaving)).snapshot.spectatorCount).toBe(0);
+    host.ws.close();
+  });
+});
@@ -2,44 +2,47 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
-import { type StakeBracket, type GameRoom } from "@shared/schema";
+import { setupAuth, isAuthenticated, getSessionUserId } from "./auth";
+import { type StakeBracket, type GameRoom, type RoomVisibility, TURN_TIME_OPTIONS, DEFAULT_TURN_TIME_SECONDS, ROOM_VISIBILITIES, QUICK_CHAT_EMOTES, EMOTE_THROTTLE_MS } from "@shared/schema";
+import type { AIDifficulty } from "@shared/gameTypes";
+import { AI_DIFFICULTIES } from "@shared/aiLogic";
+import {
+  type RoomGameState,
+  createTableSlot,
+  startRoomGame,
+  toGameAction,
+  applyRoomAction,
+  applyTimeoutMove,
+  applyBotMove,
+  getBotSeats,
+  fillEmptySeatsWithAI,
+  setPlayerReady,
+  playersNotReady,
+  vacateSeat,
+  isRoomControlAction,
+  type RoomControlAction,
+  updateTurnClock,
+  recordRoundScores,
+  startNextRoomRound,
+  projectRoomGameState
+} from "./roomGame";
+import {
+  issueSoloTicket,
+  verifySoloTicket,
+  replaySoloGame,
+  buildGameResult,
+  awardGameResult,
+  awardRoomResults
+} from "./gameResults";
+import { getEntryFee, settleRoomStakes } from "./stakes";
+import { MAX_PASSPHRASE_LENGTH, hashPassphrase, canEnterRoom, withoutPassphrase, isListedFor, isOpenTo, spectateBlocker } from "./roomAccess";
+import { getFriendIds, getFriendList, areFriends } from "./friends";
+import { markConnected, markDisconnected } from "./presence";
+import { cleanChatText, createRateLimiter } from "./chat";
 
-// Helper function to create a shuffled deck
-function createShuffledDeck() {
-  const suits = ['hearts', 'diamonds', 'clubs', 'spades'];
-  const values = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-  const deck = [];
-  
-  // Create two standard decks (104 cards for Golf)
-  for (let deckNum = 0; deckNum < 2; deckNum++) {
-    for (const suit of suits) {
-      for (const value of values) {
-        let points = 0;
-        if (value === 'K') points = 0;  // King is 0 points
-        else if (value === 'A') points = 1;
-        else if (value === 'J' || value === 'Q') points = 10;
-        else points = parseInt(value);
-        
-        deck.push({
-          id: `${deckNum}-${suit}-${value}`,
-          suit,
-          value,
-          points,
-          faceUp: false
-        });
-      }
-    }
-  }
-  
-  // Shuffle the deck
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-  
-  return deck;
-}
+// Room writes are compare-and-swap on the room version; a writer that loses
+// the race re-reads the room and tries again this many times before giving up
+const MAX_ROOM_WRITE_ATTEMPTS = 5;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -81,74 +84,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Game completion endpoint - awards XP and coins
-  app.post('/api/game/complete', isAuthenticated, async (req: any, res) => {
+  // Issue a signed seed for a solo game; the finished game is replayed from it
+  app.post('/api/game/start', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { 
-        gameMode, 
-        playerCount, 
-        rounds, 
-        finalScore, 
-        placement, 
-        won,
-        gameDuration 
-      } = req.body;
-
-      // Calculate XP and coin rewards
-      const baseXP = 10;
-      const winBonus = won ? 20 : 0;
-      const placementBonus = Math.max(0, (5 - placement) * 5); // 1st: 20, 2nd: 15, 3rd: 10, 4th: 5
-      const xpEarned = baseXP + winBonus + placementBonus;
+      const { playerCount, rounds, aiDifficulty } = req.body;
+      
+      const ticket = issueSoloTicket(userId, Number(playerCount), Number(rounds), aiDifficulty);
+      res.json(ticket);
+    } catch (error) {
+      console.error("Error starting game:", error);
+      res.status(500).json({ message: "Failed to start game" });
+    }
+  });
 
-      const baseCoins = 5;
-      const coinBonus = won ? 10 : 0;
-      const coinsEarned = baseCoins + coinBonus;
+  // Game completion endpoint - awards XP and coins. Solo results are recomputed by
+  // replaying the move log with the rules engine; online rooms are rewarded by
+  // the server when the room finishes
+  app.post('/api/game/complete', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ticket, moves } = req.body;
 
-      // Add game to history
-      await storage.addGameToHistory({
-        userId,
-        gameMode,
-        playerCount,
-        rounds,
-        finalScore,
-        placement,
-        won,
-        xpEarned,
-        coinsEarned,
-        gameDuration
-      });
+      if (!verifySoloTicket(userId, ticket)) {
+        return res.status(400).json({ message: "Invalid or expired game ticket" });
+      }
 
-      // Update user stats
-      const currentStats = await storage.getUserStats(userId);
-      await storage.updateUserStats(userId, {
-        gamesPlayed: (currentStats?.gamesPlayed || 0) + 1,
-        gamesWon: (currentStats?.gamesWon || 0) + (won ? 1 : 0),
-        gamesLost: (currentStats?.gamesLost || 0) + (won ? 0 : 1),
-        totalScore: (currentStats?.totalScore || 0) + finalScore,
-        bestScore: currentStats?.bestScore ? Math.min(currentStats.bestScore, finalScore) : finalScore,
-        currentWinStreak: won ? (currentStats?.currentWinStreak || 0) + 1 : 0,
-        longestWinStreak: won ? Math.max(currentStats?.longestWinStreak || 0, (currentStats?.currentWinStreak || 0) + 1) : currentStats?.longestWinStreak || 0,
-        perfectGames: (currentStats?.perfectGames || 0) + (finalScore === 0 ? 1 : 0),
-      });
+      const replay = await replaySoloGame(ticket, moves);
+      if (!replay.ok) {
+        console.log(`[GAME_RESULT] Rejected solo game ${ticket.gameId} for ${userId}: ${replay.message}`);
+        return res.status(400).json({ message: replay.message });
+      }
 
-      // Award currency and XP
-      await storage.addCurrency(userId, coinsEarned);
-      const updatedUser = await storage.addExperience(userId, xpEarned);
+      // The human is always seat 0 in solo games. Duration is measured from the
+      // ticket, not taken from the client
+      const gameDuration = Math.round((Date.now() - ticket.issuedAt) / 1000);
+      const result = buildGameResult(replay.state, 0, ticket.gameId, gameDuration);
+      const rewards = await awardGameResult(userId, result, { playerIndex: 0, events: replay.events });
+      if (!rewards) {
+        return res.status(409).json({ message: "Rewards for this game were already claimed" });
+      }
 
-      res.json({ 
-        xpEarned, 
-        coinsEarned, 
-        newLevel: updatedUser.level,
-        newExperience: updatedUser.experience,
-        newCurrency: updatedUser.currency
-      });
+      res.json({ ...rewards, placement: result.placement, finalScore: result.finalScore, won: result.won });
     } catch (error) {
       console.error("Error completing game:", error);
       res.status(500).json({ message: "Failed to complete game" });
     }
   });
 
+  app.get('/api/user/transactions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const transactions = await storage.getUserTransactions(userId, limit);
+      res.json(transactions);
+    } catch (error) {
+      console.error("Error fetching user transactions:", error);
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
   // Achievement routes
   app.get('/api/achievements', isAuthenticated, async (req: any, res) => {
     try {
@@ -259,7 +254,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Purchase cosmetic
-      await storage.spendCurrency(userId, cosmetic.cost);
+      await storage.spendCurrency(userId, cosmetic.cost, 'cosmetic_purchase', cosmeticId);
       const userCosmetic = await storage.purchaseCosmetic({
         userId,
         cosmeticId,
@@ -286,7 +281,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Game room routes
-  app.get('/api/rooms/active/:stakeBracket', async (req, res) => {
+  app.get('/api/rooms/active/:stakeBracket', async (req: any, res) => {
     try {
       const { stakeBracket } = req.params;
       
@@ -297,13 +292,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const rooms = await storage.getActiveRoomsByStake(stakeBracket as any);
-      res.json(rooms);
+      const listed = await listRoomsFor(rooms, req.user?.claims?.sub);
+      res.json(listed.map(room => serializeRoom(room)));
     } catch (error) {
       console.error("Error fetching active rooms:", error);
       res.status(500).json({ message: "Failed to fetch active rooms" });
     }
   });
   
+  // Games in progress at a stake that the caller could watch
+  app.get('/api/rooms/live/:stakeBracket', async (req: any, res) => {
+    try {
+      const { stakeBracket } = req.params;
+      const validBrackets = ['free', 'low', 'medium', 'high', 'premium'];
+      if (!validBrackets.includes(stakeBracket)) {
+        return res.status(400).json({ message: "Invalid stake bracket" });
+      }
+      
+      const rooms = (await storage.getAllActiveRooms()).filter(room =>
+        room.stakeBracket === stakeBracket && !spectateBlocker(room));
+      const listed = await listRoomsFor(rooms, req.user?.claims?.sub);
+      res.json(listed.map(room => ({ ...serializeRoom(room), spectatorCount: countSpectators(room.code) })));
+    } catch (error) {
+      console.error("Error fetching live rooms:", error);
+      res.status(500).json({ message: "Failed to fetch live rooms" });
+    }
+  });
+  
   // Create room endpoint - initializes game table immediately
   app.post('/api/rooms/create', isAuthenticated, async (req: any, res) => {
     try {
@@ -312,36 +327,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { 
         stakeBracket = 'free',
         rounds = 9,
-        maxPlayers = 4 
+        maxPlayers = 4,
+        turnTimeSeconds: requestedTurnTime = DEFAULT_TURN_TIME_SECONDS,
+        visibility = 'public',
+        passphrase = ''
       } = req.body;
       
+      const turnTimeSeconds = Number(requestedTurnTime);
+      if (!(TURN_TIME_OPTIONS as readonly number[]).includes(turnTimeSeconds)) {
+        return res.status(400).json({ success: false, message: "Invalid turn time" });
+      }
+      
+      // Only private rooms can be locked with a passphrase
+      if (!ROOM_VISIBILITIES.includes(visibility)) {
+        return res.status(400).json({ success: false, message: "Invalid visibility" });
+      }
+      if (typeof passphrase !== 'string' || passphrase.length > MAX_PASSPHRASE_LENGTH) {
+        return res.status(400).json({ success: false, message: `Passphrase must be at most ${MAX_PASSPHRASE_LENGTH} characters` });
+      }
+      if (passphrase && visibility !== 'private') {
+        return res.status(400).json({ success: false, message: "Only private rooms can have a passphrase" });
+      }
+      
+      // The host pays the table's entry fee like everyone else
+      const entryFee = getEntryFee(stakeBracket);
+      if (entryFee > 0) {
+        const user = await storage.getUser(userId);
+        if (!user || (user.currency ?? 0) < entryFee) {
+          return res.status(400).json({ success: false, message: "Insufficient coins" });
+        }
+      }
+      
       // Generate a unique room code
       const roomCode = Math.random().toString(36).substring(2, 8).toUpperCase();
       
       // Initialize empty game table state with host in seat 0
-      const initialGameState = {
+      const initialGameState: RoomGameState = {
         state: 'waiting', // Waiting for players to fill seats
-        currentRound: 0,
-        currentTurn: 0,
-        currentPlayerIndex: 0,
-        deck: [],
-        discardPile: [],
-        tableSlots: Array(maxPlayers).fill(null).map((_, index) => ({
-          seatNumber: index,
-          isEmpty: index > 0, // Host takes seat 0, others empty
-          playerId: index === 0 ? userId : null,
-          playerName: index === 0 ? userName : null,
-          cards: [],
-          score: 0,
-          roundScores: [],
-          isReady: false,
-          isActive: index === 0
-        })),
+        tableSlots: Array(maxPlayers).fill(null).map((_, index) => 
+          index === 0 ? createTableSlot(index, userId, userName) : createTableSlot(index) // Host takes seat 0
+        ),
         settings: {
           rounds,
           playerCount: maxPlayers,
-          stakeBracket
-        }
+          stakeBracket,
+          turnTimeSeconds
+        },
+        game: null, // Dealt by the rules engine once the table fills
+        events: [],
+        turnClock: null,
+        kickedPlayerIds: []
       };
       
       // Create room with host as first player and game state initialized
@@ -352,6 +387,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: userId, 
           name: userName,
           isHost: true,
+          entryFee,
           joinedAt: new Date().toISOString(),
           connected: true,
           lastSeen: new Date().toISOString(),
@@ -361,15 +397,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
           rounds, 
           playerCount: maxPlayers,
           stakeBracket,
+          turnTimeSeconds,
           createdAt: new Date().toISOString()
         },
         stakeBracket,
+        visibility: visibility as RoomVisibility,
+        passphraseHash: passphrase ? hashPassphrase(passphrase) : null,
         status: 'inGame_waiting', // Room is immediately at the table waiting for players
         gameState: initialGameState
       });
       
+      // Move the host's entry fee into the room's escrow
+      if (entryFee > 0 && !(await storage.escrowStakeEntry(room.id, userId, entryFee))) {
+        await storage.deleteGameRoom(roomCode);
+        return res.status(400).json({ success: false, message: "Insufficient coins" });
+      }
+      
       // Log room creation with mode
-      console.log(`[CREATE_MODE] roomId=${roomCode}, mode=online, seatsOpen=${maxPlayers - 1}`);
+      console.log(`[CREATE_MODE] roomId=${roomCode}, mode=online, visibility=${visibility}, seatsOpen=${maxPlayers - 1}`);
       console.log(`Room ${roomCode} created by ${userName} with stake ${stakeBracket} - game table initialized`);
       
       // Broadcast updated Active Rooms list to all subscribers matching the stake bracket
@@ -385,14 +430,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         hostId: userId,
         status: 'inGame_waiting',
         players: room.players,
-        gameState: initialGameState,
+        gameState: projectRoomGameState(initialGameState, userId),
         settings: room.settings,
-        stakeBracket
+        stakeBracket,
+        visibility
       };
       
       res.json({
         success: true,
-        room,
+        room: serializeRoom(room, userId),
         gameSnapshot,
         message: `Game table created - Room ${roomCode}`
       });
@@ -407,7 +453,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get room details by code
-  app.get('/api/rooms/:code', async (req, res) => {
+  app.get('/api/rooms/:code', async (req: any, res) => {
     try {
       const { code } = req.params;
       
@@ -415,15 +461,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!room) {
         return res.status(404).json({ message: "Room not found" });
       }
+      if (!(await isOpenTo(room, req.user?.claims?.sub))) {
+        return res.status(403).json({ friendsOnly: true, message: "This table is open to the host's friends only" });
+      }
       
-      // Serialize BigInt values to strings
-      res.json(serializeRoom(room));
+      // Serialize BigInt values to strings and hide cards the caller may not see
+      res.json(serializeRoom(room, req.user?.claims?.sub));
     } catch (error) {
       console.error("Error fetching room details:", error);
       res.status(500).json({ message: "Failed to fetch room details" });
     }
   });
 
+  // Spectator view of a game in progress: the same snapshot players get, but
+  // projected for nobody in particular, so only face-up cards are included
+  app.get('/api/rooms/:code/spectate', async (req: any, res) => {
+    try {
+      const room = await storage.getGameRoom(req.params.code);
+      if (!room) {
+        return res.status(404).json({ message: "Room not found" });
+      }
+      if (!(await isOpenTo(room, req.user?.claims?.sub))) {
+        return res.status(403).json({ friendsOnly: true, message: "This table is open to the host's friends only" });
+      }
+      const blocker = spectateBlocker(room);
+      if (blocker) {
+        return res.status(409).json({ message: blocker });
+      }
+      
+      res.json(buildRoomSnapshot(room, null));
+    } catch (error) {
+      console.error("Error fetching spectator view:", error);
+      res.status(500).json({ message: "Failed to fetch spectator view" });
+    }
+  });
+
   // Join room endpoint - Seat Claim
   app.post('/api/rooms/:code/join', isAuthenticated, async (req: any, res) => {
     try {
@@ -431,195 +503,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userName = req.user.claims.email || req.user.claims.name || 'Player';
       const { code } = req.params;
       
-      // Re-read latest table state
-      const room = await storage.getGameRoom(code);
-      if (!room) {
-        return res.status(404).json({ message: "Room not found" });
-      }
-      
-      const players = room.players as any[];
-      const gameState = room.gameState as any;
-      const maxPlayers = room.maxPlayers || 4;
-      
-      // Check if player already seated (idempotent)
-      const existingPlayer = players.find(p => p.id === userId);
-      if (existingPlayer) {
-        // Already seated - return current state (idempotent)
-        const gameSnapshot = {
-          code: room.code,
-          hostId: room.hostId,
-          status: room.status,
-          players: room.players,
-          gameState: room.gameState,
-          settings: room.settings,
-          stakeBracket: room.stakeBracket,
-          version: room.version ? room.version.toString() : '1'
-        };
-        console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=already_seated, after seats=${players.length}`);
-        return res.json({
-          success: true,
-          alreadySeated: true,
-          gameSnapshot,
-          seatNumber: existingPlayer.seatNumber || 0,
-          message: "Already seated at this table"
-        });
-      }
-      
-      // Check if room is full
-      const seatsOpen = maxPlayers - players.length;
-      if (seatsOpen <= 0) {
-        // Room is full - return error with latest snapshot
-        const gameSnapshot = {
-          code: room.code,
-          hostId: room.hostId,
-          status: room.status,
-          players: room.players,
-          gameState: room.gameState,
-          settings: room.settings,
-          stakeBracket: room.stakeBracket,
-          version: room.version ? room.version.toString() : '1'
-        };
-        console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=full, after seats=${players.length}`);
-        return res.status(400).json({ 
-          success: false,
-          message: "Table is full - no seats available",
-          gameSnapshot
-        });
-      }
+      // Entry fee is escrowed at most once, however many times the seat claim is retried
+      let escrowedFee = 0;
+      const refundEscrowedFee = async (roomId: string) => {
+        if (escrowedFee > 0) {
+          await storage.refundStakeEntry(roomId, userId, escrowedFee);
+        }
+      };
       
-      // Find next available seat and claim it atomically
-      let seatNumber = -1;
-      if (gameState && gameState.tableSlots) {
-        for (let i = 0; i < gameState.tableSlots.length; i++) {
-          if (gameState.tableSlots[i].isEmpty) {
-            seatNumber = i;
-            // Claim the seat atomically
-            gameState.tableSlots[i] = {
-              seatNumber: i,
-              isEmpty: false,
-              playerId: userId,
-              playerName: userName,
-              cards: [],
-              score: 0,
-              roundScores: [],
-              isReady: false,
-              isActive: true
-            };
-            break;
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        // Re-read latest table state
+        const room = await storage.getGameRoom(code);
+        if (!room) {
+          return res.status(404).json({ message: "Room not found" });
+        }
+        
+        const players = room.players as any[];
+        const gameState = room.gameState as RoomGameState;
+        const maxPlayers = room.maxPlayers || 4;
+        
+        // Check if player already seated (idempotent)
+        const existingPlayer = players.find(p => p.id === userId);
+        if (existingPlayer) {
+          // Already seated - return current state (idempotent)
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=already_seated, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.json({
+            success: true,
+            alreadySeated: true,
+            gameSnapshot: buildGameSnapshot(room, userId),
+            seatNumber: existingPlayer.seatNumber || 0,
+            message: "Already seated at this table"
+          });
+        }
+        
+        if (!(await isOpenTo(room, userId))) {
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=not_friend, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.status(403).json({
+            success: false,
+            friendsOnly: true,
+            message: "This table is open to the host's friends only"
+          });
+        }
+        
+        // A passphrase-locked room turns away anyone without it
+        if (!canEnterRoom(room, req.body?.passphrase)) {
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=bad_passphrase, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.status(403).json({
+            success: false,
+            needsPassphrase: true,
+            message: req.body?.passphrase ? "Wrong passphrase" : "This room needs a passphrase"
+          });
+        }
+        
+        if (gameState?.kickedPlayerIds?.includes(userId)) {
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=kicked, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.status(403).json({
+            success: false,
+            message: "The host removed you from this table"
+          });
+        }
+        
+        // A short-handed start leaves empty seats that are no longer open
+        if (room.status !== 'inGame_waiting') {
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=in_progress, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.status(400).json({
+            success: false,
+            message: "This game has already started",
+            gameSnapshot: buildGameSnapshot(room, userId)
+          });
+        }
+        
+        // Find next available seat and claim it
+        const seatNumber = players.length < maxPlayers && gameState?.tableSlots
+          ? gameState.tableSlots.findIndex(slot => slot.isEmpty)
+          : -1;
+        
+        if (seatNumber === -1) {
+          // Room is full - return error with latest snapshot
+          console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=full, after seats=${players.length}`);
+          await refundEscrowedFee(room.id);
+          return res.status(400).json({ 
+            success: false,
+            message: "Table is full - no seats available",
+            gameSnapshot: buildGameSnapshot(room, userId)
+          });
+        }
+        gameState.tableSlots[seatNumber] = createTableSlot(seatNumber, userId, userName);
+        
+        // Claiming a seat moves the entry fee into the room's escrow
+        const entryFee = getEntryFee(room.stakeBracket);
+        if (entryFee > 0 && escrowedFee === 0) {
+          if (!(await storage.escrowStakeEntry(room.id, userId, entryFee))) {
+            console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=insufficient_funds, after seats=${players.length}`);
+            return res.status(400).json({ 
+              success: false,
+              message: `Insufficient coins - this table requires ${entryFee} coins to join`
+            });
           }
+          escrowedFee = entryFee;
         }
-      }
-      
-      // Verify seat was actually claimed
-      if (seatNumber === -1) {
-        const gameSnapshot = {
-          code: room.code,
-          hostId: room.hostId,
-          status: room.status,
-          players: room.players,
-          gameState: room.gameState,
-          settings: room.settings,
-          stakeBracket: room.stakeBracket,
-          version: room.version ? room.version.toString() : '1'
-        };
-        console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length}, result=no_seat, after seats=${players.length}`);
-        return res.status(400).json({ 
-          success: false,
-          message: "No seats available",
-          gameSnapshot
+        
+        // Add player to players array with connection state
+        players.push({ 
+          id: userId, 
+          name: userName,
+          seatNumber,
+          entryFee: escrowedFee,
+          joinedAt: new Date().toISOString(),
+          connected: true,
+          lastSeen: new Date().toISOString(),
+          connectionId: null
         });
-      }
-      
-      // Add player to players array with connection state
-      players.push({ 
-        id: userId, 
-        name: userName,
-        seatNumber,
-        joinedAt: new Date().toISOString(),
-        connected: true,
-        lastSeen: new Date().toISOString(),
-        connectionId: null
-      });
-      
-      // Increment version for optimistic concurrency
-      const newVersion = (room.version ? BigInt(room.version) : BigInt(1)) + BigInt(1);
-      
-      // Check if room is now full and auto-start game
-      let roomStatus = room.status;
-      if (players.length === maxPlayers && roomStatus === 'inGame_waiting') {
-        console.log(`[AUTO_START] Room ${code} is full, starting game automatically`);
-        roomStatus = 'inGame_active';
         
-        // Initialize the actual game state (deck, deal cards, etc.)
-        const deck = createShuffledDeck();
-        
-        // Deal 9 cards to each player
-        for (let i = 0; i < gameState.tableSlots.length; i++) {
-          if (!gameState.tableSlots[i].isEmpty) {
-            gameState.tableSlots[i].cards = [];
-            for (let j = 0; j < 9; j++) {
-              gameState.tableSlots[i].cards.push({
-                ...deck.pop(),
-                isRevealed: false,
-                position: j
-              });
-            }
-          }
+        // Compare-and-swap against the version we read; on conflict re-read and try again.
+        // Even a full table waits for the ready check and the host's start_game.
+        const updatedRoom = await storage.updateGameRoom(code, room.version, {
+          players,
+          gameState
+        });
+        
+        if (!updatedRoom) {
+          console.log(`[VERSION_CONFLICT] roomId=${code}, op=join, attempt=${attempt}, expected=v${room.version}`);
+          continue;
         }
         
-        // Initialize game state
-        gameState.state = 'active';
-        gameState.deck = deck;
-        gameState.discardPile = [deck.pop()];
-        gameState.currentPlayerIndex = 0;
-        gameState.gamePhase = 'peek';
-      }
-      
-      // Update room with new player and incremented version
-      const updatedRoom = await storage.updateGameRoom(code, {
-        players,
-        gameState,
-        status: roomStatus,
-        version: newVersion
-      });
-      
-      if (!updatedRoom) {
-        return res.status(500).json({ message: "Failed to update room" });
-      }
-      
-      // Create full game snapshot with version (serialize BigInt)
-      const gameSnapshot = {
-        code: updatedRoom.code,
-        hostId: updatedRoom.hostId,
-        status: updatedRoom.status,
-        players: updatedRoom.players,
-        gameState: updatedRoom.gameState,
-        settings: updatedRoom.settings,
-        stakeBracket: updatedRoom.stakeBracket,
-        version: updatedRoom.version ? updatedRoom.version.toString() : '1'
-      };
-      
-      console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${room.players.length}, result=ok, after seats=${players.length}`);
-      
-      // Broadcast to Active Rooms subscribers
-      const broadcastFn = (global as any).broadcastRoomUpdate;
-      if (broadcastFn) {
-        await broadcastFn('updated', updatedRoom);
+        console.log(`[JOIN_ATTEMPT] roomId=${code}, before seats=${players.length - 1}, result=ok, after seats=${players.length}`);
+        
+        // Broadcast to Active Rooms subscribers
+        const broadcastFn = (global as any).broadcastRoomUpdate;
+        if (broadcastFn) {
+          await broadcastFn('updated', updatedRoom);
+        }
+        
+        // Broadcast room snapshot to all room subscribers
+        const broadcastSnapshotFn = (global as any).broadcastRoomSnapshot;
+        if (broadcastSnapshotFn) {
+          await broadcastSnapshotFn(code, updatedRoom);
+        }
+        
+        return res.json({
+          success: true,
+          gameSnapshot: buildGameSnapshot(updatedRoom, userId),
+          seatNumber,
+          message: `Joined table at seat ${seatNumber}`
+        });
       }
       
-      // Broadcast room snapshot to all room subscribers
-      const broadcastSnapshotFn = (global as any).broadcastRoomSnapshot;
-      if (broadcastSnapshotFn) {
-        await broadcastSnapshotFn(code, updatedRoom);
+      // Every attempt lost the race; give the fee back and let the client retry
+      const latestRoom = await storage.getGameRoom(code);
+      if (latestRoom) {
+        await refundEscrowedFee(latestRoom.id);
       }
-      
-      res.json({
-        success: true,
-        gameSnapshot,
-        seatNumber,
-        message: `Joined table at seat ${seatNumber}`
+      res.status(409).json({
+        success: false,
+        message: "The table changed while you were joining - please try again",
+        gameSnapshot: latestRoom ? buildGameSnapshot(latestRoom, userId) : null
       });
-      
     } catch (error) {
       console.error("Error joining room:", error);
       res.status(500).json({ message: "Failed to join room" });
@@ -631,222 +675,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { code } = req.params;
-      const { action, ...actionData } = req.body;
-      
-      const room = await storage.getGameRoom(code);
-      if (!room) {
-        return res.status(404).json({ success: false, message: "Room not found" });
-      }
-      
-      // Verify player is in the room
-      const players = room.players as any[];
-      const player = players.find(p => p.id === userId);
-      if (!player) {
-        return res.status(403).json({ success: false, message: "Not in this room" });
-      }
+      const { action, version: clientVersion, ...actionData } = req.body;
       
-      // Get current game state
-      let gameState = room.gameState as any;
-      if (!gameState) {
-        return res.status(400).json({ success: false, message: "Game not started" });
+      if (isRoomControlAction(action)) {
+        return await handleRoomControl(res, code, userId, action, actionData);
       }
       
-      // Process the action based on type - ALL actions must update state and broadcast
-      let updated = false;
-      const version = room.version ? BigInt(room.version) : BigInt(1);
-      
-      // Verify it's the player's turn (except for peek phase where all players peek)
-      const currentPlayerSlot = gameState.tableSlots[gameState.currentPlayerIndex];
-      const isPlayerTurn = currentPlayerSlot?.playerId === userId;
-      
-      switch (action) {
-        case 'draw_card':
-          if (!isPlayerTurn && gameState.gamePhase !== 'peek') {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Draw a card from the deck
-          if (gameState.deck && gameState.deck.length > 0) {
-            gameState.drawnCard = gameState.deck.pop();
-            gameState.drawnCard.faceUp = true; // Drawn card is visible
-            updated = true;
-            console.log(`[GAME_ACTION] ${action} by ${userId} in room ${code} - deck now has ${gameState.deck.length} cards`);
-          }
-          break;
-          
-        case 'select_grid_position':
-          if (!isPlayerTurn && gameState.gamePhase !== 'peek') {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Store the selected position for card replacement
-          gameState.selectedPosition = actionData.position;
-          updated = true;
-          console.log(`[GAME_ACTION] ${action} at position ${actionData.position} by ${userId} in room ${code}`);
-          break;
-          
-        case 'keep_drawn_card':
-          if (!isPlayerTurn) {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Replace selected card with drawn card
-          if (gameState.drawnCard && gameState.selectedPosition !== undefined) {
-            const playerSlot = gameState.tableSlots.find((s: any) => s.playerId === userId);
-            if (playerSlot && playerSlot.cards && playerSlot.cards[gameState.selectedPosition]) {
-              // Move old card to discard pile
-              const oldCard = playerSlot.cards[gameState.selectedPosition];
-              oldCard.faceUp = true; // Discarded cards are face up
-              gameState.discardPile.push(oldCard);
-              
-              // Replace with drawn card
-              playerSlot.cards[gameState.selectedPosition] = {
-                ...gameState.drawnCard,
-                isRevealed: true,
-                faceUp: false, // In player's grid, cards are face down but revealed to them
-                position: gameState.selectedPosition
-              };
-              
-              gameState.drawnCard = null;
-              gameState.selectedPosition = undefined;
-              updated = true;
-              console.log(`[GAME_ACTION] ${action} by ${userId} - replaced card at position ${gameState.selectedPosition}`);
-            }
-          }
-          break;
-          
-        case 'keep_revealed_card':
-          if (!isPlayerTurn) {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Keep card from discard pile
-          if (gameState.discardPile && gameState.discardPile.length > 0 && gameState.selectedPosition !== undefined) {
-            const playerSlot = gameState.tableSlots.find((s: any) => s.playerId === userId);
-            if (playerSlot && playerSlot.cards && playerSlot.cards[gameState.selectedPosition]) {
-              const revealedCard = gameState.discardPile.pop();
-              
-              // Move old card to discard pile
-              const oldCard = playerSlot.cards[gameState.selectedPosition];
-              oldCard.faceUp = true;
-              gameState.discardPile.push(oldCard);
-              
-              // Replace with revealed card
-              playerSlot.cards[gameState.selectedPosition] = {
-                ...revealedCard,
-                isRevealed: true,
-                faceUp: false,
-                position: gameState.selectedPosition
-              };
-              
-              gameState.selectedPosition = undefined;
-              updated = true;
-              console.log(`[GAME_ACTION] ${action} by ${userId} - took card from discard pile`);
-            }
-          }
-          break;
-          
-        case 'discard_drawn_card':
-          if (!isPlayerTurn) {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Discard the drawn card without keeping it
-          if (gameState.drawnCard) {
-            gameState.drawnCard.faceUp = true;
-            gameState.discardPile.push(gameState.drawnCard);
-            gameState.drawnCard = null;
-            gameState.selectedPosition = undefined;
-            updated = true;
-            console.log(`[GAME_ACTION] ${action} by ${userId} - discarded drawn card`);
-          }
-          break;
-          
-        case 'peek_card':
-          // During peek phase, players can only peek at their own cards
-          if (gameState.gamePhase === 'peek') {
-            const playerSlot = gameState.tableSlots.find((s: any) => s.playerId === userId);
-            if (playerSlot && playerSlot.cards && playerSlot.cards[actionData.index]) {
-              // Mark card as revealed for this player
-              playerSlot.cards[actionData.index].isRevealed = true;
-              updated = true;
-              
-              // Check if player has peeked at 2 cards
-              const revealedCount = playerSlot.cards.filter((c: any) => c.isRevealed).length;
-              console.log(`[GAME_ACTION] ${action} at index ${actionData.index} by ${userId} - revealed ${revealedCount} cards`);
-              
-              // Auto-advance if all players have peeked
-              if (revealedCount >= 2) {
-                // Check if all players have peeked
-                const allPeeked = gameState.tableSlots
-                  .filter((s: any) => !s.isEmpty)
-                  .every((s: any) => s.cards.filter((c: any) => c.isRevealed).length >= 2);
-                
-                if (allPeeked) {
-                  gameState.gamePhase = 'playing';
-                  gameState.currentPlayerIndex = 0;
-                  console.log(`[GAME_ACTION] All players peeked - starting playing phase`);
-                }
-              }
-            }
-          }
-          break;
-          
-        case 'end_turn':
-          if (!isPlayerTurn) {
-            return res.status(400).json({ success: false, message: "Not your turn" });
-          }
-          
-          // Move to next player
-          const activePlayers = gameState.tableSlots.filter((s: any) => !s.isEmpty);
-          gameState.currentPlayerIndex = (gameState.currentPlayerIndex + 1) % activePlayers.length;
-          gameState.drawnCard = null;
-          gameState.selectedPosition = undefined;
-          gameState.turnCount = (gameState.turnCount || 0) + 1;
-          updated = true;
-          console.log(`[GAME_ACTION] ${action} by ${userId} - now player ${gameState.currentPlayerIndex}'s turn`);
-          break;
-          
-        default:
-          return res.status(400).json({ success: false, message: "Unknown action: " + action });
+      const gameAction = toGameAction(action, actionData);
+      if (!gameAction) {
+        return res.status(400).json({ success: false, message: "Unknown action: " + action });
       }
       
-      // If game state was updated, save and broadcast to ALL clients
-      if (updated) {
-        const newVersion = version + BigInt(1);
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(code);
+        if (!room) {
+          return res.status(404).json({ success: false, message: "Room not found" });
+        }
         
-        // Save the updated game state
-        const updatedRoom = await storage.updateGameRoom(code, {
-          gameState,
-          version: newVersion
-        });
+        // Verify player is in the room
+        const players = room.players as any[];
+        const player = players.find(p => p.id === userId);
+        if (!player) {
+          return res.status(403).json({ success: false, message: "Not in this room" });
+        }
         
-        if (updatedRoom) {
-          // Broadcast updated room snapshot to ALL room subscribers
-          const broadcastSnapshotFn = (global as any).broadcastRoomSnapshot;
-          if (broadcastSnapshotFn) {
-            await broadcastSnapshotFn(code, updatedRoom);
-            console.log(`[BROADCAST] Room ${code} snapshot v${newVersion} sent to all subscribers`);
-          }
-          
-          res.json({ 
-            success: true, 
-            message: "Action processed and broadcast",
-            version: newVersion.toString()
+        // The client acted on an older table than the one stored - hand back the latest instead
+        if (clientVersion !== undefined && String(clientVersion) !== room.version.toString()) {
+          console.log(`[VERSION_CONFLICT] roomId=${code}, op=${action}, client=v${clientVersion}, current=v${room.version}`);
+          return res.status(409).json({
+            success: false,
+            message: "Table has changed since your last update",
+            gameSnapshot: buildRoomSnapshot(room, userId)
           });
-        } else {
-          res.status(500).json({ 
+        }
+        
+        // Get current game state
+        const gameState = room.gameState as RoomGameState;
+        if (!gameState?.game) {
+          return res.status(400).json({ success: false, message: "Game not started" });
+        }
+        
+        // The shared rules engine validates the move; rule violations never touch stored state
+        const result = applyRoomAction(gameState.game, userId, gameAction);
+        if (!result.ok) {
+          console.log(`[GAME_ACTION] ${action} by ${userId} in room ${code} rejected: ${result.error.code}`);
+          return res.status(400).json({ 
             success: false, 
-            message: "Failed to save game state" 
+            code: result.error.code,
+            message: result.error.message 
           });
         }
-      } else {
-        res.json({ 
+        
+        gameState.game = result.state;
+        gameState.events = [...(gameState.events ?? []), ...result.events];
+        updateTurnClock(gameState);
+        
+        // Once the final lap comes back around the engine scores the round;
+        // after the last round the whole room is finished
+        const roundOutcome = recordRoundScores(gameState);
+        const roomStatus = roundOutcome === 'game-end' ? 'finished' : room.status;
+        
+        // Save the updated game state only if nobody else wrote the room since we read it
+        const updatedRoom = await storage.updateGameRoom(code, room.version, {
+          gameState,
+          status: roomStatus
+        });
+        
+        if (!updatedRoom) {
+          // Lost the race: a versioned request gets the new snapshot on the next pass,
+          // an unversioned one is re-validated against the latest state
+          console.log(`[VERSION_CONFLICT] roomId=${code}, op=${action}, attempt=${attempt}, expected=v${room.version}`);
+          continue;
+        }
+        
+        console.log(`[GAME_ACTION] ${action} by ${userId} in room ${code} - phase ${result.state.gamePhase}, player ${result.state.currentPlayerIndex}'s turn`);
+        if (roundOutcome) {
+          console.log(`[ROUND_END] roomId=${code}, round=${result.state.currentRound}/${result.state.totalRounds}, outcome=${roundOutcome}`);
+        }
+        
+        await finishGameUpdate(code, updatedRoom, gameState, roundOutcome);
+        
+        return res.json({ 
           success: true, 
-          message: "No state change",
-          version: version.toString()
+          message: "Action processed and broadcast",
+          version: updatedRoom.version.toString()
         });
       }
+      
+      const latestRoom = await storage.getGameRoom(code);
+      res.status(409).json({
+        success: false,
+        message: "Table is busy - please try again",
+        gameSnapshot: latestRoom ? buildRoomSnapshot(latestRoom, userId) : null
+      });
     } catch (error) {
       console.error("Error processing game action:", error);
       res.status(500).json({ success: false, message: "Failed to process action" });
@@ -859,64 +780,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const { code } = req.params;
       
-      const room = await storage.getGameRoom(code);
-      if (!room) {
-        return res.status(404).json({ message: "Room not found" });
-      }
-      
-      let players = room.players as any[];
-      const beforeSeats = players.length;
-      players = players.filter(p => p.id !== userId);
-      
-      // Also update game state to vacate the seat
-      const gameState = room.gameState as any;
-      if (gameState?.tableSlots) {
-        const seat = gameState.tableSlots.find((s: any) => s.playerId === userId);
-        if (seat) {
-          seat.isEmpty = true;
-          seat.playerId = null;
-          seat.playerName = null;
-          seat.isActive = false;
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(code);
+        if (!room) {
+          return res.status(404).json({ message: "Room not found" });
         }
-      }
-      
-      // If room is now empty, delete it immediately
-      if (players.length === 0) {
-        await storage.deleteGameRoom(code);
-        console.log(`[LEAVE] roomId=${code}, seatsAfter=0, deleted=true`);
-        console.log(`[PROJECTION_REMOVE] roomId=${code}`);
         
-        // Broadcast room removal to Active Rooms subscribers
-        const broadcastFn = (global as any).broadcastRoomUpdate;
-        if (broadcastFn && room) {
-          broadcastFn('removed', room);
+        let players = room.players as any[];
+        const leavingPlayer = players.find(p => p.id === userId);
+        
+        // Mid-game the seat is kept and played by the server, as when a connection
+        // drops, so the game goes on and the player can join again to take it back
+        const roomState = room.gameState as RoomGameState;
+        if (leavingPlayer && room.status === 'inGame_active' && roomState?.game) {
+          const seat = roomState.tableSlots.find(slot => slot.playerId === userId);
+          if (seat) {
+            seat.botControlled = true;
+          }
+          leavingPlayer.connected = false;
+          leavingPlayer.lastSeen = new Date().toISOString();
+          
+          const updatedRoom = await storage.updateGameRoom(code, room.version, { players, gameState: roomState });
+          if (!updatedRoom) {
+            console.log(`[VERSION_CONFLICT] roomId=${code}, op=leave, attempt=${attempt}, expected=v${room.version}`);
+            continue;
+          }
+          
+          console.log(`[BOT_TAKEOVER] roomId=${code}, user=${userId}, seat=${seat?.seatNumber}, left=true`);
+          await broadcastRoomSnapshot(code, updatedRoom);
+          broadcastRoomUpdate('updated', updatedRoom);
+          scheduleBotMoves(code, roomState);
+          return res.json({ message: "Left room successfully", room: serializeRoom(updatedRoom, userId) });
         }
         
-        return res.json({ message: "Left room and room deleted" });
-      }
-      
-      // Update room with remaining players and updated game state
-      const updatedRoom = await storage.updateGameRoom(code, {
-        players,
-        gameState,
-        hostId: players[0].id // Transfer host to first remaining player
-      });
-      
-      console.log(`[LEAVE] roomId=${code}, seatsAfter=${players.length}, deleted=false`);
-      
-      // Broadcast room update to lobby
-      const broadcastFn = (global as any).broadcastRoomUpdate;
-      if (broadcastFn && updatedRoom) {
-        broadcastFn('updated', updatedRoom);
-      }
-      
-      // Broadcast room snapshot to remaining room subscribers
-      const broadcastSnapshotFn = (global as any).broadcastRoomSnapshot;
-      if (broadcastSnapshotFn && updatedRoom) {
-        await broadcastSnapshotFn(code, updatedRoom);
+        players = players.filter(p => p.id !== userId);
+        
+        // Entry fees come back if the game hasn't started; leaving mid-game forfeits them
+        const refundFee = leavingPlayer?.entryFee > 0 && room.status === 'inGame_waiting' ? leavingPlayer.entryFee : 0;
+        
+        // Also update game state to vacate the seat
+        const gameState = room.gameState as any;
+        if (gameState?.tableSlots) {
+          const seat = gameState.tableSlots.find((s: any) => s.playerId === userId);
+          if (seat) {
+            seat.isEmpty = true;
+            seat.playerId = null;
+            seat.playerName = null;
+            seat.isActive = false;
+            seat.botControlled = false;
+          }
+        }
+        
+        // If room is now empty, delete it immediately
+        if (players.length === 0) {
+          if (refundFee > 0) {
+            await storage.refundStakeEntry(room.id, userId, refundFee);
+            console.log(`[STAKE_REFUND] roomId=${code}, user=${userId}, amount=${refundFee}`);
+          }
+          await storage.deleteGameRoom(code);
+          console.log(`[LEAVE] roomId=${code}, seatsAfter=0, deleted=true`);
+          console.log(`[PROJECTION_REMOVE] roomId=${code}`);
+          
+          // Broadcast room removal to Active Rooms subscribers
+          const broadcastFn = (global as any).broadcastRoomUpdate;
+          if (broadcastFn && room) {
+            broadcastFn('removed', room);
+          }
+          
+          return res.json({ message: "Left room and room deleted" });
+        }
+        
+        // Update room with remaining players and updated game state
+        const updatedRoom = await storage.updateGameRoom(code, room.version, {
+          players,
+          gameState,
+          hostId: players[0].id // Transfer host to first remaining player
+        });
+        
+        if (!updatedRoom) {
+          console.log(`[VERSION_CONFLICT] roomId=${code}, op=leave, attempt=${attempt}, expected=v${room.version}`);
+          continue;
+        }
+        
+        // Refund only once the seat is really gone, so a retried leave can't pay twice
+        if (refundFee > 0) {
+          await storage.refundStakeEntry(room.id, userId, refundFee);
+          console.log(`[STAKE_REFUND] roomId=${code}, user=${userId}, amount=${refundFee}`);
+        }
+        
+        console.log(`[LEAVE] roomId=${code}, seatsAfter=${players.length}, deleted=false`);
+        
+        // Broadcast room update to lobby
+        const broadcastFn = (global as any).broadcastRoomUpdate;
+        if (broadcastFn) {
+          broadcastFn('updated', updatedRoom);
+        }
+        
+        // Broadcast room snapshot to remaining room subscribers
+        const broadcastSnapshotFn = (global as any).broadcastRoomSnapshot;
+        if (broadcastSnapshotFn) {
+          await broadcastSnapshotFn(code, updatedRoom);
+        }
+        
+        return res.json({ message: "Left room successfully", room: serializeRoom(updatedRoom, userId) });
       }
       
-      res.json({ message: "Left room successfully", room: serializeRoom(updatedRoom) });
+      res.status(409).json({ message: "The table changed while you were leaving - please try again" });
     } catch (error) {
       console.error("Error leaving room:", error);
       res.status(500).json({ message: "Failed to leave room" });
@@ -954,6 +923,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Friends: requests go to a player id, and the addressee accepts or declines
+  app.get('/api/friends', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getFriendList(userId));
+    } catch (error) {
+      console.error("Error fetching friends:", error);
+      res.status(500).json({ message: "Failed to fetch friends" });
+    }
+  });
+
+  app.post('/api/friends/requests', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { userId: friendId } = req.body;
+      
+      if (typeof friendId !== 'string' || friendId === userId) {
+        return res.status(400).json({ message: "Choose another player to add" });
+      }
+      if (!(await storage.getUser(friendId))) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const existing = await storage.getFriendship(userId, friendId);
+      if (existing) {
+        // Sending a request back to someone who already asked accepts theirs
+        if (existing.status === 'pending' && existing.addresseeId === userId) {
+          const friendship = await storage.acceptFriendRequest(existing.id);
+          return res.json({ friendship: friendship ?? existing });
+        }
+        return res.status(409).json({
+          message: areFriends(existing) ? "You are already friends" : "Friend request already sent"
+        });
+      }
+      
+      const friendship = await storage.createFriendRequest(userId, friendId);
+      res.json({ friendship });
+    } catch (error) {
+      console.error("Error sending friend request:", error);
+      res.status(500).json({ message: "Failed to send friend request" });
+    }
+  });
+
+  app.post('/api/friends/requests/:id/:answer', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id, answer } = req.params;
+      if (answer !== 'accept' && answer !== 'decline') {
+        return res.status(404).json({ message: "Unknown answer" });
+      }
+      
+      // Only the addressee answers a request
+      const request = (await storage.getFriendships(userId))
+        .find(f => f.id === id && f.status === 'pending' && f.addresseeId === userId);
+      if (!request) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+      
+      if (answer === 'decline') {
+        await storage.deleteFriendship(id);
+        return res.json({ success: true });
+      }
+      
+      const friendship = await storage.acceptFriendRequest(id);
+      if (!friendship) {
+        return res.status(404).json({ message: "Friend request not found" });
+      }
+      res.json({ friendship });
+    } catch (error) {
+      console.error("Error answering friend request:", error);
+      res.status(500).json({ message: "Failed to answer friend request" });
+    }
+  });
+
+  // Unfriends, or withdraws a request that has not been answered yet
+  app.delete('/api/friends/:friendId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const friendship = await storage.getFriendship(userId, req.params.friendId);
+      if (!friendship) {
+        return res.status(404).json({ message: "Not friends with this player" });
+      }
+      
+      await storage.deleteFriendship(friendship.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing friend:", error);
+      res.status(500).json({ message: "Failed to remove friend" });
+    }
+  });
+
 
   const httpServer = createServer(app);
   
@@ -968,36 +1028,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     userId?: string;
     roomCode?: string;
     roomId?: string; // For specific room subscriptions
+    viewerId?: string; // Session user the room snapshots are projected for
+    spectating?: boolean; // Watching a game in progress: public cards only, no seat
   }
   
   const activeSubscriptions = new Map<string, ClientSubscription>();
   const userConnections = new Map<string, Set<string>>(); // userId -> Set of clientIds
   const GRACE_PERIOD_MS = 30000; // 30 seconds grace period for reconnection
+  const ROUND_TRANSITION_MS = 5000; // Time to show round results before the next deal
+  const BOT_MOVE_DELAY_MS = 1500; // Pause before the server plays a bot-controlled seat
+  const turnTimers = new Map<string, NodeJS.Timeout>(); // roomCode -> pending turn timeout
+  const botTimers = new Map<string, NodeJS.Timeout>(); // roomCode -> pending bot move
+  const roundTimers = new Map<string, NodeJS.Timeout>(); // roomCode -> pending next-round deal
+  const allowChatMessage = createRateLimiter(); // userId -> recent chat sends
+  const allowEmote = createRateLimiter(1, EMOTE_THROTTLE_MS); // userId -> last emote
   
-  wss.on('connection', (ws: WebSocket) => {
+  wss.on('connection', (ws: WebSocket, req) => {
     const clientId = Math.random().toString(36).substring(7);
+    // Resolve the logged-in user from the upgrade request's session cookie
+    const sessionUserId = getSessionUserId(req);
     console.log(`WebSocket client connected: ${clientId}`);
     
+    // Any open socket with a session shows the player as online to their friends
+    sessionUserId.then(userId => userId && markConnected(userId, clientId));
+    
     ws.on('message', async (message: Buffer) => {
       try {
         const data = JSON.parse(message.toString());
         
-        // Handle user authentication for connection tracking
-        if (data.type === 'authenticate' && data.userId) {
+        // Handle user authentication for connection tracking. The socket belongs to
+        // its session's user; a userId sent in the message is never trusted.
+        const authenticatedUserId = data.type === 'authenticate' ? await sessionUserId : null;
+        if (authenticatedUserId) {
           const subscription = activeSubscriptions.get(clientId) || { ws, subscribedAt: new Date() };
-          subscription.userId = data.userId;
+          subscription.userId = authenticatedUserId;
           activeSubscriptions.set(clientId, subscription);
           
           // Track user connections
-          if (!userConnections.has(data.userId)) {
-            userConnections.set(data.userId, new Set());
+          if (!userConnections.has(authenticatedUserId)) {
+            userConnections.set(authenticatedUserId, new Set());
           }
-          userConnections.get(data.userId)!.add(clientId);
+          userConnections.get(authenticatedUserId)!.add(clientId);
           
           // If user joins a room, update their connection state
           if (data.roomCode) {
             subscription.roomCode = data.roomCode;
-            await updatePlayerConnectionState(data.roomCode, data.userId, true, clientId);
+            await updatePlayerConnectionState(data.roomCode, authenticatedUserId, true, clientId);
           }
         }
         
@@ -1005,39 +1081,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Subscribe to specific room for game updates
           const roomId = data.roomId;
           const room = await storage.getGameRoom(roomId);
+          const sessionViewerId = await sessionUserId;
+          const seated = !!room && !!sessionViewerId && (room.players as any[]).some(p => p.id === sessionViewerId);
+          // Anyone not seated at the table can only watch it, whether or not they
+          // asked to. Spectators are projected as nobody, which also keeps them
+          // out of chat and emotes.
+          const spectating = !seated;
+          const viewerId = seated ? sessionViewerId : null;
+          const blocker = room && spectating ? spectateBlocker(room) : null;
           
-          if (room) {
+          if (room && !(await isOpenTo(room, sessionViewerId))) {
+            ws.send(JSON.stringify({
+              type: 'error',
+              message: "This table is open to the host's friends only"
+            }));
+          } else if (blocker) {
+            ws.send(JSON.stringify({ type: 'error', message: blocker }));
+          } else if (room) {
             const subscription: ClientSubscription = {
               ws,
               subscribedAt: new Date(),
-              roomId: roomId
+              roomId: roomId,
+              viewerId: viewerId ?? undefined,
+              spectating
             };
             activeSubscriptions.set(clientId, subscription);
             
             console.log(`Client ${clientId} subscribed to room ${roomId}`);
             
-            // Send initial room snapshot with proper serialization
-            const snapshot = {
-              code: room.code,
-              id: room.id,
-              maxPlayers: room.maxPlayers || 4,
-              playersSeated: room.players ? (room.players as any[]).length : 0,
-              seatsOpen: (room.maxPlayers || 4) - (room.players ? (room.players as any[]).length : 0),
-              rounds: (room.settings as any)?.rounds || 9,
-              stakeBracket: room.stakeBracket,
-              status: room.status,
-              gameState: room.gameState,
-              players: room.players,
-              version: room.version ? room.version.toString() : '1',
-              currentRound: (room.gameState as any)?.currentRound || 0,
-              currentPlayerIndex: (room.gameState as any)?.currentPlayerIndex || 0
-            };
+            // A seated player's socket is their connection to the table: losing it
+            // starts the grace period, and coming back takes the seat back from the bot
+            if (viewerId) {
+              subscription.userId = viewerId;
+              subscription.roomCode = roomId;
+              if (!userConnections.has(viewerId)) {
+                userConnections.set(viewerId, new Set());
+              }
+              userConnections.get(viewerId)!.add(clientId);
+              await updatePlayerConnectionState(roomId, viewerId, true, clientId);
+            }
             
-            ws.send(JSON.stringify({
-              type: 'room_snapshot',
-              snapshot,
-              timestamp: new Date().toISOString()
-            }));
+            // Timers don't survive a restart; the stored room re-arms them
+            if (!turnTimers.has(roomId)) {
+              scheduleTurnTimeout(roomId, room.gameState as RoomGameState);
+            }
+            if (!botTimers.has(roomId) && room.gameState) {
+              scheduleBotMoves(roomId, room.gameState as RoomGameState);
+            }
+            if (!roundTimers.has(roomId) && (room.gameState as RoomGameState)?.game?.gamePhase === 'round-end') {
+              scheduleNextRound(roomId);
+            }
+            
+            if (spectating) {
+              // Everyone at the table sees the spectator count go up
+              await broadcastRoomSnapshot(roomId, room);
+            } else {
+              // Send initial room snapshot, projected for this viewer
+              const snapshot = buildRoomSnapshot(room, viewerId);
+              
+              ws.send(JSON.stringify({
+                type: 'room_snapshot',
+                snapshot,
+                timestamp: new Date().toISOString()
+              }));
+              
+              // Catch the newcomer up on the table's chat
+              ws.send(JSON.stringify({
+                type: 'chat_history',
+                roomCode: roomId,
+                messages: await storage.getChatMessages(roomId)
+              }));
+            }
           } else {
             ws.send(JSON.stringify({ 
               type: 'error', 
@@ -1046,15 +1160,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         } else if (data.type === 'subscribe_rooms') {
           // Subscribe to room updates
+          const viewerId = await sessionUserId;
           const subscription: ClientSubscription = {
             ws,
             stakeBracket: data.stakeBracket,
-            subscribedAt: new Date()
+            subscribedAt: new Date(),
+            viewerId: viewerId ?? undefined
           };
           activeSubscriptions.set(clientId, subscription);
           
           // Send initial room list
-          const rooms = await getActiveRooms(data.stakeBracket);
+          const rooms = await listRoomsFor(await getActiveRooms(data.stakeBracket), viewerId);
           ws.send(JSON.stringify({
             type: 'rooms_snapshot',
             rooms,
@@ -1068,6 +1184,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
           activeSubscriptions.delete(clientId);
           console.log(`Client ${clientId} unsubscribed from rooms`);
         }
+        
+        if (data.type === 'chat_send') {
+          // Chat goes to the room this socket is subscribed to, from a player seated there
+          const subscription = activeSubscriptions.get(clientId);
+          const roomCode = subscription?.roomId;
+          const senderId = subscription?.viewerId;
+          const room = roomCode ? await storage.getGameRoom(roomCode) : undefined;
+          const sender = senderId ? (room?.players as any[] | undefined)?.find(p => p.id === senderId) : undefined;
+          
+          if (!roomCode || !senderId || !sender) {
+            ws.send(JSON.stringify({ type: 'error', message: 'Take a seat at this table to chat' }));
+            return;
+          }
+          
+          const text = cleanChatText(data.text);
+          if (!text) return;
+          if (!allowChatMessage(senderId)) {
+            ws.send(JSON.stringify({ type: 'error', message: 'You are sending messages too fast' }));
+            return;
+          }
+          
+          const message = await storage.addChatMessage({ roomCode, userId: senderId, name: sender.name || 'Player', text });
+          broadcastToRoom(roomCode, { type: 'chat_message', roomCode, message });
+        }
+        
+        if (data.type === 'emote_send') {
+          // Quick-chat emotes are fire-and-forget: checked like chat but never stored
+          const subscription = activeSubscriptions.get(clientId);
+          const roomCode = subscription?.roomId;
+          const senderId = subscription?.viewerId;
+          const room = roomCode ? await storage.getGameRoom(roomCode) : undefined;
+          const seated = !!senderId && !!(room?.players as any[] | undefined)?.some(p => p.id === senderId);
+          
+          if (!roomCode || !senderId || !seated) {
+            ws.send(JSON.stringify({ type: 'error', message: 'Take a seat at this table to send emotes' }));
+            return;
+          }
+          if (!QUICK_CHAT_EMOTES.some(emote => emote.id === data.emoteId)) {
+            ws.send(JSON.stringify({ type: 'error', message: 'Unknown emote' }));
+            return;
+          }
+          // Extra taps inside the throttle window are dropped quietly
+          if (!allowEmote(senderId)) return;
+          
+          broadcastToRoom(roomCode, { type: 'emote', roomCode, userId: senderId, emoteId: data.emoteId, sentAt: new Date().toISOString() });
+        }
       } catch (error) {
         console.error('WebSocket message error:', error);
         ws.send(JSON.stringify({ type: 'error', message: 'Invalid message format' }));
@@ -1076,32 +1238,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     ws.on('close', async () => {
       const subscription = activeSubscriptions.get(clientId);
+      const closingUserId = await sessionUserId;
+      if (closingUserId) {
+        markDisconnected(closingUserId, clientId);
+      }
       
       if (subscription?.userId && subscription?.roomCode) {
-        // Mark player as disconnected but don't remove immediately (grace period)
-        await updatePlayerConnectionState(subscription.roomCode, subscription.userId, false, clientId);
-        
         // Remove from user connections
         const userConns = userConnections.get(subscription.userId);
-        if (userConns) {
-          userConns.delete(clientId);
-          if (userConns.size === 0) {
-            userConnections.delete(subscription.userId);
-            
-            // Start grace period timer
-            setTimeout(async () => {
-              // Check if user reconnected
-              if (!userConnections.has(subscription.userId!)) {
-                // User didn't reconnect, clean up their seat
-                await cleanupDisconnectedPlayer(subscription.roomCode!, subscription.userId!);
-              }
-            }, GRACE_PERIOD_MS);
-          }
+        userConns?.delete(clientId);
+        
+        // Only the player's last open socket closing counts as a disconnect
+        if (!userConns || userConns.size === 0) {
+          userConnections.delete(subscription.userId);
+          
+          // Mark player as disconnected but don't remove immediately (grace period)
+          await updatePlayerConnectionState(subscription.roomCode, subscription.userId, false, clientId);
+          
+          // Start grace period timer
+          setTimeout(async () => {
+            // Check if user reconnected
+            if (!userConnections.has(subscription.userId!)) {
+              // User didn't reconnect, clean up their seat
+              await cleanupDisconnectedPlayer(subscription.roomCode!, subscription.userId!);
+            }
+          }, GRACE_PERIOD_MS);
         }
       }
       
       activeSubscriptions.delete(clientId);
       console.log(`WebSocket client disconnected: ${clientId}`);
+      
+      // A spectator leaving changes the count the table shows
+      if (subscription?.spectating && subscription.roomId) {
+        const room = await storage.getGameRoom(subscription.roomId);
+        if (room) await broadcastRoomSnapshot(subscription.roomId, room);
+      }
     });
     
     ws.on('error', (error) => {
@@ -1110,10 +1282,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
   
-  // Helper function to serialize room data (converts BigInt to string)
-  function serializeRoom(room: GameRoom): any {
+  // Helper function to serialize room data (converts BigInt to string).
+  // Game state is always projected, so hidden cards never leave the server.
+  function serializeRoom(room: GameRoom, viewerId?: string | null): any {
+    return {
+      ...withoutPassphrase(room),
+      gameState: projectRoomGameState(room.gameState as RoomGameState, viewerId),
+      version: room.version ? room.version.toString() : '1'
+    };
+  }
+  
+  // Helper function to build the room snapshot sent to a single subscriber
+  function buildRoomSnapshot(room: GameRoom, viewerId?: string | null) {
+    const players = (room.players as any[]) || [];
+    const gameState = room.gameState as RoomGameState;
+    
+    return {
+      code: room.code,
+      id: room.id,
+      hostId: room.hostId,
+      maxPlayers: room.maxPlayers || 4,
+      playersSeated: players.length,
+      seatsOpen: (room.maxPlayers || 4) - players.length,
+      rounds: (room.settings as any)?.rounds || 9,
+      stakeBracket: room.stakeBracket,
+      visibility: room.visibility || 'public',
+      status: room.status,
+      spectatorCount: countSpectators(room.code),
+      gameState: projectRoomGameState(gameState, viewerId),
+      players: room.players,
+      version: room.version ? room.version.toString() : '1',
+      currentRound: gameState?.game?.currentRound || 0,
+      currentPlayerIndex: gameState?.game?.currentPlayerIndex || 0
+    };
+  }
+  
+  // Helper function to build the table snapshot returned from join and action requests
+  function buildGameSnapshot(room: GameRoom, viewerId?: string | null) {
     return {
-      ...room,
+      code: room.code,
+      hostId: room.hostId,
+      status: room.status,
+      players: room.players,
+      gameState: projectRoomGameState(room.gameState as RoomGameState, viewerId),
+      settings: room.settings,
+      stakeBracket: room.stakeBracket,
+      visibility: room.visibility || 'public',
       version: room.version ? room.version.toString() : '1'
     };
   }
@@ -1123,7 +1337,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Use improved storage method that already filters per Active Room definition
     if (stakeBracket) {
       const rooms = await storage.getActiveRoomsByStake(stakeBracket);
-      return rooms.map(serializeRoom);
+      return rooms.map(room => serializeRoom(room));
     }
     
     // Get all active rooms if no stake specified
@@ -1134,12 +1348,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // 1. players ≥ 1 (at least one seated)
     // 2. seatsOpen > 0 (not full) 
     // 3. visibility allows listing
-    // 4. Not in finished state
+    // 4. Not started yet
     const activeRooms: GameRoom[] = [];
     
     for (const room of allRooms) {
       const players = room.players as any[];
       
+      // Only tables still waiting to start are listed or pruned here
+      if (room.status !== 'inGame_waiting') continue;
+      
       // Delete zero-player rooms immediately
       if (!players || players.length === 0) {
         await storage.deleteGameRoom(room.code);
@@ -1153,11 +1370,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const seatsOpen = maxPlayers - players.length;
       const hasOpenSeats = seatsOpen > 0; // MUST have open seats to be listed
       const visibility = room.visibility || 'public';
-      const isListable = visibility === 'public';
-      const notFinished = room.status !== 'finished';
+      const isListable = visibility !== 'private'; // Friends-only rooms are narrowed per viewer by listRoomsFor
       
       // Only list tables with open seats (not full)
-      if (hasPlayers && hasOpenSeats && isListable && notFinished) {
+      if (hasPlayers && hasOpenSeats && isListable) {
         activeRooms.push(serializeRoom(room));
       }
     }
@@ -1165,18 +1381,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return activeRooms;
   }
   
+  // Friends-only rooms are listed only for their host and the host's friends
+  async function listRoomsFor<T extends Pick<GameRoom, 'visibility' | 'hostId'>>(rooms: T[], viewerId?: string | null): Promise<T[]> {
+    const friendIds = viewerId && rooms.some(room => room.visibility === 'friends') ? await getFriendIds(viewerId) : [];
+    return rooms.filter(room => isListedFor(room, viewerId, friendIds));
+  }
+  
   // Broadcast room changes to subscribers
   async function broadcastRoomUpdate(changeType: 'created' | 'updated' | 'removed', room: GameRoom) {
+    // Private rooms never show up in the lobby, so their changes are nobody else's business
+    if (room.visibility === 'private') return;
+    
     const allRooms = await getActiveRooms();
+    const anyFriendsOnly = room.visibility === 'friends' || allRooms.some(r => r.visibility === 'friends');
     
-    activeSubscriptions.forEach((subscription, clientId) => {
-      // Filter rooms based on subscription's stake bracket
-      const filteredRooms = subscription.stakeBracket 
-        ? allRooms.filter(r => r.stakeBracket === subscription.stakeBracket)
-        : allRooms;
+    for (const subscription of Array.from(activeSubscriptions.values())) {
+      const friendIds = anyFriendsOnly && subscription.viewerId ? await getFriendIds(subscription.viewerId) : [];
+      
+      // Filter rooms based on subscription's stake bracket and who is looking
+      const filteredRooms = allRooms.filter(r =>
+        (!subscription.stakeBracket || r.stakeBracket === subscription.stakeBracket) &&
+        isListedFor(r, subscription.viewerId, friendIds));
       
       // Check if this room change is relevant to the subscriber
-      const isRelevant = !subscription.stakeBracket || room.stakeBracket === subscription.stakeBracket;
+      const isRelevant = (!subscription.stakeBracket || room.stakeBracket === subscription.stakeBracket) &&
+        isListedFor(room, subscription.viewerId, friendIds);
       
       if (isRelevant && subscription.ws.readyState === WebSocket.OPEN) {
         subscription.ws.send(JSON.stringify({
@@ -1187,19 +1416,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
           timestamp: new Date().toISOString()
         }));
       }
-    });
+    }
   }
   
   // Helper function to update player connection state
   async function updatePlayerConnectionState(roomCode: string, userId: string, connected: boolean, connectionId?: string) {
     try {
-      const room = await storage.getGameRoom(roomCode);
-      if (!room) return;
-      
-      const players = room.players as any[];
-      const player = players.find(p => p.id === userId);
-      
-      if (player) {
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(roomCode);
+        if (!room) return;
+        
+        const players = room.players as any[];
+        const player = players.find(p => p.id === userId);
+        if (!player) return;
+        
+        // A returning player takes their seat back from the bot
+        const gameState = room.gameState as RoomGameState;
+        const botSeat = connected ? gameState?.tableSlots?.find(slot => slot.playerId === userId && slot.botControlled) : undefined;
+        if (botSeat) {
+          botSeat.botControlled = false;
+        } else if (player.connected === connected) {
+          return; // Another socket for an already connected player; nothing changes
+        }
+        
         // Update connection state
         player.connected = connected;
         player.lastSeen = new Date().toISOString();
@@ -1207,12 +1446,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           player.connectionId = connectionId;
         }
         
-        // Update room with new player state
-        await storage.updateGameRoom(roomCode, { players });
-        
-        // Broadcast update
-        broadcastRoomUpdate('updated', room);
+        // Update room with new player state, re-reading if another write got there first
+        const updatedRoom = await storage.updateGameRoom(roomCode, room.version, botSeat ? { players, gameState } : { players });
+        if (updatedRoom) {
+          if (botSeat) {
+            console.log(`[BOT_RELEASE] roomId=${roomCode}, user=${userId}, seat=${botSeat.seatNumber}`);
+          }
+          // The table's version moved on, so players need the new snapshot to keep acting
+          await broadcastRoomSnapshot(roomCode, updatedRoom);
+          broadcastRoomUpdate('updated', updatedRoom);
+          return;
+        }
       }
+      console.log(`[VERSION_CONFLICT] roomId=${roomCode}, op=connection, gave up for ${userId}`);
     } catch (error) {
       console.error(`Error updating connection state for ${userId} in room ${roomCode}:`, error);
     }
@@ -1221,78 +1467,367 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Helper function to clean up disconnected player after grace period
   async function cleanupDisconnectedPlayer(roomCode: string, userId: string) {
     try {
-      const room = await storage.getGameRoom(roomCode);
-      if (!room) return;
-      
-      let players = room.players as any[];
-      const player = players.find(p => p.id === userId);
-      
-      if (player && !player.connected) {
-        const lastSeenTime = new Date(player.lastSeen).getTime();
-        const now = Date.now();
-        
-        // Check if grace period has expired
-        if (now - lastSeenTime >= GRACE_PERIOD_MS) {
-          // Remove player from room
-          players = players.filter(p => p.id !== userId);
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(roomCode);
+        if (!room) return;
+        
+        let players = room.players as any[];
+        const player = players.find(p => p.id === userId);
+        
+        // Nothing to do if the player came back or the grace period hasn't expired yet
+        if (!player || player.connected) return;
+        if (Date.now() - new Date(player.lastSeen).getTime() < GRACE_PERIOD_MS) return;
+        
+        // Mid-game the seat is kept and played by the server until the player returns
+        const roomState = room.gameState as RoomGameState;
+        if (room.status === 'inGame_active' && roomState?.game) {
+          const seat = roomState.tableSlots.find(slot => slot.playerId === userId);
+          if (!seat || seat.botControlled) return;
+          seat.botControlled = true;
           
-          // Update game state to vacate seat
-          const gameState = room.gameState as any;
-          if (gameState?.tableSlots) {
-            const seat = gameState.tableSlots.find((s: any) => s.playerId === userId);
-            if (seat) {
-              seat.isEmpty = true;
-              seat.playerId = null;
-              seat.playerName = null;
-              seat.isActive = false;
-            }
-          }
+          const updatedRoom = await storage.updateGameRoom(roomCode, room.version, { gameState: roomState });
+          if (!updatedRoom) continue;
           
-          // If room is now empty, delete it
-          if (players.length === 0) {
-            await storage.deleteGameRoom(roomCode);
-            console.log(`[Grace Period] Room ${roomCode} deleted (all players disconnected)`);
-            broadcastRoomUpdate('removed', room);
-          } else {
-            // Update room with remaining players
-            const updatedRoom = await storage.updateGameRoom(roomCode, { 
-              players,
-              gameState,
-              hostId: players[0].id // Transfer host if needed
-            });
-            
-            if (updatedRoom) {
-              console.log(`[Grace Period] Player ${userId} removed from room ${roomCode} after grace period`);
-              broadcastRoomUpdate('updated', updatedRoom);
-            }
+          console.log(`[BOT_TAKEOVER] roomId=${roomCode}, user=${userId}, seat=${seat.seatNumber}`);
+          await broadcastRoomSnapshot(roomCode, updatedRoom);
+          scheduleBotMoves(roomCode, roomState);
+          return;
+        }
+        
+        // Remove player from room
+        players = players.filter(p => p.id !== userId);
+        const refundFee = player.entryFee > 0 && room.status === 'inGame_waiting' ? player.entryFee : 0;
+        
+        // Update game state to vacate seat
+        const gameState = room.gameState as any;
+        if (gameState?.tableSlots) {
+          const seat = gameState.tableSlots.find((s: any) => s.playerId === userId);
+          if (seat) {
+            seat.isEmpty = true;
+            seat.playerId = null;
+            seat.playerName = null;
+            seat.isActive = false;
+            seat.botControlled = false;
           }
         }
+        
+        // If room is now empty, delete it
+        if (players.length === 0) {
+          if (refundFee > 0) {
+            await storage.refundStakeEntry(room.id, userId, refundFee);
+            console.log(`[STAKE_REFUND] roomId=${roomCode}, user=${userId}, amount=${refundFee}`);
+          }
+          await storage.deleteGameRoom(roomCode);
+          console.log(`[Grace Period] Room ${roomCode} deleted (all players disconnected)`);
+          broadcastRoomUpdate('removed', room);
+          return;
+        }
+        
+        // Update room with remaining players
+        const updatedRoom = await storage.updateGameRoom(roomCode, room.version, { 
+          players,
+          gameState,
+          hostId: players[0].id // Transfer host if needed
+        });
+        if (!updatedRoom) continue;
+        
+        if (refundFee > 0) {
+          await storage.refundStakeEntry(room.id, userId, refundFee);
+          console.log(`[STAKE_REFUND] roomId=${roomCode}, user=${userId}, amount=${refundFee}`);
+        }
+        console.log(`[Grace Period] Player ${userId} removed from room ${roomCode} after grace period`);
+        broadcastRoomUpdate('updated', updatedRoom);
+        return;
       }
+      console.log(`[VERSION_CONFLICT] roomId=${roomCode}, op=cleanup, gave up for ${userId}`);
     } catch (error) {
       console.error(`Error cleaning up disconnected player ${userId} in room ${roomCode}:`, error);
     }
   }
   
+  // Helper function to deal the next round after the round-end pause
+  function scheduleNextRound(roomCode: string) {
+    clearTimeout(roundTimers.get(roomCode));
+    roundTimers.set(roomCode, setTimeout(async () => {
+      roundTimers.delete(roomCode);
+      try {
+        for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+          const room = await storage.getGameRoom(roomCode);
+          if (!room) return;
+          
+          // Only advance if nothing else has moved the room on in the meantime
+          const gameState = room.gameState as RoomGameState;
+          if (gameState?.game?.gamePhase !== 'round-end' || !startNextRoomRound(gameState)) return;
+          
+          const updatedRoom = await storage.updateGameRoom(roomCode, room.version, { gameState });
+          if (updatedRoom) {
+            console.log(`[ROUND_START] roomId=${roomCode}, round=${gameState.game!.currentRound}`);
+            await broadcastRoomSnapshot(roomCode, updatedRoom);
+            scheduleTurnTimeout(roomCode, gameState);
+            scheduleBotMoves(roomCode, gameState);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error(`Error starting next round in room ${roomCode}:`, error);
+      }
+    }, ROUND_TRANSITION_MS));
+  }
+  
+  // Seat management while the room waits for its deal: players ready up, the host
+  // starts once everyone seated is ready (optionally with AI players in the empty
+  // seats, at free tables) or removes a player for good
+  async function handleRoomControl(res: any, code: string, userId: string, action: RoomControlAction, data: any) {
+    const { aiDifficulty, playerId: targetId } = data;
+    if (action === 'start_game' && aiDifficulty !== undefined && !AI_DIFFICULTIES.includes(aiDifficulty)) {
+      return res.status(400).json({ success: false, message: "Invalid AI difficulty" });
+    }
+
+    for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+      const room = await storage.getGameRoom(code);
+      if (!room) {
+        return res.status(404).json({ success: false, message: "Room not found" });
+      }
+
+      let players = room.players as any[];
+      if (!players.some(p => p.id === userId)) {
+        return res.status(403).json({ success: false, message: "Not in this room" });
+      }
+      if (room.status !== 'inGame_waiting') {
+        return res.status(400).json({ success: false, message: "Game has already started" });
+      }
+      if (action === 'start_game' && room.hostId !== userId) {
+        return res.status(403).json({ success: false, message: "Only the host can start the game" });
+      }
+      if (action === 'kick' && room.hostId !== userId) {
+        return res.status(403).json({ success: false, message: "Only the host can remove players" });
+      }
+
+      const gameState = room.gameState as RoomGameState;
+      let roomStatus = room.status;
+      let kickedPlayer: any = null;
+      let filledSeats = 0;
+
+      if (action === 'ready' || action === 'unready') {
+        setPlayerReady(gameState, userId, action === 'ready');
+      } else if (action === 'kick') {
+        kickedPlayer = targetId !== userId ? players.find(p => p.id === targetId) : null;
+        if (!kickedPlayer) {
+          return res.status(400).json({ success: false, message: "That player can't be removed from this table" });
+        }
+        players = players.filter(p => p.id !== targetId);
+        vacateSeat(gameState, targetId);
+        gameState.kickedPlayerIds = [...(gameState.kickedPlayerIds ?? []), targetId];
+      } else {
+        const notReady = playersNotReady(gameState, room.hostId!);
+        if (notReady.length > 0) {
+          return res.status(400).json({
+            success: false,
+            message: `Waiting for ${notReady.map(slot => slot.playerName).join(', ')} to get ready`
+          });
+        }
+
+        const staked = getEntryFee(room.stakeBracket) > 0;
+        if (aiDifficulty) {
+          filledSeats = fillEmptySeatsWithAI(gameState, aiDifficulty as AIDifficulty);
+          // AI players pay no entry fee, so they only sit at free tables
+          if (filledSeats > 0 && staked) {
+            return res.status(400).json({ success: false, message: "AI players can only fill seats at free tables" });
+          }
+        }
+        // Staked tables play for the full table's pot, so they only start once every seat is taken
+        if (staked && gameState.tableSlots.some(slot => slot.isEmpty)) {
+          return res.status(400).json({ success: false, message: "Staked tables start once every seat is taken" });
+        }
+        if (gameState.tableSlots.filter(slot => !slot.isEmpty).length < 2) {
+          return res.status(400).json({ success: false, message: "At least two players are needed to start" });
+        }
+
+        startRoomGame(gameState);
+        roomStatus = 'inGame_active';
+      }
+
+      const updatedRoom = await storage.updateGameRoom(code, room.version, {
+        players,
+        gameState,
+        status: roomStatus
+      });
+
+      if (!updatedRoom) {
+        console.log(`[VERSION_CONFLICT] roomId=${code}, op=${action}, attempt=${attempt}, expected=v${room.version}`);
+        continue;
+      }
+
+      if (action === 'start_game') {
+        console.log(`[HOST_START] roomId=${code}, humans=${players.length}, ai=${filledSeats}, difficulty=${aiDifficulty ?? 'none'}`);
+      } else if (kickedPlayer) {
+        console.log(`[KICK] roomId=${code}, host=${userId}, kicked=${targetId}, seatsAfter=${players.length}`);
+        // Refund only once the seat is really gone, as when leaving
+        if (kickedPlayer.entryFee > 0) {
+          await storage.refundStakeEntry(room.id, targetId, kickedPlayer.entryFee);
+          console.log(`[STAKE_REFUND] roomId=${code}, user=${targetId}, amount=${kickedPlayer.entryFee}`);
+        }
+      } else {
+        console.log(`[READY] roomId=${code}, user=${userId}, ready=${action === 'ready'}`);
+      }
+
+      await broadcastRoomUpdate('updated', updatedRoom);
+      if (action === 'start_game') {
+        await finishGameUpdate(code, updatedRoom, gameState, null);
+      } else {
+        await broadcastRoomSnapshot(code, updatedRoom);
+      }
+
+      return res.json({
+        success: true,
+        version: updatedRoom.version.toString(),
+        gameSnapshot: buildGameSnapshot(updatedRoom, userId)
+      });
+    }
+
+    res.status(409).json({ success: false, message: "The table changed - please try again" });
+  }
+
+  // Everything that follows a stored game change: push the new table to the room,
+  // restart the turn timer and move on to the next round or pay out the game
+  async function finishGameUpdate(roomCode: string, room: GameRoom, gameState: RoomGameState, roundOutcome: 'round-end' | 'game-end' | null) {
+    await broadcastRoomSnapshot(roomCode, room);
+    console.log(`[BROADCAST] Room ${roomCode} snapshot v${room.version} sent to all subscribers`);
+    scheduleTurnTimeout(roomCode, gameState);
+    scheduleBotMoves(roomCode, gameState);
+    
+    if (roundOutcome === 'round-end') {
+      scheduleNextRound(roomCode);
+    } else if (roundOutcome === 'game-end') {
+      // Results come from the server's own game state, never from clients
+      await awardRoomResults(room.id, gameState.game!, gameState.events, room.stakeBracket, room.createdAt);
+      await settleRoomStakes(room, gameState.game!);
+      await broadcastRoomUpdate('updated', room);
+    }
+  }
+  
+  // Arm the room's turn timer from the clock stored with its game, replacing any earlier one
+  function scheduleTurnTimeout(roomCode: string, gameState: RoomGameState | null) {
+    clearTimeout(turnTimers.get(roomCode));
+    turnTimers.delete(roomCode);
+    
+    const clock = gameState?.turnClock;
+    if (!clock) return;
+    
+    turnTimers.set(roomCode, setTimeout(() => {
+      turnTimers.delete(roomCode);
+      handleTurnTimeout(roomCode);
+    }, Math.max(0, clock.deadline - Date.now())));
+  }
+  
+  // Make the default move for whoever ran out of time
+  async function handleTurnTimeout(roomCode: string) {
+    try {
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(roomCode);
+        if (!room) return;
+        
+        const gameState = room.gameState as RoomGameState;
+        const clock = gameState?.turnClock;
+        if (!gameState?.game || !clock) return;
+        
+        // The turn moved on (and its clock restarted) since this timer was set
+        if (Date.now() < clock.deadline) {
+          scheduleTurnTimeout(roomCode, gameState);
+          return;
+        }
+        
+        const result = applyTimeoutMove(gameState.game);
+        if (!result.ok) {
+          console.log(`[TURN_TIMEOUT] roomId=${roomCode}, turn=${clock.turn}, no default move: ${result.error.code}`);
+          return;
+        }
+        
+        gameState.game = result.state;
+        gameState.events = [...(gameState.events ?? []), ...result.events];
+        updateTurnClock(gameState);
+        const roundOutcome = recordRoundScores(gameState);
+        
+        const updatedRoom = await storage.updateGameRoom(roomCode, room.version, {
+          gameState,
+          status: roundOutcome === 'game-end' ? 'finished' : room.status
+        });
+        if (!updatedRoom) continue;
+        
+        console.log(`[TURN_TIMEOUT] roomId=${roomCode}, turn=${clock.turn}, default move made`);
+        if (roundOutcome) {
+          console.log(`[ROUND_END] roomId=${roomCode}, round=${result.state.currentRound}/${result.state.totalRounds}, outcome=${roundOutcome}`);
+        }
+        await finishGameUpdate(roomCode, updatedRoom, gameState, roundOutcome);
+        return;
+      }
+      console.log(`[VERSION_CONFLICT] roomId=${roomCode}, op=turn_timeout, gave up`);
+    } catch (error) {
+      console.error(`Error making timeout move in room ${roomCode}:`, error);
+    }
+  }
+  
+  // Give bot-controlled seats their move after a short pause, replacing any pending one
+  function scheduleBotMoves(roomCode: string, gameState: RoomGameState) {
+    clearTimeout(botTimers.get(roomCode));
+    botTimers.delete(roomCode);
+    if (getBotSeats(gameState).length === 0) return;
+    
+    botTimers.set(roomCode, setTimeout(() => {
+      botTimers.delete(roomCode);
+      playBotMoves(roomCode);
+    }, BOT_MOVE_DELAY_MS));
+  }
+  
+  // Play for every bot-controlled seat that has something to do. Each stored
+  // change goes through finishGameUpdate, which schedules the next bot move.
+  async function playBotMoves(roomCode: string) {
+    try {
+      for (let attempt = 1; attempt <= MAX_ROOM_WRITE_ATTEMPTS; attempt++) {
+        const room = await storage.getGameRoom(roomCode);
+        if (!room || room.status !== 'inGame_active') return;
+        
+        const gameState = room.gameState as RoomGameState;
+        if (!gameState?.game) return;
+        
+        const result = applyBotMove(gameState.game, getBotSeats(gameState));
+        if (!result) return;
+        if (!result.ok) {
+          console.log(`[BOT_MOVE] roomId=${roomCode}, rejected: ${result.error.code}`);
+          return;
+        }
+        
+        gameState.game = result.state;
+        gameState.events = [...(gameState.events ?? []), ...result.events];
+        updateTurnClock(gameState);
+        const roundOutcome = recordRoundScores(gameState);
+        
+        const updatedRoom = await storage.updateGameRoom(roomCode, room.version, {
+          gameState,
+          status: roundOutcome === 'game-end' ? 'finished' : room.status
+        });
+        if (!updatedRoom) continue;
+        
+        console.log(`[BOT_MOVE] roomId=${roomCode}, phase ${result.state.gamePhase}, player ${result.state.currentPlayerIndex}'s turn`);
+        if (roundOutcome) {
+          console.log(`[ROUND_END] roomId=${roomCode}, round=${result.state.currentRound}/${result.state.totalRounds}, outcome=${roundOutcome}`);
+        }
+        await finishGameUpdate(roomCode, updatedRoom, gameState, roundOutcome);
+        return;
+      }
+      console.log(`[VERSION_CONFLICT] roomId=${roomCode}, op=bot_move, gave up`);
+    } catch (error) {
+      console.error(`Error making bot move in room ${roomCode}:`, error);
+    }
+  }
+  
   // Broadcast room snapshot to specific room subscribers
   async function broadcastRoomSnapshot(roomCode: string, room: GameRoom) {
     activeSubscriptions.forEach((subscription, clientId) => {
       // Check if this client is subscribed to this specific room
       if (subscription.roomId === roomCode && subscription.ws.readyState === WebSocket.OPEN) {
-        const snapshot = {
-          code: room.code,
-          id: room.id,
-          maxPlayers: room.maxPlayers || 4,
-          playersSeated: (room.players as any[]).length,
-          seatsOpen: (room.maxPlayers || 4) - (room.players as any[]).length,
-          rounds: (room.settings as any)?.rounds || 9,
-          stakeBracket: room.stakeBracket,
-          status: room.status,
-          gameState: room.gameState,
-          players: room.players,
-          version: room.version ? room.version.toString() : '1',
-          currentRound: (room.gameState as any)?.currentRound || 0,
-          currentPlayerIndex: (room.gameState as any)?.currentPlayerIndex || 0
-        };
+        // Every subscriber gets their own projection of the table
+        const snapshot = buildRoomSnapshot(room, subscription.viewerId);
         
         subscription.ws.send(JSON.stringify({
           type: 'room_snapshot',
@@ -1303,6 +1838,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
   
+  // Sockets watching a room without a seat
+  function countSpectators(roomCode: string): number {
+    return Array.from(activeSubscriptions.values())
+      .filter(subscription => subscription.roomId === roomCode && subscription.spectating).length;
+  }
+  
+  // Send the same message to every socket subscribed to a room
+  function broadcastToRoom(roomCode: string, payload: object) {
+    const data = JSON.stringify(payload);
+    activeSubscriptions.forEach(subscription => {
+      if (subscription.roomId === roomCode && subscription.ws.readyState === WebSocket.OPEN) {
+        subscription.ws.send(data);
+      }
+    });
+  }
+  
   // Export broadcast functions for use in other parts of the application
   (global as any).broadcastRoomUpdate = broadcastRoomUpdate;
   (global as any).broadcastRoomSnapshot = broadcastRoomSnapshot;
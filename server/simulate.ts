@@ -0,0 +1,67 @@
+import type { AIDifficulty } from "@shared/gameTypes";
+import { AI_DIFFICULTIES } from "@shared/aiLogic";
+import { AI_PERSONALITIES } from "@shared/aiPersonalities";
+import { runSimulation, type SimulatedStrategy } from "./simulation";
+
+// Command line front end for the AI-vs-AI simulation:
+//   npm run simulate -- [--games 1000] [--rounds 9] [--seed 42] [--json] hard normal:cautious ...
+// Each strategy is a difficulty, optionally with a personality id after a colon.
+
+const USAGE = `Usage: npm run simulate -- [--games N] [--rounds 5|9] [--seed N] [--json] <difficulty[:personality]> ...
+Difficulties: ${AI_DIFFICULTIES.join(', ')}
+Personalities: ${AI_PERSONALITIES.map(personality => personality.id).join(', ')}`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parseStrategy(arg: string): SimulatedStrategy {
+  const [difficulty, personalityId] = arg.split(':');
+  if (!AI_DIFFICULTIES.includes(difficulty as AIDifficulty)) fail(`Unknown difficulty "${difficulty}"`);
+  if (personalityId && !AI_PERSONALITIES.some(personality => personality.id === personalityId)) {
+    fail(`Unknown personality "${personalityId}"`);
+  }
+  return { difficulty: difficulty as AIDifficulty, personalityId };
+}
+
+function parseArgs(args: string[]) {
+  const options = { games: 1000, rounds: 9 as 5 | 9, seed: undefined as number | undefined, json: false, strategies: [] as SimulatedStrategy[] };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => Number(args[++i]);
+    if (arg === '--games') options.games = value();
+    else if (arg === '--rounds') options.rounds = value() as 5 | 9;
+    else if (arg === '--seed') options.seed = value();
+    else if (arg === '--json') options.json = true;
+    else if (arg.startsWith('--')) fail(`Unknown option ${arg}`);
+    else options.strategies.push(parseStrategy(arg));
+  }
+
+  if (!Number.isInteger(options.games) || options.games < 1) fail("--games must be a positive whole number");
+  if (options.rounds !== 5 && options.rounds !== 9) fail("--rounds must be 5 or 9");
+  if (options.seed !== undefined && !Number.isInteger(options.seed)) fail("--seed must be a whole number");
+  if (options.strategies.length < 2 || options.strategies.length > 4) fail("Give between two and four strategies");
+  return options;
+}
+
+const options = parseArgs(process.argv.slice(2));
+const started = Date.now();
+const report = runSimulation(options);
+
+if (options.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  console.log(`${report.games} games of ${options.rounds} rounds in ${((Date.now() - started) / 1000).toFixed(1)}s` +
+    (report.stalledGames > 0 ? ` (${report.stalledGames} stalled and left out)` : ''));
+  console.log(`Average length: ${report.averageTurnsPerGame.toFixed(1)} turns per game, ${report.averageTurnsPerRound.toFixed(1)} per round`);
+  console.table(report.strategies.map(strategy => ({
+    strategy: strategy.label,
+    'win rate': percent(strategy.winRate),
+    'avg game score': strategy.averageGameScore.toFixed(1),
+    'avg round score': strategy.averageRoundScore.toFixed(2),
+    'three of a kind / round': strategy.threeOfAKindPerRound.toFixed(3),
+    'rounds ended': strategy.roundsEnded,
+  })));
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { runSimulation, simulateGame } from "./simulation";
+
+describe("simulateGame", () => {
+  it("plays every round to the end with bots in every seat", () => {
+    const game = simulateGame([{ difficulty: 'normal' }, { difficulty: 'easy' }], 5, 11);
+    if (!game) throw new Error("game stalled");
+
+    expect(game.state.gamePhase).toBe('game-end');
+    expect(game.state.currentRound).toBe(5);
+    expect(game.roundEnders).toHaveLength(5);
+    expect(game.turns).toBeGreaterThan(0);
+  });
+});
+
+describe("runSimulation", () => {
+  it("reports win rates, scores and game length for each strategy", () => {
+    const report = runSimulation({
+      strategies: [{ difficulty: 'hard' }, { difficulty: 'normal', personalityId: 'pair-hunter' }],
+      games: 4,
+      rounds: 5,
+      seed: 1,
+    });
+
+    expect(report).toMatchObject({ games: 4, stalledGames: 0, averageRounds: 5 });
+    expect(report.strategies.map(strategy => strategy.label)).toEqual(['hard/steady', 'normal/pair-hunter']);
+    expect(report.strategies.reduce((sum, strategy) => sum + strategy.winRate, 0)).toBeCloseTo(1);
+    expect(report.strategies.reduce((sum, strategy) => sum + strategy.roundsEnded, 0)).toBe(4 * 5);
+    expect(report.averageTurnsPerRound * 5).toBeCloseTo(report.averageTurnsPerGame);
+  });
+
+  it("only takes two to four strategies", () => {
+    expect(() => runSimulation({ strategies: [{ difficulty: 'normal' }], games: 1 })).toThrow();
+  });
+});
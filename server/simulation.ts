@@ -0,0 +1,144 @@
+import type { AIDifficulty, GameEvent, GameState } from "@shared/gameTypes";
+import { initializeGame, createSeed } from "@shared/gameLogic";
+import { applyGameAction } from "@shared/gameEngine";
+import { getAIPersonality } from "@shared/aiPersonalities";
+import { applyBotMove, type BotSeat } from "./roomGame";
+
+// Headless AI-vs-AI games for balancing. Every seat is played by applyBotMove,
+// the same driver the server uses for online AI seats, through the shared rules
+// engine. Strategies swap seats from game to game so nobody keeps the first move.
+// Run from the command line with `npm run simulate` (see simulate.ts).
+
+const MAX_ACTIONS_PER_GAME = 20000; // A game still going after this many moves is reported as stalled
+
+export interface SimulatedStrategy {
+  difficulty: AIDifficulty;
+  personalityId?: string; // Defaults to the default personality
+}
+
+export interface SimulationOptions {
+  strategies: SimulatedStrategy[]; // One per seat, 2-4
+  games: number;
+  rounds?: 5 | 9;
+  seed?: number; // Seeds every deal so a run can be repeated
+}
+
+export interface StrategyReport {
+  label: string;
+  wins: number; // Shared wins count as a fraction
+  winRate: number;
+  averageGameScore: number;
+  averageRoundScore: number;
+  threeOfAKindPerRound: number; // Columns cleared per round played
+  roundsEnded: number; // Rounds this strategy closed by turning over its last card
+}
+
+export interface SimulationReport {
+  games: number;
+  stalledGames: number;
+  averageRounds: number;
+  averageTurnsPerRound: number;
+  averageTurnsPerGame: number;
+  strategies: StrategyReport[];
+}
+
+interface SimulatedGame {
+  state: GameState;
+  events: GameEvent[];
+  turns: number;
+  roundEnders: number[]; // Player index that closed each round
+}
+
+export function describeStrategy(strategy: SimulatedStrategy): string {
+  return `${strategy.difficulty}/${getAIPersonality(strategy.personalityId).id}`;
+}
+
+// Play one game to the end with a bot in every seat. Returns null if it stalls.
+export function simulateGame(strategies: SimulatedStrategy[], rounds: 5 | 9, seed: number): SimulatedGame | null {
+  let state = initializeGame({ mode: 'solo', playerCount: strategies.length as 2 | 3 | 4, rounds }, seed);
+  state.players = state.players.map((player, index) => ({ ...player, isAI: true, personalityId: strategies[index].personalityId }));
+  const bots: BotSeat[] = strategies.map((strategy, playerIndex) => ({ playerIndex, difficulty: strategy.difficulty }));
+
+  const events: GameEvent[] = [];
+  const roundEnders: number[] = [];
+  let turns = 0;
+  for (let actions = 0; actions < MAX_ACTIONS_PER_GAME; actions++) {
+    if (state.gamePhase === 'game-end') {
+      return { state, events, turns, roundEnders };
+    }
+
+    const roundOver = state.gamePhase === 'round-end';
+    const result = roundOver
+      ? applyGameAction(state, 0, { type: 'START_ROUND' })
+      : applyBotMove(state, bots);
+    if (!result?.ok) return null;
+
+    if (state.gamePhase === 'playing') turns++;
+    if (result.state.gamePhase !== 'playing' && state.gamePhase === 'playing') {
+      roundEnders.push(state.roundEndingPlayer ?? state.currentPlayerIndex);
+    }
+    events.push(...result.events);
+    state = result.state;
+  }
+  return null;
+}
+
+// Play `games` games and total up how each strategy did
+export function runSimulation(options: SimulationOptions): SimulationReport {
+  const { strategies, games, rounds = 9, seed = createSeed() } = options;
+  if (strategies.length < 2 || strategies.length > 4) {
+    throw new Error("A simulation needs between two and four strategies");
+  }
+
+  const totals = strategies.map(() => ({ wins: 0, score: 0, threeOfAKind: 0, roundsEnded: 0 }));
+  let played = 0;
+  let stalled = 0;
+  let roundsPlayed = 0;
+  let turns = 0;
+
+  for (let game = 0; game < games; game++) {
+    // Strategy s sits in seat (s + game) % n
+    const seatOf = (strategy: number) => (strategy + game) % strategies.length;
+    const seated = strategies.map((_, seat) => strategies[(seat + strategies.length - game % strategies.length) % strategies.length]);
+    const result = simulateGame(seated, rounds, (seed + game) >>> 0);
+    if (!result) {
+      stalled++;
+      continue;
+    }
+
+    played++;
+    roundsPlayed += result.state.currentRound;
+    turns += result.turns;
+
+    const lowest = Math.min(...result.state.players.map(player => player.totalScore));
+    const winners = result.state.players.filter(player => player.totalScore === lowest).length;
+    totals.forEach((total, strategy) => {
+      const seat = seatOf(strategy);
+      const player = result.state.players[seat];
+      total.score += player.totalScore;
+      if (player.totalScore === lowest) total.wins += 1 / winners;
+      total.threeOfAKind += result.events.reduce((sum, event) =>
+        event.type === 'THREE_OF_A_KIND' && event.playerIndex === seat ? sum + event.columns : sum, 0);
+      total.roundsEnded += result.roundEnders.filter(ender => ender === seat).length;
+    });
+  }
+
+  const perGame = (value: number) => played > 0 ? value / played : 0;
+  const perRound = (value: number) => roundsPlayed > 0 ? value / roundsPlayed : 0;
+  return {
+    games: played,
+    stalledGames: stalled,
+    averageRounds: perGame(roundsPlayed),
+    averageTurnsPerRound: perRound(turns),
+    averageTurnsPerGame: perGame(turns),
+    strategies: strategies.map((strategy, index) => ({
+      label: describeStrategy(strategy),
+      wins: totals[index].wins,
+      winRate: perGame(totals[index].wins),
+      averageGameScore: perGame(totals[index].score),
+      averageRoundScore: perRound(totals[index].score),
+      threeOfAKindPerRound: perRound(totals[index].threeOfAKind),
+      roundsEnded: totals[index].roundsEnded,
+    })),
+  };
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import { STAKE_BRACKETS, type StakeBracket } from "@shared/schema";
+import { initializeGame } from "@shared/gameLogic";
+import type { GameState } from "@shared/gameTypes";
+import { calculateStakePayouts } from "./stakes";
+import { storage } from "./storage";
+
+beforeAll(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+// A finished online game whose players ended on these totals
+function finishedGame(totals: number[]): GameState {
+  const game = initializeGame({ mode: 'online', playerCount: totals.length as 2 | 3 | 4, rounds: 5 }, 1);
+  game.players = game.players.map((player, index) => ({ ...player, id: `player-${index}`, isAI: false, totalScore: totals[index] }));
+  game.gamePhase = 'game-end';
+  return game;
+}
+
+const finishes = [[10, 20], [10, 10], [10, 20, 30], [10, 20, 20], [10, 10, 30], [10, 20, 30, 40], [10, 10, 10, 10], [10, 20, 20, 40]];
+
+describe("calculateStakePayouts", () => {
+  it("never pays out more than the entry fees in escrow", () => {
+    for (const bracket of Object.keys(STAKE_BRACKETS) as StakeBracket[]) {
+      for (const totals of finishes) {
+        const game = finishedGame(totals);
+        const seatedIds = game.players.map(player => player.id);
+        const pot = STAKE_BRACKETS[bracket].entryFee * totals.length;
+
+        const paid = calculateStakePayouts(bracket, game, seatedIds, pot).reduce((sum, payout) => sum + payout.amount, 0);
+        expect(paid, `${bracket} ${totals}`).toBeLessThanOrEqual(pot);
+      }
+    }
+  });
+
+  it("pays the full prize when the pot covers it and scales it down when it doesn't", () => {
+    const fourPlayers = finishedGame([10, 20, 30, 40]);
+    expect(calculateStakePayouts('high', fourPlayers, fourPlayers.players.map(player => player.id), 400)).toEqual([
+      { userId: 'player-0', amount: 300 },
+      { userId: 'player-1', amount: 100 },
+    ]);
+
+    const twoPlayers = finishedGame([10, 20]);
+    expect(calculateStakePayouts('premium', twoPlayers, twoPlayers.players.map(player => player.id), 1000)).toEqual([
+      { userId: 'player-0', amount: 1000 },
+    ]);
+  });
+
+  it("pays nothing from an empty pot", () => {
+    const game = finishedGame([10, 20, 30]);
+    expect(calculateStakePayouts('medium', game, game.players.map(player => player.id), 0)).toEqual([]);
+  });
+});
+
+describe("payoutStakeEscrow", () => {
+  it("refuses payouts larger than the escrow and pays nobody", async () => {
+    await storage.upsertUser({ id: "escrow-winner", firstName: "Winner" });
+    const room = await storage.createGameRoom({ code: "ESCROW1", hostId: "escrow-winner", players: [], stakeBracket: "high" });
+    await storage.escrowStakeEntry(room.id, "escrow-winner", 100);
+    const before = (await storage.getUser("escrow-winner"))!.currency;
+
+    expect(await storage.payoutStakeEscrow(room.id, [{ userId: "escrow-winner", amount: 300 }])).toBe(false);
+    expect((await storage.getUser("escrow-winner"))!.currency).toBe(before);
+    expect((await storage.getGameRoom("ESCROW1"))!.escrow).toBe(100);
+
+    expect(await storage.payoutStakeEscrow(room.id, [{ userId: "escrow-winner", amount: 100 }])).toBe(true);
+    expect((await storage.getUser("escrow-winner"))!.currency).toBe(before + 100);
+    expect((await storage.getGameRoom("ESCROW1"))!.escrow).toBe(0);
+  });
+
+  it("refunds what the winners don't take to everyone who paid in", async () => {
+    await storage.upsertUser({ id: "escrow-first", firstName: "First" });
+    await storage.upsertUser({ id: "escrow-last", firstName: "Last" });
+    const room = await storage.createGameRoom({ code: "ESCROW3", hostId: "escrow-first", players: [], stakeBracket: "low" });
+    await storage.escrowStakeEntry(room.id, "escrow-first", 10);
+    await storage.escrowStakeEntry(room.id, "escrow-last", 10);
+    const first = (await storage.getUser("escrow-first"))!.currency;
+    const last = (await storage.getUser("escrow-last"))!.currency;
+
+    expect(await storage.payoutStakeEscrow(room.id, [{ userId: "escrow-first", amount: 15 }])).toBe(true);
+
+    // The 5 left over splits evenly, with the odd coin to the first to pay in
+    expect((await storage.getUser("escrow-first"))!.currency).toBe(first + 15 + 3);
+    expect((await storage.getUser("escrow-last"))!.currency).toBe(last + 2);
+    expect((await storage.getGameRoom("ESCROW3"))!.escrow).toBe(0);
+    expect((await storage.getUserTransactions("escrow-last"))[0]).toMatchObject({ delta: 2, reason: "stake_refund", referenceId: room.id });
+  });
+});
+
+describe("deleteGameRoom", () => {
+  it("hands back what is still in escrow before the room goes", async () => {
+    await storage.upsertUser({ id: "escrow-host", firstName: "Host" });
+    await storage.upsertUser({ id: "escrow-guest", firstName: "Guest" });
+    const room = await storage.createGameRoom({ code: "ESCROW2", hostId: "escrow-host", players: [], stakeBracket: "low" });
+    await storage.escrowStakeEntry(room.id, "escrow-host", 10);
+    await storage.escrowStakeEntry(room.id, "escrow-guest", 10);
+    await storage.refundStakeEntry(room.id, "escrow-guest", 10);
+    const host = (await storage.getUser("escrow-host"))!.currency;
+    const guest = (await storage.getUser("escrow-guest"))!.currency;
+
+    await storage.deleteGameRoom("ESCROW2");
+
+    expect(await storage.getGameRoom("ESCROW2")).toBeUndefined();
+    expect((await storage.getUser("escrow-host"))!.currency).toBe(host + 10);
+    expect((await storage.getUser("escrow-guest"))!.currency).toBe(guest);
+    expect((await storage.getUserTransactions("escrow-host"))[0]).toMatchObject({ delta: 10, reason: "stake_refund", referenceId: room.id });
+  });
+});
@@ -0,0 +1,55 @@
+import { STAKE_BRACKETS, type StakeBracket, type GameRoom } from "@shared/schema";
+import type { GameState } from "@shared/gameTypes";
+import { storage, type StakePayout } from "./storage";
+import { getPlacement } from "./gameResults";
+
+export function getEntryFee(stakeBracket: string | null | undefined): number {
+  const bracket = STAKE_BRACKETS[(stakeBracket || 'free') as StakeBracket];
+  return bracket ? bracket.entryFee : 0;
+}
+
+// Payouts by placement: first place wins entryFee × winMultiplier (split evenly
+// on a tie), and at tables of three or more second place gets their entry back.
+// Only players still seated when the room finishes are paid, and only from the
+// pot of escrowed entry fees: when it can't cover those shares, every share is
+// scaled down to fit it. Whatever the shares leave in the pot is refunded by
+// storage.payoutStakeEscrow.
+export function calculateStakePayouts(stakeBracket: string | null | undefined, game: GameState, seatedIds: string[], pot: number): StakePayout[] {
+  const bracket = STAKE_BRACKETS[(stakeBracket || 'free') as StakeBracket];
+  if (!bracket || bracket.entryFee === 0) return [];
+
+  const placements = game.players
+    .map((player, index) => ({ userId: player.id, placement: getPlacement(game, index) }))
+    .filter(entry => seatedIds.includes(entry.userId));
+
+  const winners = placements.filter(entry => entry.placement === 1);
+  const prize = Math.floor((bracket.entryFee * bracket.winMultiplier) / Math.max(1, winners.length));
+
+  const shares = placements.map(entry => {
+    if (entry.placement === 1) return { userId: entry.userId, amount: prize };
+    if (entry.placement === 2 && game.players.length >= 3) return { userId: entry.userId, amount: bracket.entryFee };
+    return { userId: entry.userId, amount: 0 };
+  });
+
+  const total = shares.reduce((sum, share) => sum + share.amount, 0);
+  const scale = total > pot ? Math.max(0, pot) / total : 1;
+  return shares
+    .map(share => ({ userId: share.userId, amount: Math.floor(share.amount * scale) }))
+    .filter(payout => payout.amount > 0);
+}
+
+// Release a finished room's escrow to its winners; what they don't win goes
+// back to the players who paid it in
+export async function settleRoomStakes(room: GameRoom, game: GameState): Promise<StakePayout[]> {
+  const seatedIds = ((room.players as any[]) || []).map(player => player.id);
+  const payouts = calculateStakePayouts(room.stakeBracket, game, seatedIds, room.escrow);
+
+  if (room.escrow > 0) {
+    if (!(await storage.payoutStakeEscrow(room.id, payouts))) {
+      console.error(`[STAKE_PAYOUT] roomId=${room.code}, payouts exceed the escrow of ${room.escrow}, nothing paid`);
+      return [];
+    }
+    console.log(`[STAKE_PAYOUT] roomId=${room.code}, payouts=${payouts.map(p => `${p.userId}:${p.amount}`).join(',')}`);
+  }
+  return payouts;
+}
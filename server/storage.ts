@@ -8,6 +8,11 @@ import {
   userCosmetics,
   userSettings,
   gameRooms,
+  stakeLedger,
+  currencyTransactions,
+  friendships,
+  roomChatMessages,
+  CHAT_HISTORY_LIMIT,
   type User,
   type UpsertUser,
   type GameStats,
@@ -26,9 +31,17 @@ import {
   type UpdateUserSettings,
   type InsertGameRoom,
   type StakeBracket,
+  type CurrencyTransaction,
+  type CurrencyTransactionReason,
+  type StakeLedgerEntry,
+  type Friendship,
+  type RoomChatMessage,
+  type InsertRoomChatMessage,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, sql, and, gt, lt, ne } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { db, usesMemoryStorage } from "./db";
+import { achievementData, cosmeticData } from "./seedData";
+import { eq, desc, sql, and, or, gt, lt } from "drizzle-orm";
 
 // Interface for storage operations
 export interface IStorage {
@@ -39,12 +52,15 @@ export interface IStorage {
   // Game progression operations
   getUserStats(userId: string): Promise<GameStats | undefined>;
   updateUserStats(userId: string, stats: Partial<InsertGameStats>): Promise<GameStats>;
-  addGameToHistory(gameData: InsertGameHistory): Promise<GameHistory>;
+  // Resolves to undefined if this game is already recorded for the user
+  addGameToHistory(gameData: InsertGameHistory): Promise<GameHistory | undefined>;
   getUserGameHistory(userId: string, limit?: number): Promise<GameHistory[]>;
+  getGameHistoryEntry(userId: string, gameId: string): Promise<GameHistory | undefined>;
   
   // Achievement operations
   getUserAchievements(userId: string): Promise<UserAchievement[]>;
-  unlockAchievement(data: InsertUserAchievement): Promise<UserAchievement>;
+  // Resolves to undefined if the player already has this achievement
+  unlockAchievement(data: InsertUserAchievement): Promise<UserAchievement | undefined>;
   getAllAchievements(): Promise<Achievement[]>;
   
   // Cosmetic operations
@@ -54,21 +70,131 @@ export interface IStorage {
   getAllCosmetics(): Promise<Cosmetic[]>;
   
   // Currency and XP operations
-  addCurrency(userId: string, amount: number): Promise<User>;
-  spendCurrency(userId: string, amount: number): Promise<User>;
+  addCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User>;
+  spendCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User>;
+  getUserTransactions(userId: string, limit?: number): Promise<CurrencyTransaction[]>;
   addExperience(userId: string, amount: number): Promise<User>;
   
   // Settings operations
   getUserSettings(userId: string): Promise<UserSettings | undefined>;
   upsertUserSettings(userId: string, settings: UpdateUserSettings): Promise<UserSettings>;
   
+  // Friend operations (a friendship row covers both directions)
+  getFriendships(userId: string): Promise<Friendship[]>;
+  getFriendship(userId: string, otherUserId: string): Promise<Friendship | undefined>;
+  createFriendRequest(requesterId: string, addresseeId: string): Promise<Friendship>;
+  // Resolves to undefined unless the request is still pending
+  acceptFriendRequest(id: string): Promise<Friendship | undefined>;
+  deleteFriendship(id: string): Promise<void>;
+  
   // Game room operations
-  createGameRoom(room: InsertGameRoom): Promise<GameRoom>;
+  createGameRoom(room: InsertGameRoom & { status?: string; gameState?: any }): Promise<GameRoom>;
   getGameRoom(code: string): Promise<GameRoom | undefined>;
-  updateGameRoom(code: string, updates: Partial<GameRoom>): Promise<GameRoom | undefined>;
+  // Compare-and-swap: only applies if the room is still at expectedVersion, then bumps it.
+  // Resolves to undefined when another write got there first.
+  updateGameRoom(code: string, expectedVersion: bigint, updates: RoomUpdates): Promise<GameRoom | undefined>;
+  // Whatever is still in the room's escrow goes back to the players who paid it
+  // in, in the same transaction as the delete
   deleteGameRoom(code: string): Promise<void>;
   getActiveRoomsByStake(stakeBracket: StakeBracket): Promise<GameRoom[]>;
   getAllActiveRooms(): Promise<GameRoom[]>;
+  
+  // Room chat (oldest first, trimmed to CHAT_HISTORY_LIMIT per room; deleting a room drops it)
+  addChatMessage(message: InsertRoomChatMessage): Promise<RoomChatMessage>;
+  getChatMessages(roomCode: string): Promise<RoomChatMessage[]>;
+  
+  // Stake escrow operations (each call is a single transaction with its ledger rows)
+  escrowStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined>;
+  refundStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined>;
+  // Pays the winners, then refunds whatever is left of the escrow to the players
+  // who paid it in. Resolves to false, paying nobody, if the payouts add up to
+  // more than the escrow.
+  payoutStakeEscrow(roomId: string, payouts: StakePayout[]): Promise<boolean>;
+}
+
+export type RoomUpdates = Partial<Pick<GameRoom, 'players' | 'gameState' | 'status' | 'hostId'>>;
+
+export interface StakePayout {
+  userId: string;
+  amount: number;
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Split what is left in a room's escrow back over the players who paid into it,
+// in proportion to what each still has in it (entries less refunds). Coins the
+// split can't divide evenly go one apiece to the first of them.
+function splitEscrow(escrow: number, ledger: Pick<StakeLedgerEntry, 'userId' | 'type' | 'amount'>[]): StakePayout[] {
+  const stakes = new Map<string, number>();
+  for (const row of ledger) {
+    if (row.type === 'entry' || row.type === 'refund') {
+      stakes.set(row.userId, (stakes.get(row.userId) ?? 0) - row.amount);
+    }
+  }
+  const holders = Array.from(stakes, ([userId, amount]) => ({ userId, amount })).filter(stake => stake.amount > 0);
+  const staked = holders.reduce((sum, stake) => sum + stake.amount, 0);
+  if (escrow <= 0 || staked === 0) return [];
+  
+  const refunds = holders.map(stake => ({ userId: stake.userId, amount: Math.floor(escrow * stake.amount / staked) }));
+  let left = escrow - refunds.reduce((sum, refund) => sum + refund.amount, 0);
+  for (let i = 0; left > 0; i = (i + 1) % refunds.length, left--) {
+    refunds[i].amount++;
+  }
+  return refunds.filter(refund => refund.amount > 0);
+}
+
+// Additional filtering per Active Room definition, applied after the
+// storage-level query (active, matching stake, not full, still waiting to start)
+async function filterActiveRooms(rooms: GameRoom[], deleteRoom: (code: string) => Promise<void>): Promise<GameRoom[]> {
+  // Active Rooms = Tables with Open Seats
+  const validRooms: GameRoom[] = [];
+  const GRACE_PERIOD_MS = 30000; // 30 seconds
+  const now = Date.now();
+  
+  for (const room of rooms) {
+    const players = room.players as any[];
+    
+    // Count only active seats (connected or within grace period)
+    const activeSeats = players.filter(player => {
+      if (player.connected) return true;
+      if (player.lastSeen) {
+        const lastSeenTime = new Date(player.lastSeen).getTime();
+        return (now - lastSeenTime) < GRACE_PERIOD_MS;
+      }
+      return false;
+    }).length;
+    
+    // Delete rooms with zero active seats immediately; a game in progress
+    // plays on with bots in the empty seats, so it is never pruned here
+    if (activeSeats === 0 && room.status === 'inGame_waiting') {
+      await deleteRoom(room.code);
+      console.log(`[Active Rooms] Deleted empty room ${room.code} (no active seats)`);
+      continue;
+    }
+    
+    // Active Room criteria:
+    // 1. activeSeats ≥ 1 (at least one active player)
+    const hasActivePlayers = activeSeats >= 1;
+    
+    // 2. seatsOpen > 0 (MUST have open seats - not full)
+    const maxPlayers = room.maxPlayers || 4;
+    const seatsOpen = maxPlayers - activeSeats; // Count open seats based on active players
+    const hasOpenSeats = seatsOpen > 0;
+    
+    // 3. visibility allows listing (default to public if not set); callers
+    // narrow friends-only rooms down to the host's friends
+    const visibility = room.visibility || 'public';
+    const isListable = visibility !== 'private';
+    
+    // Only show tables with active players and open seats
+    if (hasActivePlayers && hasOpenSeats && isListable) {
+      // Update player count to reflect only active seats
+      room.playerCount = activeSeats;
+      validRooms.push(room);
+    }
+  }
+  
+  return validRooms;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -139,10 +265,11 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async addGameToHistory(gameData: InsertGameHistory): Promise<GameHistory> {
+  async addGameToHistory(gameData: InsertGameHistory): Promise<GameHistory | undefined> {
     const [history] = await db
       .insert(gameHistory)
       .values(gameData)
+      .onConflictDoNothing({ target: [gameHistory.userId, gameHistory.gameId] })
       .returning();
     return history;
   }
@@ -156,6 +283,14 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getGameHistoryEntry(userId: string, gameId: string): Promise<GameHistory | undefined> {
+    const [entry] = await db
+      .select()
+      .from(gameHistory)
+      .where(and(eq(gameHistory.userId, userId), eq(gameHistory.gameId, gameId)));
+    return entry;
+  }
+
   // Achievement operations
   async getUserAchievements(userId: string): Promise<UserAchievement[]> {
     return await db
@@ -164,10 +299,11 @@ export class DatabaseStorage implements IStorage {
       .where(eq(userAchievements.userId, userId));
   }
 
-  async unlockAchievement(data: InsertUserAchievement): Promise<UserAchievement> {
+  async unlockAchievement(data: InsertUserAchievement): Promise<UserAchievement | undefined> {
     const [achievement] = await db
       .insert(userAchievements)
       .values(data)
+      .onConflictDoNothing({ target: [userAchievements.userId, userAchievements.achievementId] })
       .returning();
     return achievement;
   }
@@ -221,28 +357,61 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Currency and XP operations
-  async addCurrency(userId: string, amount: number): Promise<User> {
-    const [user] = await db
+  // Every balance change goes through here so it is always recorded in the ledger.
+  // With requireFunds set, a change that would leave the balance negative is skipped.
+  private async changeBalance(
+    tx: DbTransaction,
+    userId: string,
+    delta: number,
+    reason: CurrencyTransactionReason,
+    referenceId?: string,
+    requireFunds = false
+  ): Promise<User | undefined> {
+    const [user] = await tx
       .update(users)
       .set({ 
-        currency: sql`${users.currency} + ${amount}`,
+        currency: sql`${users.currency} + ${delta}`,
         updatedAt: new Date() 
       })
-      .where(eq(users.id, userId))
+      .where(requireFunds 
+        ? and(eq(users.id, userId), sql`${users.currency} + ${delta} >= 0`) 
+        : eq(users.id, userId))
       .returning();
+    if (!user) return undefined;
+    
+    await tx.insert(currencyTransactions).values({
+      userId,
+      delta,
+      reason,
+      referenceId: referenceId ?? null,
+      balanceAfter: user.currency ?? 0
+    });
     return user;
   }
 
-  async spendCurrency(userId: string, amount: number): Promise<User> {
-    const [user] = await db
-      .update(users)
-      .set({ 
-        currency: sql`${users.currency} - ${amount}`,
-        updatedAt: new Date() 
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return user;
+  async addCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const user = await this.changeBalance(tx, userId, amount, reason, referenceId);
+      if (!user) throw new Error('User not found');
+      return user;
+    });
+  }
+
+  async spendCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const user = await this.changeBalance(tx, userId, -amount, reason, referenceId);
+      if (!user) throw new Error('User not found');
+      return user;
+    });
+  }
+
+  async getUserTransactions(userId: string, limit = 20): Promise<CurrencyTransaction[]> {
+    return await db
+      .select()
+      .from(currencyTransactions)
+      .where(eq(currencyTransactions.userId, userId))
+      .orderBy(desc(currencyTransactions.createdAt))
+      .limit(limit);
   }
 
   async addExperience(userId: string, amount: number): Promise<User> {
@@ -285,6 +454,47 @@ export class DatabaseStorage implements IStorage {
     return settings;
   }
 
+  // Friend operations
+  async getFriendships(userId: string): Promise<Friendship[]> {
+    return await db
+      .select()
+      .from(friendships)
+      .where(or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)))
+      .orderBy(desc(friendships.createdAt));
+  }
+
+  async getFriendship(userId: string, otherUserId: string): Promise<Friendship | undefined> {
+    const [friendship] = await db
+      .select()
+      .from(friendships)
+      .where(or(
+        and(eq(friendships.requesterId, userId), eq(friendships.addresseeId, otherUserId)),
+        and(eq(friendships.requesterId, otherUserId), eq(friendships.addresseeId, userId))
+      ));
+    return friendship;
+  }
+
+  async createFriendRequest(requesterId: string, addresseeId: string): Promise<Friendship> {
+    const [friendship] = await db
+      .insert(friendships)
+      .values({ requesterId, addresseeId })
+      .returning();
+    return friendship;
+  }
+
+  async acceptFriendRequest(id: string): Promise<Friendship | undefined> {
+    const [friendship] = await db
+      .update(friendships)
+      .set({ status: 'accepted', acceptedAt: new Date() })
+      .where(and(eq(friendships.id, id), eq(friendships.status, 'pending')))
+      .returning();
+    return friendship;
+  }
+
+  async deleteFriendship(id: string): Promise<void> {
+    await db.delete(friendships).where(eq(friendships.id, id));
+  }
+
   // Game room operations
   async createGameRoom(roomData: InsertGameRoom & { status?: string; gameState?: any }): Promise<GameRoom> {
     // Calculate player count from players array
@@ -294,14 +504,14 @@ export class DatabaseStorage implements IStorage {
     const defaultSettings = {
       rounds: 9,
       playerCount: 4,
-      ...(roomData.settings ? roomData.settings : {})
+      ...(roomData.settings ? roomData.settings as object : {})
     };
     
     // Extract maxPlayers from settings or use default
     const maxPlayers = defaultSettings.playerCount || 4;
     
     // Use raw SQL to ensure all fields are properly set
-    const result = await db.execute(sql`
+    await db.execute(sql`
       INSERT INTO game_rooms (
         code, 
         host_id, 
@@ -311,6 +521,7 @@ export class DatabaseStorage implements IStorage {
         player_count, 
         status, 
         visibility, 
+        passphrase_hash,
         max_players,
         version,
         game_state
@@ -323,15 +534,18 @@ export class DatabaseStorage implements IStorage {
         ${roomData.stakeBracket || 'free'},
         ${playerCount},
         ${roomData.status || 'room'},
-        'public',
+        ${roomData.visibility || 'public'},
+        ${roomData.passphraseHash ?? null},
         ${maxPlayers},
         1,
         ${roomData.gameState ? JSON.stringify(roomData.gameState) : null}::jsonb
       )
-      RETURNING *
     `);
     
-    return result.rows[0] as GameRoom;
+    // Read back through drizzle so columns come back camelCased (raw rows would
+    // carry passphrase_hash past the serializer)
+    const [room] = await db.select().from(gameRooms).where(eq(gameRooms.code, roomData.code));
+    return room;
   }
 
   async getGameRoom(code: string): Promise<GameRoom | undefined> {
@@ -339,23 +553,21 @@ export class DatabaseStorage implements IStorage {
     return room;
   }
 
-  async updateGameRoom(code: string, updates: Partial<GameRoom>): Promise<GameRoom | undefined> {
+  async updateGameRoom(code: string, expectedVersion: bigint, updates: RoomUpdates): Promise<GameRoom | undefined> {
     // Use drizzle's update builder instead of raw SQL for safety
-    const updateData: any = {};
+    const updateData: any = {
+      version: expectedVersion + BigInt(1)
+    };
     
     if (updates.players !== undefined) {
       updateData.players = updates.players;
-      updateData.playerCount = updates.players.length;
+      updateData.playerCount = Array.isArray(updates.players) ? updates.players.length : 0;
     }
     
     if (updates.gameState !== undefined) {
       updateData.gameState = updates.gameState;
     }
     
-    if (updates.version !== undefined) {
-      updateData.version = updates.version.toString();
-    }
-    
     if (updates.status !== undefined) {
       updateData.status = updates.status;
     }
@@ -364,25 +576,28 @@ export class DatabaseStorage implements IStorage {
       updateData.hostId = updates.hostId;
     }
     
-    if (Object.keys(updateData).length === 0) {
-      // Nothing to update
-      return await this.getGameRoom(code);
-    }
-    
     const [result] = await db
       .update(gameRooms)
       .set(updateData)
-      .where(eq(gameRooms.code, code))
+      .where(and(eq(gameRooms.code, code), eq(gameRooms.version, expectedVersion)))
       .returning();
-    return result as GameRoom;
+    return result as GameRoom | undefined;
   }
 
   async deleteGameRoom(code: string): Promise<void> {
-    // Delete with CASCADE to handle foreign key constraints
-    await db.execute(sql`
-      DELETE FROM game_rooms 
-      WHERE code = ${code}
-    `);
+    await db.transaction(async (tx) => {
+      const [room] = await tx.select().from(gameRooms).where(eq(gameRooms.code, code)).for('update');
+      if (room) {
+        await this.refundEscrow(tx, room);
+      }
+      
+      // Delete with CASCADE to handle foreign key constraints
+      await tx.execute(sql`
+        DELETE FROM game_rooms 
+        WHERE code = ${code}
+      `);
+      await tx.delete(roomChatMessages).where(eq(roomChatMessages.roomCode, code));
+    });
   }
 
   async getActiveRoomsByStake(stakeBracket: StakeBracket): Promise<GameRoom[]> {
@@ -395,67 +610,617 @@ export class DatabaseStorage implements IStorage {
           eq(gameRooms.stakeBracket, stakeBracket),
           gt(gameRooms.playerCount, 0), // Must have at least one player
           lt(gameRooms.playerCount, gameRooms.maxPlayers), // Must have open seats (not full)
-          ne(gameRooms.status, 'finished') // Not finished games
+          eq(gameRooms.status, 'inGame_waiting') // Not started yet
         )
       );
     
-    // Additional filtering per Active Room definition
-    // Active Rooms = Tables with Open Seats
-    const validRooms: GameRoom[] = [];
-    const GRACE_PERIOD_MS = 30000; // 30 seconds
-    const now = Date.now();
-    
-    for (const room of rooms) {
-      const players = room.players as any[];
+    return await filterActiveRooms(rooms, (code) => this.deleteGameRoom(code));
+  }
+
+  async getAllActiveRooms(): Promise<GameRoom[]> {
+    const rooms = await db
+      .select()
+      .from(gameRooms)
+      .where(eq(gameRooms.isActive, true));
+    return rooms;
+  }
+
+  // Room chat
+  async addChatMessage(message: InsertRoomChatMessage): Promise<RoomChatMessage> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx.insert(roomChatMessages).values(message).returning();
       
-      // Count only active seats (connected or within grace period)
-      const activeSeats = players.filter(player => {
-        if (player.connected) return true;
-        if (player.lastSeen) {
-          const lastSeenTime = new Date(player.lastSeen).getTime();
-          return (now - lastSeenTime) < GRACE_PERIOD_MS;
-        }
-        return false;
-      }).length;
+      // Drop whatever fell off the end of the room's history
+      await tx.execute(sql`
+        DELETE FROM room_chat_messages
+        WHERE room_code = ${message.roomCode}
+          AND id NOT IN (
+            SELECT id FROM room_chat_messages
+            WHERE room_code = ${message.roomCode}
+            ORDER BY created_at DESC
+            LIMIT ${CHAT_HISTORY_LIMIT}
+          )
+      `);
+      return saved;
+    });
+  }
+
+  async getChatMessages(roomCode: string): Promise<RoomChatMessage[]> {
+    const messages = await db
+      .select()
+      .from(roomChatMessages)
+      .where(eq(roomChatMessages.roomCode, roomCode))
+      .orderBy(desc(roomChatMessages.createdAt))
+      .limit(CHAT_HISTORY_LIMIT);
+    return messages.reverse();
+  }
+
+  // Stake escrow operations
+  async escrowStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      // Only deduct if the balance covers the fee
+      const user = await this.changeBalance(tx, userId, -amount, 'stake_entry', roomId, true);
+      if (!user) return undefined;
       
-      // Delete rooms with zero active seats immediately
-      if (activeSeats === 0) {
-        await this.deleteGameRoom(room.code);
-        console.log(`[Active Rooms] Deleted empty room ${room.code} (no active seats)`);
-        continue;
-      }
+      const [room] = await tx
+        .update(gameRooms)
+        .set({ escrow: sql`${gameRooms.escrow} + ${amount}` })
+        .where(eq(gameRooms.id, roomId))
+        .returning();
       
-      // Active Room criteria:
-      // 1. activeSeats ≥ 1 (at least one active player)
-      const hasActivePlayers = activeSeats >= 1;
+      await tx.insert(stakeLedger).values({
+        roomId,
+        userId,
+        type: 'entry',
+        amount: -amount,
+        escrowAfter: room.escrow
+      });
+      return user;
+    });
+  }
+
+  async refundStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [room] = await tx
+        .update(gameRooms)
+        .set({ escrow: sql`${gameRooms.escrow} - ${amount}` })
+        .where(and(eq(gameRooms.id, roomId), sql`${gameRooms.escrow} >= ${amount}`))
+        .returning();
+      if (!room) return undefined;
       
-      // 2. seatsOpen > 0 (MUST have open seats - not full)
-      const maxPlayers = room.maxPlayers || 4;
-      const seatsOpen = maxPlayers - activeSeats; // Count open seats based on active players
-      const hasOpenSeats = seatsOpen > 0;
+      const user = await this.changeBalance(tx, userId, amount, 'stake_refund', roomId);
       
-      // 3. visibility allows listing (default to public if not set)
-      const visibility = room.visibility || 'public';
-      const isListable = visibility === 'public';
+      await tx.insert(stakeLedger).values({
+        roomId,
+        userId,
+        type: 'refund',
+        amount,
+        escrowAfter: room.escrow
+      });
+      return user;
+    });
+  }
+
+  async payoutStakeEscrow(roomId: string, payouts: StakePayout[]): Promise<boolean> {
+    const paid = payouts.filter(payout => payout.amount > 0);
+    const total = paid.reduce((sum, payout) => sum + payout.amount, 0);
+    
+    return await db.transaction(async (tx) => {
+      // Payouts only ever come out of the escrow; anything left after them goes
+      // back to the players who paid in
+      const [room] = await tx
+        .update(gameRooms)
+        .set({ escrow: sql`${gameRooms.escrow} - ${total}` })
+        .where(and(eq(gameRooms.id, roomId), sql`${gameRooms.escrow} >= ${total}`))
+        .returning();
+      if (!room) return false;
       
-      // Only show tables with active players and open seats
-      if (hasActivePlayers && hasOpenSeats && isListable) {
-        // Update player count to reflect only active seats
-        room.playerCount = activeSeats;
-        validRooms.push(room);
+      let escrowAfter = room.escrow + total;
+      for (const payout of paid) {
+        await this.changeBalance(tx, payout.userId, payout.amount, 'stake_payout', roomId);
+        
+        escrowAfter -= payout.amount;
+        await tx.insert(stakeLedger).values({
+          roomId,
+          userId: payout.userId,
+          type: 'payout',
+          amount: payout.amount,
+          escrowAfter
+        });
+      }
+      await this.refundEscrow(tx, room);
+      return true;
+    });
+  }
+
+  // Empty the (locked) room's remaining escrow back to the players who paid into it
+  private async refundEscrow(tx: DbTransaction, room: GameRoom): Promise<void> {
+    const ledger = await tx.select().from(stakeLedger).where(eq(stakeLedger.roomId, room.id));
+    const refunds = splitEscrow(room.escrow, ledger);
+    if (refunds.length === 0) return;
+    
+    const total = refunds.reduce((sum, refund) => sum + refund.amount, 0);
+    await tx
+      .update(gameRooms)
+      .set({ escrow: sql`${gameRooms.escrow} - ${total}` })
+      .where(eq(gameRooms.id, room.id));
+    
+    let escrowAfter = room.escrow;
+    for (const refund of refunds) {
+      await this.changeBalance(tx, refund.userId, refund.amount, 'stake_refund', room.id);
+      
+      escrowAfter -= refund.amount;
+      await tx.insert(stakeLedger).values({
+        roomId: room.id,
+        userId: refund.userId,
+        type: 'refund',
+        amount: refund.amount,
+        escrowAfter
+      });
+    }
+  }
+}
+
+// In-memory implementation for tests and running without Postgres (STORAGE=memory).
+// It mirrors DatabaseStorage's semantics, including the version check on room
+// writes and the ledger rows behind every balance change. Rows are cloned on the
+// way in and out so callers can't mutate stored state without a write.
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private stats = new Map<string, GameStats>();
+  private history: GameHistory[] = [];
+  private achievements = new Map<string, Achievement>();
+  private userAchievements: UserAchievement[] = [];
+  private cosmetics = new Map<string, Cosmetic>();
+  private userCosmetics: UserCosmetic[] = [];
+  private settings = new Map<string, UserSettings>();
+  private rooms = new Map<string, GameRoom>();
+  private transactions: CurrencyTransaction[] = [];
+  private stakeLedger: StakeLedgerEntry[] = [];
+  private friendships: Friendship[] = [];
+  private chat = new Map<string, RoomChatMessage[]>(); // roomCode -> history, oldest first
+
+  constructor(catalog: { achievements?: Achievement[]; cosmetics?: Cosmetic[] } = {}) {
+    (catalog.achievements ?? achievementData).forEach(a => this.achievements.set(a.id, { ...a }));
+    (catalog.cosmetics ?? cosmeticData).forEach(c => this.cosmetics.set(c.id, { ...c }));
+  }
+
+  // User operations (required for Replit Auth)
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && structuredClone(user);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const id = userData.id ?? randomUUID();
+    const existing = this.users.get(id);
+    const now = new Date();
+    const user: User = existing
+      ? { ...existing, ...userData, id, updatedAt: now }
+      : {
+          id,
+          email: userData.email ?? null,
+          firstName: userData.firstName ?? null,
+          lastName: userData.lastName ?? null,
+          profileImageUrl: userData.profileImageUrl ?? null,
+          level: 1,
+          experience: 0,
+          currency: 100,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.users.set(id, user);
+    
+    // Check if user has default cosmetics, if not, give them
+    if (!this.userCosmetics.some(uc => uc.userId === id)) {
+      for (const cosmetic of Array.from(this.cosmetics.values())) {
+        if (cosmetic.cost === 0) {
+          this.userCosmetics.push({ id: randomUUID(), userId: id, cosmeticId: cosmetic.id, equipped: true, purchasedAt: now });
+        }
+      }
+    }
+    
+    return structuredClone(user);
+  }
+
+  // Game progression operations
+  async getUserStats(userId: string): Promise<GameStats | undefined> {
+    let stats = this.stats.get(userId);
+    if (!stats) {
+      // Create initial stats for new user
+      stats = {
+        id: randomUUID(),
+        userId,
+        gamesPlayed: 0,
+        gamesWon: 0,
+        gamesLost: 0,
+        totalScore: 0,
+        bestScore: null,
+        averageScore: null,
+        currentWinStreak: 0,
+        longestWinStreak: 0,
+        perfectGames: 0,
+        comebackWins: 0,
+        threeOfAKindColumns: 0,
+        updatedAt: new Date(),
+      };
+      this.stats.set(userId, stats);
+    }
+    return structuredClone(stats);
+  }
+
+  async updateUserStats(userId: string, statsUpdate: Partial<InsertGameStats>): Promise<GameStats> {
+    const current = await this.getUserStats(userId);
+    const updated: GameStats = { ...current!, ...statsUpdate, userId, updatedAt: new Date() };
+    this.stats.set(userId, updated);
+    return structuredClone(updated);
+  }
+
+  async addGameToHistory(gameData: InsertGameHistory): Promise<GameHistory | undefined> {
+    // Same guarantee as UQ_game_history_user_game
+    if (gameData.gameId && this.history.some(h => h.userId === gameData.userId && h.gameId === gameData.gameId)) {
+      return undefined;
+    }
+    
+    const entry: GameHistory = {
+      ...gameData,
+      id: randomUUID(),
+      gameId: gameData.gameId ?? null,
+      gameDuration: gameData.gameDuration ?? null,
+      createdAt: new Date(),
+    };
+    this.history.push(entry);
+    return structuredClone(entry);
+  }
+
+  async getUserGameHistory(userId: string, limit = 10): Promise<GameHistory[]> {
+    return newestFirst(this.history.filter(h => h.userId === userId), limit);
+  }
+
+  async getGameHistoryEntry(userId: string, gameId: string): Promise<GameHistory | undefined> {
+    const entry = this.history.find(h => h.userId === userId && h.gameId === gameId);
+    return entry && structuredClone(entry);
+  }
+
+  // Achievement operations
+  async getUserAchievements(userId: string): Promise<UserAchievement[]> {
+    return structuredClone(this.userAchievements.filter(ua => ua.userId === userId));
+  }
+
+  async unlockAchievement(data: InsertUserAchievement): Promise<UserAchievement | undefined> {
+    if (this.userAchievements.some(ua => ua.userId === data.userId && ua.achievementId === data.achievementId)) {
+      return undefined;
+    }
+    
+    const unlocked: UserAchievement = { ...data, id: randomUUID(), unlockedAt: new Date() };
+    this.userAchievements.push(unlocked);
+    return structuredClone(unlocked);
+  }
+
+  async getAllAchievements(): Promise<Achievement[]> {
+    return structuredClone(Array.from(this.achievements.values()));
+  }
+
+  // Cosmetic operations
+  async getUserCosmetics(userId: string): Promise<UserCosmetic[]> {
+    return structuredClone(this.userCosmetics.filter(uc => uc.userId === userId));
+  }
+
+  async purchaseCosmetic(data: InsertUserCosmetic): Promise<UserCosmetic> {
+    const owned: UserCosmetic = { ...data, id: randomUUID(), equipped: data.equipped ?? false, purchasedAt: new Date() };
+    this.userCosmetics.push(owned);
+    return structuredClone(owned);
+  }
+
+  async equipCosmetic(userId: string, cosmeticId: string): Promise<void> {
+    const cosmetic = this.cosmetics.get(cosmeticId);
+    if (!cosmetic) return;
+    
+    // Unequip everything of the same type, then equip the selected one
+    for (const owned of this.userCosmetics) {
+      if (owned.userId !== userId) continue;
+      if (this.cosmetics.get(owned.cosmeticId)?.type === cosmetic.type) {
+        owned.equipped = false;
       }
+      if (owned.cosmeticId === cosmeticId) {
+        owned.equipped = true;
+      }
+    }
+  }
+
+  async getAllCosmetics(): Promise<Cosmetic[]> {
+    return structuredClone(Array.from(this.cosmetics.values()));
+  }
+
+  // Currency and XP operations
+  // Every balance change goes through here so it is always recorded in the ledger.
+  // With requireFunds set, a change that would leave the balance negative is skipped.
+  private changeBalance(
+    userId: string,
+    delta: number,
+    reason: CurrencyTransactionReason,
+    referenceId?: string,
+    requireFunds = false
+  ): User | undefined {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const balance = (user.currency ?? 0) + delta;
+    if (requireFunds && balance < 0) return undefined;
+    
+    user.currency = balance;
+    user.updatedAt = new Date();
+    this.transactions.push({
+      id: randomUUID(),
+      userId,
+      delta,
+      reason,
+      referenceId: referenceId ?? null,
+      balanceAfter: balance,
+      createdAt: new Date(),
+    });
+    return structuredClone(user);
+  }
+
+  async addCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User> {
+    const user = this.changeBalance(userId, amount, reason, referenceId);
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  async spendCurrency(userId: string, amount: number, reason: CurrencyTransactionReason, referenceId?: string): Promise<User> {
+    const user = this.changeBalance(userId, -amount, reason, referenceId);
+    if (!user) throw new Error('User not found');
+    return user;
+  }
+
+  async getUserTransactions(userId: string, limit = 20): Promise<CurrencyTransaction[]> {
+    return newestFirst(this.transactions.filter(t => t.userId === userId), limit);
+  }
+
+  async addExperience(userId: string, amount: number): Promise<User> {
+    const user = this.users.get(userId);
+    if (!user) throw new Error('User not found');
+    
+    user.experience = (user.experience || 0) + amount;
+    user.level = Math.floor(user.experience / 100) + 1; // Simple level calculation
+    user.updatedAt = new Date();
+    return structuredClone(user);
+  }
+
+  // Settings operations
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const settings = this.settings.get(userId);
+    return settings && structuredClone(settings);
+  }
+
+  async upsertUserSettings(userId: string, settingsData: UpdateUserSettings): Promise<UserSettings> {
+    const settings: UserSettings = {
+      ...(this.settings.get(userId) ?? {
+        id: randomUUID(),
+        userId,
+        soundEnabled: true,
+        musicEnabled: true,
+        soundVolume: 50,
+        musicVolume: 30,
+        reducedMotion: false,
+        highContrast: false,
+        largeText: false,
+        vibrationEnabled: true,
+        autoEndTurn: false,
+        showHints: true,
+        updatedAt: null,
+      }),
+      ...settingsData,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.settings.set(userId, settings);
+    return structuredClone(settings);
+  }
+
+  // Friend operations
+  async getFriendships(userId: string): Promise<Friendship[]> {
+    return structuredClone(this.friendships
+      .filter(f => f.requesterId === userId || f.addresseeId === userId)
+      .reverse());
+  }
+
+  async getFriendship(userId: string, otherUserId: string): Promise<Friendship | undefined> {
+    const friendship = this.friendships.find(f =>
+      (f.requesterId === userId && f.addresseeId === otherUserId) ||
+      (f.requesterId === otherUserId && f.addresseeId === userId));
+    return friendship && structuredClone(friendship);
+  }
+
+  async createFriendRequest(requesterId: string, addresseeId: string): Promise<Friendship> {
+    if (this.friendships.some(f => f.requesterId === requesterId && f.addresseeId === addresseeId)) {
+      throw new Error(`A friend request from ${requesterId} to ${addresseeId} already exists`);
+    }
+    
+    const friendship: Friendship = {
+      id: randomUUID(),
+      requesterId,
+      addresseeId,
+      status: 'pending',
+      createdAt: new Date(),
+      acceptedAt: null,
+    };
+    this.friendships.push(friendship);
+    return structuredClone(friendship);
+  }
+
+  async acceptFriendRequest(id: string): Promise<Friendship | undefined> {
+    const friendship = this.friendships.find(f => f.id === id && f.status === 'pending');
+    if (!friendship) return undefined;
+    
+    friendship.status = 'accepted';
+    friendship.acceptedAt = new Date();
+    return structuredClone(friendship);
+  }
+
+  async deleteFriendship(id: string): Promise<void> {
+    this.friendships = this.friendships.filter(f => f.id !== id);
+  }
+
+  // Game room operations
+  async createGameRoom(roomData: InsertGameRoom & { status?: string; gameState?: any }): Promise<GameRoom> {
+    if (this.rooms.has(roomData.code)) {
+      throw new Error(`Room code ${roomData.code} is already taken`);
     }
     
-    return validRooms;
+    const settings = {
+      rounds: 9,
+      playerCount: 4,
+      ...(roomData.settings ? roomData.settings as object : {})
+    };
+    
+    const room: GameRoom = {
+      id: randomUUID(),
+      code: roomData.code,
+      hostId: roomData.hostId,
+      players: structuredClone(roomData.players),
+      playerCount: Array.isArray(roomData.players) ? roomData.players.length : 1,
+      gameState: roomData.gameState ? structuredClone(roomData.gameState) : null,
+      settings,
+      stakeBracket: roomData.stakeBracket || 'free',
+      status: roomData.status || 'room',
+      visibility: roomData.visibility || 'public',
+      passphraseHash: roomData.passphraseHash ?? null,
+      maxPlayers: settings.playerCount || 4,
+      version: BigInt(1),
+      escrow: 0,
+      createdAt: new Date().toISOString(),
+      isActive: true,
+    };
+    this.rooms.set(room.code, room);
+    return structuredClone(room);
+  }
+
+  async getGameRoom(code: string): Promise<GameRoom | undefined> {
+    const room = this.rooms.get(code);
+    return room && structuredClone(room);
+  }
+
+  async updateGameRoom(code: string, expectedVersion: bigint, updates: RoomUpdates): Promise<GameRoom | undefined> {
+    const room = this.rooms.get(code);
+    if (!room || room.version !== expectedVersion) return undefined;
+    
+    if (updates.players !== undefined) {
+      room.players = structuredClone(updates.players);
+      room.playerCount = Array.isArray(updates.players) ? updates.players.length : 0;
+    }
+    if (updates.gameState !== undefined) {
+      room.gameState = structuredClone(updates.gameState);
+    }
+    if (updates.status !== undefined) {
+      room.status = updates.status;
+    }
+    if (updates.hostId !== undefined) {
+      room.hostId = updates.hostId;
+    }
+    room.version = expectedVersion + BigInt(1);
+    return structuredClone(room);
+  }
+
+  async deleteGameRoom(code: string): Promise<void> {
+    const room = this.rooms.get(code);
+    if (room) {
+      this.refundEscrow(room);
+    }
+    this.rooms.delete(code);
+    this.chat.delete(code);
+  }
+
+  async getActiveRoomsByStake(stakeBracket: StakeBracket): Promise<GameRoom[]> {
+    const rooms = Array.from(this.rooms.values())
+      .filter(room =>
+        room.isActive === true &&
+        room.stakeBracket === stakeBracket &&
+        room.playerCount > 0 && // Must have at least one player
+        room.playerCount < (room.maxPlayers ?? 0) && // Must have open seats (not full)
+        room.status === 'inGame_waiting' // Not started yet
+      )
+      .map(room => structuredClone(room));
+    
+    return await filterActiveRooms(rooms, (code) => this.deleteGameRoom(code));
   }
 
   async getAllActiveRooms(): Promise<GameRoom[]> {
-    const rooms = await db
-      .select()
-      .from(gameRooms)
-      .where(eq(gameRooms.isActive, true));
-    return rooms;
+    return structuredClone(Array.from(this.rooms.values()).filter(room => room.isActive === true));
+  }
+
+  // Room chat
+  async addChatMessage(message: InsertRoomChatMessage): Promise<RoomChatMessage> {
+    const saved: RoomChatMessage = { ...message, id: randomUUID(), createdAt: new Date() };
+    const history = [...(this.chat.get(message.roomCode) ?? []), saved];
+    this.chat.set(message.roomCode, history.slice(-CHAT_HISTORY_LIMIT));
+    return structuredClone(saved);
+  }
+
+  async getChatMessages(roomCode: string): Promise<RoomChatMessage[]> {
+    return structuredClone(this.chat.get(roomCode) ?? []);
+  }
+
+  // Stake escrow operations
+  private getRoomById(roomId: string): GameRoom | undefined {
+    return Array.from(this.rooms.values()).find(room => room.id === roomId);
+  }
+
+  async escrowStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined> {
+    const room = this.getRoomById(roomId);
+    if (!room) throw new Error('Room not found');
+    
+    // Only deduct if the balance covers the fee
+    const user = this.changeBalance(userId, -amount, 'stake_entry', roomId, true);
+    if (!user) return undefined;
+    
+    room.escrow += amount;
+    this.recordStake(roomId, userId, 'entry', -amount, room.escrow);
+    return user;
   }
+
+  async refundStakeEntry(roomId: string, userId: string, amount: number): Promise<User | undefined> {
+    const room = this.getRoomById(roomId);
+    if (!room || room.escrow < amount) return undefined;
+    
+    room.escrow -= amount;
+    const user = this.changeBalance(userId, amount, 'stake_refund', roomId);
+    this.recordStake(roomId, userId, 'refund', amount, room.escrow);
+    return user;
+  }
+
+  async payoutStakeEscrow(roomId: string, payouts: StakePayout[]): Promise<boolean> {
+    const room = this.getRoomById(roomId);
+    const paid = payouts.filter(payout => payout.amount > 0);
+    if (!room || paid.reduce((sum, payout) => sum + payout.amount, 0) > room.escrow) return false;
+    
+    for (const payout of paid) {
+      this.changeBalance(payout.userId, payout.amount, 'stake_payout', roomId);
+      room.escrow -= payout.amount;
+      this.recordStake(roomId, payout.userId, 'payout', payout.amount, room.escrow);
+    }
+    this.refundEscrow(room);
+    return true;
+  }
+
+  private refundEscrow(room: GameRoom) {
+    for (const refund of splitEscrow(room.escrow, this.stakeLedger.filter(row => row.roomId === room.id))) {
+      this.changeBalance(refund.userId, refund.amount, 'stake_refund', room.id);
+      room.escrow -= refund.amount;
+      this.recordStake(room.id, refund.userId, 'refund', refund.amount, room.escrow);
+    }
+  }
+
+  private recordStake(roomId: string, userId: string, type: 'entry' | 'refund' | 'payout', amount: number, escrowAfter: number) {
+    this.stakeLedger.push({ id: randomUUID(), roomId, userId, type, amount, escrowAfter, createdAt: new Date() });
+  }
+}
+
+// Newest rows first, matching the ORDER BY created_at DESC queries. Rows are
+// appended in creation order, so reversing keeps ties in insertion order.
+function newestFirst<T>(rows: T[], limit: number): T[] {
+  return structuredClone(rows.slice().reverse().slice(0, limit));
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = usesMemoryStorage ? new MemStorage() : new DatabaseStorage();
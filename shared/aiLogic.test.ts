@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import type { Card, GameState, GridCard, Player } from "./gameTypes";
+import { initializeGame } from "./gameLogic";
+import {
+  makeAIDecision,
+  makeAIPlacementDecision,
+  selectAIPeekCards,
+  selectAIGridPosition,
+  shouldAIDiscardDrawnCard,
+  estimateUnseenCards,
+} from "./aiLogic";
+
+function card(value: Card['value']): Card {
+  return { value, suit: 'clubs', id: `clubs-${value}-0` };
+}
+
+// Nine grid positions; null leaves the position face down (with a hidden 9 under it)
+function aiPlayer(values: (Card['value'] | null)[]): Player {
+  const grid: GridCard[] = values.map((value, position) => ({
+    card: card(value ?? '9'),
+    isRevealed: value !== null,
+    position,
+    isDisabled: false,
+  }));
+  return { id: 'ai', name: 'AI', isAI: true, grid, roundScore: 0, totalScore: 0, isActive: true, avatar: 'AI' };
+}
+
+function stateWithDiscard(top: Card['value']): GameState {
+  const state = initializeGame({ mode: 'solo', playerCount: 2, rounds: 9 }, 42);
+  return { ...state, gamePhase: 'playing', discardPile: [card(top)] };
+}
+
+describe("makeAIDecision", () => {
+  it("takes a good discard to replace its worst revealed card", () => {
+    const player = aiPlayer(['Q', '3', null, null, null, null, null, null, null]);
+    expect(makeAIDecision(stateWithDiscard('5'), player)).toEqual({
+      action: 'draw-from-discard',
+      gridPosition: 0,
+      keepDrawn: true,
+    });
+  });
+
+  it("draws from the pile when the discard is not worth taking", () => {
+    const player = aiPlayer(['Q', '3', null, null, null, null, null, null, null]);
+    expect(makeAIDecision(stateWithDiscard('8'), player)).toEqual({ action: 'draw-from-pile' });
+  });
+
+  it("only takes a 5 or K from the discard on easy", () => {
+    const player = aiPlayer(['Q', '3', null, null, null, null, null, null, null]);
+    expect(makeAIDecision(stateWithDiscard('A'), player, 'easy')).toEqual({ action: 'draw-from-pile' });
+    expect(makeAIDecision(stateWithDiscard('K'), player, 'easy')).toMatchObject({ action: 'draw-from-discard', gridPosition: 0 });
+  });
+
+  it("always draws from the pile on an extra turn", () => {
+    const player = aiPlayer(['Q', '3', null, null, null, null, null, null, null]);
+    expect(makeAIDecision({ ...stateWithDiscard('5'), extraTurn: true }, player)).toEqual({ action: 'draw-from-pile' });
+  });
+});
+
+describe("makeAIPlacementDecision", () => {
+  const state = stateWithDiscard('8');
+
+  it("keeps low cards over a face-down position", () => {
+    const player = aiPlayer([null, null, null, null, null, null, null, null, null]);
+    expect(makeAIPlacementDecision(state, player, card('5'), 0)).toBe(true);
+    expect(makeAIPlacementDecision(state, player, card('4'), 0)).toBe(true);
+    expect(makeAIPlacementDecision(state, player, card('Q'), 0)).toBe(false);
+  });
+
+  it("only replaces a revealed card with something better", () => {
+    const player = aiPlayer(['8', null, null, null, null, null, null, null, null]);
+    expect(makeAIPlacementDecision(state, player, card('7'), 0)).toBe(true);
+    expect(makeAIPlacementDecision(state, player, card('9'), 0)).toBe(false);
+  });
+});
+
+describe("selectAIPeekCards", () => {
+  it("peeks two different face-down positions", () => {
+    const player = aiPlayer([null, null, null, null, null, null, null, null, null]);
+    const peeks = selectAIPeekCards(player);
+    expect(peeks).toHaveLength(2);
+    expect(new Set(peeks).size).toBe(2);
+  });
+
+  it("skips revealed and cleared positions", () => {
+    const player = aiPlayer(['A', 'A', 'A', 'A', 'A', 'A', null, 'A', 'A']);
+    player.grid[8].isDisabled = true;
+    expect(selectAIPeekCards(player)).toEqual([6]);
+  });
+});
+
+describe("selectAIGridPosition", () => {
+  const state = stateWithDiscard('8');
+
+  it("replaces the worst revealed card the drawn card improves on", () => {
+    const player = aiPlayer(['7', 'J', '2', null, null, null, null, null, null]);
+    expect(selectAIGridPosition(state, player, card('3'))).toBe(1);
+  });
+
+  it("puts a very good card over a face-down position when nothing revealed is worse", () => {
+    const player = aiPlayer(['K', '5', null, 'K', 'K', 'K', 'K', 'K', 'K']);
+    expect(selectAIGridPosition(state, player, card('A'))).toBe(2);
+  });
+
+  it("never picks a cleared position", () => {
+    const player = aiPlayer(['Q', null, null, 'Q', null, null, 'Q', null, null]);
+    [0, 3, 6].forEach(pos => { player.grid[pos].isDisabled = true; });
+    for (let i = 0; i < 20; i++) {
+      expect([0, 3, 6]).not.toContain(selectAIGridPosition(state, player, card('8')));
+    }
+  });
+});
+
+// Player 0 is the AI; player 1 shows the given face-up cards
+function lookaheadState(top: Card['value'], ai: Player, rival: Player): GameState {
+  return { ...stateWithDiscard(top), players: [ai, { ...rival, id: 'rival', isAI: false }] };
+}
+
+describe("estimateUnseenCards", () => {
+  it("counts the double deck minus face-up grid cards and the discard pile", () => {
+    const ai = aiPlayer(['Q', 'Q', null, null, null, null, null, null, null]);
+    const rival = aiPlayer(['Q', '5', null, null, null, null, null, null, null]);
+    const unseen = estimateUnseenCards(lookaheadState('Q', ai, rival));
+
+    expect(unseen.counts.Q).toBe(4);
+    expect(unseen.counts['5']).toBe(7);
+    expect(unseen.total).toBe(104 - 5);
+  });
+});
+
+describe("lookahead difficulties", () => {
+  it("take the discard that completes three of a kind", () => {
+    const ai = aiPlayer(['Q', 'A', '2', 'Q', '3', '4', '9', null, null]);
+    const rival = aiPlayer(['A', '2', null, null, null, null, null, null, null]);
+    const state = lookaheadState('9', ai, rival);
+    state.discardPile = [card('Q')];
+
+    expect(makeAIDecision(state, ai, 'normal')).toEqual({ action: 'draw-from-pile' });
+    expect(makeAIDecision(state, ai, 'hard')).toEqual({ action: 'draw-from-discard', gridPosition: 6, keepDrawn: true });
+  });
+
+  it("keep their last card face down rather than end a round they are losing", () => {
+    const ai = aiPlayer(['5', 'K', 'A', 'K', '5', '2', 'A', '2', null]);
+    const rival = aiPlayer(['5', 'K', '5', 'K', '5', 'K', 'K', '5', 'K']);
+    const state = lookaheadState('9', ai, rival);
+
+    expect(shouldAIDiscardDrawnCard(state, ai, card('6'), 'normal')).toBe(false);
+    expect(shouldAIDiscardDrawnCard(state, ai, card('6'), 'hard')).toBe(true);
+    expect(shouldAIDiscardDrawnCard(state, ai, card('6'), 'expert')).toBe(true);
+  });
+
+  it("only swap a revealed card for a better one", () => {
+    const ai = aiPlayer(['8', 'A', '2', null, null, null, null, null, null]);
+    const rival = aiPlayer(['A', '2', null, null, null, null, null, null, null]);
+    const state = lookaheadState('9', ai, rival);
+
+    expect(makeAIPlacementDecision(state, ai, card('3'), 0, 'hard')).toBe(true);
+    expect(makeAIPlacementDecision(state, ai, card('9'), 0, 'hard')).toBe(false);
+    expect(selectAIGridPosition(state, ai, card('3'), 'hard')).toBe(0);
+  });
+
+  it("expert holds on to a card the next player needs for three of a kind", () => {
+    const rival = aiPlayer(['J', '2', '3', 'J', '4', 'A', null, null, null]);
+
+    // Swapping the Jack for a 9 saves a point but hands the rival their Jack column
+    const jack = aiPlayer(['J', 'A', '2', null, null, null, null, null, null]);
+    const state = lookaheadState('8', jack, rival);
+    expect(makeAIPlacementDecision(state, jack, card('9'), 0, 'hard')).toBe(true);
+    expect(makeAIPlacementDecision(state, jack, card('9'), 0, 'expert')).toBe(false);
+
+    const ten = aiPlayer(['10', 'A', '2', null, null, null, null, null, null]);
+    expect(makeAIPlacementDecision(lookaheadState('8', ten, rival), ten, card('9'), 0, 'expert')).toBe(true);
+  });
+});
+
+describe("AI personalities", () => {
+  function withPersonality(player: Player, personalityId: string): Player {
+    return { ...player, personalityId };
+  }
+
+  it("keep cards over a face-down position up to their own threshold", () => {
+    const player = aiPlayer(['Q', '3', null, null, null, null, null, null, null]);
+    const state = stateWithDiscard('8');
+
+    expect(makeAIPlacementDecision(state, player, card('4'), 5)).toBe(true);
+    expect(makeAIPlacementDecision(state, withPersonality(player, 'cautious'), card('4'), 5)).toBe(false);
+  });
+
+  it("close a round with worse cards the more eager they are to end it", () => {
+    const player = aiPlayer(['5', 'K', 'A', 'K', '5', '2', 'A', '2', null]);
+    const state = stateWithDiscard('8');
+
+    expect(shouldAIDiscardDrawnCard(state, player, card('8'))).toBe(true);
+    expect(shouldAIDiscardDrawnCard(state, withPersonality(player, 'closer'), card('8'))).toBe(false);
+    expect(shouldAIDiscardDrawnCard(state, withPersonality(player, 'cautious'), card('4'))).toBe(true);
+  });
+
+  it("pair hunters take a discard that pairs up a column", () => {
+    const player = aiPlayer(['9', '3', '2', null, null, null, null, null, null]);
+    const state = stateWithDiscard('9');
+
+    expect(makeAIDecision(state, player)).toEqual({ action: 'draw-from-pile' });
+    expect(makeAIDecision(state, withPersonality(player, 'pair-hunter'))).toEqual({
+      action: 'draw-from-discard',
+      gridPosition: 3,
+      keepDrawn: true,
+    });
+  });
+});
@@ -0,0 +1,494 @@
+import type { Player, GameState, Card, GridCard, AIDifficulty } from './gameTypes';
+import { getCardValue, checkThreeOfAKind, nextRandom } from './gameLogic';
+import { type AIPersonality, getAIPersonality } from './aiPersonalities';
+
+// Normal opponents play the heuristic below, with the thresholds of their
+// personality. Easy ones only take the discard for a 5 or K, keep mediocre cards
+// over face-down ones and place drawn cards wherever they land. Hard and expert
+// ones look ahead instead: every option is rated by the expected score of the
+// grid it leaves (see rateGrid below).
+export const AI_DIFFICULTIES: AIDifficulty[] = ['easy', 'normal', 'hard', 'expert'];
+
+const CARD_VALUES: Card['value'][] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+const COPIES_PER_VALUE = 8; // Golf 9 is played with two decks
+const COLUMNS = [[0, 3, 6], [1, 4, 7], [2, 5, 8]];
+
+const EXTRA_TURN_BONUS = 2; // Clearing a column also earns another draw
+const PAIR_POTENTIAL = 0.2; // Share of a column a revealed pair may still clear with its third card
+const CLOSING_BEHIND_PENALTY = 6; // Ending the round while someone else looks lower
+const CLOSING_AHEAD_BONUS = 2; // Expert only: ending the round while ahead locks the lead in
+const DENIAL_WEIGHT = 0.5; // Expert only: how much a discard that helps the next player counts against it
+const CLOSING_SLACK = 2; // Normal only: how far past its keep threshold a card may be and still end the round
+
+function isLookahead(difficulty: AIDifficulty): boolean {
+  return difficulty === 'hard' || difficulty === 'expert';
+}
+
+export interface AIDecision {
+  action: 'draw-from-discard' | 'draw-from-pile';
+  gridPosition?: number;
+  keepDrawn?: boolean;
+}
+
+export function makeAIDecision(gameState: GameState, aiPlayer: Player, difficulty: AIDifficulty = 'normal'): AIDecision {
+  // During extra turn, AI must draw from draw pile only
+  if (gameState.extraTurn) {
+    return {
+      action: 'draw-from-pile'
+    };
+  }
+  
+  if (isLookahead(difficulty)) {
+    return planDraw(gameState, aiPlayer, difficulty);
+  }
+  
+  const personality = getAIPersonality(aiPlayer.personalityId);
+  const discardCard = gameState.discardPile[gameState.discardPile.length - 1];
+  const discardValue = getCardValue(discardCard);
+
+  // A pair hunter takes any card that pairs up a column
+  const pairPosition = difficulty === 'easy' ? -1 : findPairPosition(aiPlayer, discardCard, personality);
+  if (pairPosition !== -1) {
+    return { action: 'draw-from-discard', gridPosition: pairPosition, keepDrawn: true };
+  }
+
+  // Check if discard card is low value (good card)
+  const isDiscardGoodCard = difficulty === 'easy'
+    ? discardValue <= 0 // 5, K
+    : discardValue <= personality.discardThreshold;
+  
+  // Find best position to place a good card
+  if (isDiscardGoodCard) {
+    const bestPosition = findBestGridPosition(aiPlayer, discardValue, personality);
+    if (bestPosition !== -1) {
+      return {
+        action: 'draw-from-discard',
+        gridPosition: bestPosition,
+        keepDrawn: true
+      };
+    }
+  }
+  
+  // Otherwise, draw from pile and make decision based on what we get
+  return {
+    action: 'draw-from-pile'
+  };
+}
+
+export function makeAIPlacementDecision(
+  gameState: GameState, 
+  aiPlayer: Player, 
+  drawnCard: Card, 
+  selectedPosition: number,
+  difficulty: AIDifficulty = 'normal'
+): boolean {
+  if (isLookahead(difficulty)) {
+    return shouldKeepDrawnCard(gameState, aiPlayer, drawnCard, selectedPosition, difficulty);
+  }
+  
+  const personality = getAIPersonality(aiPlayer.personalityId);
+  const drawnValue = getCardValue(drawnCard);
+  const gridCard = aiPlayer.grid[selectedPosition];
+
+  if (difficulty !== 'easy' && pairsColumn(aiPlayer, drawnCard, selectedPosition, personality)) {
+    return true;
+  }
+  
+  // If position is unrevealed, we need to decide based on card quality
+  if (!gridCard.isRevealed) {
+    if (difficulty === 'easy') {
+      return drawnValue <= 6;
+    }
+    // Keep cards up to the personality's threshold (A, 2-4, 5 and K by default)
+    return drawnValue <= personality.keepThreshold;
+  }
+  
+  // If position is revealed, always choose the better card
+  const currentValue = gridCard.card ? getCardValue(gridCard.card) : 10;
+  return drawnValue < currentValue;
+}
+
+function findBestGridPosition(player: Player, cardValue: number, personality: AIPersonality): number {
+  let bestPosition = -1;
+  let worstValue = cardValue;
+  
+  // Find the WORST revealed card that's worse than our new card
+  for (let i = 0; i < player.grid.length; i++) {
+    const gridCard = player.grid[i];
+    if (gridCard.isRevealed && gridCard.card && !gridCard.isDisabled) {
+      const currentValue = getCardValue(gridCard.card);
+      // Only consider replacing if the current card is worse than what we're placing
+      if (currentValue > cardValue && currentValue > worstValue) {
+        worstValue = currentValue;
+        bestPosition = i;
+      }
+    }
+  }
+  
+  // If no good revealed position and our card is very good, try unrevealed positions
+  if (bestPosition === -1 && cardValue <= personality.discardThreshold) {
+    for (let i = 0; i < player.grid.length; i++) {
+      if (!player.grid[i].isRevealed && !player.grid[i].isDisabled) {
+        bestPosition = i;
+        break;
+      }
+    }
+  }
+  
+  return bestPosition;
+}
+
+// The AI's random choices (where to peek, which face-down card to turn over) can
+// be drawn from a generator seeded by the position, so a server replay of a solo
+// game makes the same choices the player's browser did
+export function createAIRandom(gameState: GameState, playerIndex: number): () => number {
+  const rng = {
+    rngState: (gameState.rngState
+      ^ Math.imul(gameState.currentRound, 0x9e3779b1)
+      ^ Math.imul(gameState.drawPile.length * 128 + gameState.discardPile.length, 0x85ebca6b)
+      ^ Math.imul(playerIndex + 1, 0xc2b2ae35)) >>> 0
+  };
+  return () => nextRandom(rng);
+}
+
+export function selectAIPeekCards(player: Player, random: () => number = Math.random): number[] {
+  // AI peeks at random positions that haven't been revealed yet and aren't disabled
+  const positions = [];
+  const availablePositions = Array.from({ length: 9 }, (_, i) => i)
+    .filter(pos => !player.grid[pos].isRevealed && !player.grid[pos].isDisabled);
+  
+  const cardsToReveal = Math.min(2, availablePositions.length);
+  
+  for (let i = 0; i < cardsToReveal; i++) {
+    const randomIndex = Math.floor(random() * availablePositions.length);
+    positions.push(availablePositions[randomIndex]);
+    availablePositions.splice(randomIndex, 1);
+  }
+  
+  return positions;
+}
+
+export function selectAIGridPosition(
+  gameState: GameState,
+  player: Player,
+  drawnCard: Card,
+  difficulty: AIDifficulty = 'normal',
+  random: () => number = Math.random
+): number {
+  if (difficulty === 'easy') {
+    return randomOpenPosition(player, random);
+  }
+  if (isLookahead(difficulty)) {
+    return planPlacement(gameState, player, drawnCard, difficulty, random);
+  }
+  
+  const personality = getAIPersonality(player.personalityId);
+  const drawnValue = getCardValue(drawnCard);
+
+  const pairPosition = findPairPosition(player, drawnCard, personality, !gameState.hasRevealedCardThisTurn);
+  if (pairPosition !== -1) {
+    return pairPosition;
+  }
+  
+  let bestPosition = -1;
+  let worstValueFound = drawnValue;
+  
+  // Find the WORST revealed card that we can improve upon
+  for (let i = 0; i < player.grid.length; i++) {
+    const gridCard = player.grid[i];
+    if (gridCard.isRevealed && gridCard.card && !gridCard.isDisabled) {
+      const currentValue = getCardValue(gridCard.card);
+      // Only consider positions where we'd improve the score
+      if (drawnValue < currentValue && currentValue > worstValueFound) {
+        worstValueFound = currentValue;
+        bestPosition = i;
+      }
+    }
+  }
+  
+  // If we found a good position to replace, use it
+  if (bestPosition !== -1) {
+    return bestPosition;
+  }
+  
+  // If the drawn card is good enough to keep, try unrevealed positions
+  if (drawnValue <= personality.keepThreshold) {
+    const unrevealedPositions = player.grid
+      .map((gridCard, index) => ({ gridCard, index }))
+      .filter(({ gridCard }) => !gridCard.isRevealed && !gridCard.isDisabled)
+      .map(({ index }) => index);
+    
+    if (unrevealedPositions.length > 0) {
+      return unrevealedPositions[Math.floor(random() * unrevealedPositions.length)];
+    }
+  }
+  
+  // Fallback to random position if we have no better choice
+  return randomOpenPosition(player, random);
+}
+
+// With one face-down card left the drawn card may go straight to the discard pile
+export function shouldAIDiscardDrawnCard(gameState: GameState, player: Player, drawnCard: Card, difficulty: AIDifficulty = 'normal'): boolean {
+  const faceDownCount = player.grid.filter(gridCard => !gridCard.isRevealed && !gridCard.isDisabled).length;
+  if (faceDownCount !== 1 || gameState.hasRevealedCardThisTurn) {
+    return false;
+  }
+  if (!isLookahead(difficulty)) {
+    const personality = getAIPersonality(player.personalityId);
+    return getCardValue(drawnCard) > personality.keepThreshold + CLOSING_SLACK * personality.roundClosing;
+  }
+
+  // Discarding leaves the grid as it is, and the round open
+  const outlook = getOutlook(gameState, player, difficulty);
+  const placement = bestPlacement(player.grid, drawnCard, outlook, true);
+  return expectedGridScore(player.grid, outlook.unseen) + rivalGain(gameState, player, drawnCard, outlook) <= placement.score;
+}
+
+// Pair hunters only: whether the card would pair up the column at this position
+function pairsColumn(player: Player, card: Card, position: number, personality: AIPersonality): boolean {
+  if (personality.pairHunting <= 1) return false;
+  const gridCard = player.grid[position];
+  if (gridCard.isDisabled || (gridCard.isRevealed && gridCard.card?.value === card.value)) return false;
+
+  const column = COLUMNS.find(positions => positions.includes(position))!;
+  return column.some(other => other !== position
+    && player.grid[other].isRevealed && player.grid[other].card?.value === card.value);
+}
+
+// Pair hunters only: where the card pairs up a column, over the highest revealed card there
+function findPairPosition(player: Player, card: Card, personality: AIPersonality, canReveal = true): number {
+  const positions = player.grid
+    .filter(gridCard => (gridCard.isRevealed || canReveal) && pairsColumn(player, card, gridCard.position, personality))
+    .sort((a, b) => cardWeight(b) - cardWeight(a));
+  return positions.length > 0 ? positions[0].position : -1;
+}
+
+// Face-down cards count as middling when choosing what to cover
+function cardWeight(gridCard: GridCard): number {
+  return gridCard.isRevealed && gridCard.card ? getCardValue(gridCard.card) : 5;
+}
+
+// Any position that hasn't been cleared
+function randomOpenPosition(player: Player, random: () => number): number {
+  const availablePositions = player.grid
+    .map((gridCard, index) => ({ gridCard, index }))
+    .filter(({ gridCard }) => !gridCard.isDisabled)
+    .map(({ index }) => index);
+  
+  if (availablePositions.length > 0) {
+    return availablePositions[Math.floor(random() * availablePositions.length)];
+  }
+  
+  // If all positions are somehow disabled (edge case), return 0
+  return 0;
+}
+
+// What the AI knows about the cards it hasn't seen
+export interface UnseenCards {
+  counts: Record<Card['value'], number>;
+  total: number;
+  meanValue: number;
+}
+
+// The double deck minus every face-up grid card, the discard pile and the card
+// in hand. Face-down cards, the AI's own included, are never looked at.
+export function estimateUnseenCards(gameState: GameState): UnseenCards {
+  const counts = Object.fromEntries(CARD_VALUES.map(value => [value, COPIES_PER_VALUE])) as Record<Card['value'], number>;
+  const seen = [
+    ...gameState.players.flatMap(player => player.grid.filter(gridCard => gridCard.isRevealed && gridCard.card).map(gridCard => gridCard.card!)),
+    ...gameState.discardPile,
+    ...(gameState.drawnCard ? [gameState.drawnCard] : [])
+  ];
+  seen.forEach(card => {
+    counts[card.value] = Math.max(0, counts[card.value] - 1);
+  });
+
+  const total = CARD_VALUES.reduce((sum, value) => sum + counts[value], 0);
+  const meanValue = total > 0
+    ? CARD_VALUES.reduce((sum, value) => sum + counts[value] * getCardValue(unseenCard(value)), 0) / total
+    : 0;
+  return { counts, total, meanValue };
+}
+
+// A stand-in for a card that might turn up
+function unseenCard(value: Card['value']): Card {
+  return { value, suit: 'spades', id: `unseen-${value}` };
+}
+
+// Average `score` over the card that might turn up next
+function expectOverUnseen(unseen: UnseenCards, score: (card: Card) => number, fallback: number): number {
+  if (unseen.total === 0) return fallback;
+  return CARD_VALUES.reduce((sum, value) =>
+    unseen.counts[value] > 0 ? sum + (unseen.counts[value] / unseen.total) * score(unseenCard(value)) : sum, 0);
+}
+
+// Everything a lookahead decision needs about the table, worked out once per decision
+interface Outlook {
+  difficulty: AIDifficulty;
+  personality: AIPersonality;
+  unseen: UnseenCards;
+  rivalScores: number[]; // Expected score of every other player's grid
+  roundEndTriggered: boolean;
+}
+
+function getOutlook(gameState: GameState, aiPlayer: Player, difficulty: AIDifficulty): Outlook {
+  const unseen = estimateUnseenCards(gameState);
+  return {
+    difficulty,
+    personality: getAIPersonality(aiPlayer.personalityId),
+    unseen,
+    rivalScores: gameState.players.filter(player => player.id !== aiPlayer.id).map(player => expectedGridScore(player.grid, unseen)),
+    roundEndTriggered: gameState.roundEndTriggered
+  };
+}
+
+// Face-down cards are worth the average unseen card. A pair makes a column
+// cheaper: the card still face down under it clears the column if it matches,
+// and a revealed odd card can still be swapped for the match.
+function expectedColumnScore(cards: GridCard[], unseen: UnseenCards): number {
+  if (cards.some(gridCard => gridCard.isDisabled)) return 0;
+
+  const revealed = cards.filter(gridCard => gridCard.isRevealed && gridCard.card).map(gridCard => gridCard.card!);
+  const faceDownCount = cards.length - revealed.length;
+  const revealedTotal = revealed.reduce((sum, card) => sum + getCardValue(card), 0);
+  const pairValue = revealed.find((card, index) => revealed.findIndex(other => other.value === card.value) !== index)?.value;
+
+  if (faceDownCount === 0) {
+    if (revealed.every(card => card.value === revealed[0].value)) return 0;
+    return pairValue && unseen.counts[pairValue] > 0 && revealedTotal > 0
+      ? revealedTotal * (1 - PAIR_POTENTIAL)
+      : revealedTotal;
+  }
+
+  const expected = revealedTotal + faceDownCount * unseen.meanValue;
+  if (faceDownCount === 1 && pairValue && unseen.total > 0) {
+    return expected * (1 - unseen.counts[pairValue] / unseen.total);
+  }
+  return expected;
+}
+
+function expectedGridScore(grid: GridCard[], unseen: UnseenCards): number {
+  return COLUMNS.reduce((sum, column) => sum + expectedColumnScore(column.map(position => grid[position]), unseen), 0);
+}
+
+function placeCard(grid: GridCard[], position: number, card: Card): GridCard[] {
+  return grid.map((gridCard, index) => index === position ? { ...gridCard, card, isRevealed: true } : gridCard);
+}
+
+// How good a grid is to be left with after a move; lower is better. Completing
+// three of a kind earns an extra turn; turning over the last card ends the round
+// after one more lap, which is only worth doing while the AI expects to be lowest.
+// The personality scales both: pair hunters prize the extra turn, closers worry
+// less about ending a round from behind.
+function rateGrid(grid: GridCard[], outlook: Outlook): number {
+  const { pairHunting, roundClosing } = outlook.personality;
+  const score = expectedGridScore(grid, outlook.unseen);
+  if (checkThreeOfAKind(grid).length > 0) {
+    return score - EXTRA_TURN_BONUS * pairHunting;
+  }
+  if (outlook.roundEndTriggered || !grid.every(gridCard => gridCard.isRevealed || gridCard.isDisabled)) {
+    return score;
+  }
+
+  const lowestRival = Math.min(...outlook.rivalScores);
+  if (score >= lowestRival) {
+    return score + CLOSING_BEHIND_PENALTY / roundClosing + (outlook.difficulty === 'expert' ? score - lowestRival : 0);
+  }
+  return outlook.difficulty === 'expert' ? score - CLOSING_AHEAD_BONUS * roundClosing : score;
+}
+
+interface Placement {
+  position: number;
+  score: number;
+}
+
+// Where a card does the most good. Turning over a face-down card still lets the
+// player keep whichever of the two cards is better, so that option is worth the
+// expected better of the two.
+function bestPlacement(grid: GridCard[], card: Card, outlook: Outlook, canReveal: boolean): Placement {
+  let best: Placement = { position: -1, score: Infinity };
+
+  grid.forEach((gridCard, position) => {
+    if (gridCard.isDisabled || (!gridCard.isRevealed && !canReveal)) return;
+
+    const placed = rateGrid(placeCard(grid, position, card), outlook);
+    const score = gridCard.isRevealed
+      ? placed
+      : expectOverUnseen(outlook.unseen, turnedUp => Math.min(placed, rateGrid(placeCard(grid, position, turnedUp), outlook)), placed);
+
+    if (score < best.score) {
+      best = { position, score };
+    }
+  });
+  return best;
+}
+
+// Expert only: how much a card put on the discard pile would help the next player
+function rivalGain(gameState: GameState, aiPlayer: Player, card: Card, outlook: Outlook): number {
+  if (outlook.difficulty !== 'expert') return 0;
+
+  const aiIndex = gameState.players.findIndex(player => player.id === aiPlayer.id);
+  const next = gameState.players[(aiIndex + 1) % gameState.players.length];
+  if (!next || next.id === aiPlayer.id) return 0;
+
+  const nextOutlook: Outlook = { ...outlook, rivalScores: [] };
+  const gain = expectedGridScore(next.grid, outlook.unseen) - bestPlacement(next.grid, card, nextOutlook, true).score;
+  return Math.max(0, gain) * DENIAL_WEIGHT;
+}
+
+// Take the discard only when it beats what a blind draw is expected to do.
+// A drawn card can always be turned down, so a draw is worth at worst the grid as it is.
+function planDraw(gameState: GameState, aiPlayer: Player, difficulty: AIDifficulty): AIDecision {
+  const outlook = getOutlook(gameState, aiPlayer, difficulty);
+  const grid = aiPlayer.grid;
+  const current = expectedGridScore(grid, outlook.unseen);
+
+  const discardCard = gameState.discardPile[gameState.discardPile.length - 1];
+  if (!discardCard) {
+    return { action: 'draw-from-pile' };
+  }
+
+  const fromDiscard = bestPlacement(grid, discardCard, outlook, true);
+  const fromPile = expectOverUnseen(outlook.unseen, card => Math.min(current, bestPlacement(grid, card, outlook, true).score), current);
+
+  if (fromDiscard.position !== -1 && fromDiscard.score < Math.min(current, fromPile)) {
+    return {
+      action: 'draw-from-discard',
+      gridPosition: fromDiscard.position,
+      keepDrawn: true
+    };
+  }
+  return { action: 'draw-from-pile' };
+}
+
+// Place the drawn card where it does the most good; when nowhere is worth it,
+// pick a revealed card so the drawn one can simply be discarded
+function planPlacement(gameState: GameState, player: Player, drawnCard: Card, difficulty: AIDifficulty, random: () => number): number {
+  const outlook = getOutlook(gameState, player, difficulty);
+  const placement = bestPlacement(player.grid, drawnCard, outlook, !gameState.hasRevealedCardThisTurn);
+
+  if (placement.position !== -1 && placement.score < expectedGridScore(player.grid, outlook.unseen)) {
+    return placement.position;
+  }
+
+  const revealed = player.grid.findIndex(gridCard => gridCard.isRevealed && !gridCard.isDisabled);
+  if (revealed !== -1) return revealed;
+  return placement.position !== -1 ? placement.position : randomOpenPosition(player, random);
+}
+
+// Keep whichever card leaves the better grid. The card not kept goes on the
+// discard pile, where an expert also counts what it would give the next player.
+function shouldKeepDrawnCard(gameState: GameState, aiPlayer: Player, drawnCard: Card, selectedPosition: number, difficulty: AIDifficulty): boolean {
+  const outlook = getOutlook(gameState, aiPlayer, difficulty);
+  const grid = aiPlayer.grid;
+  const gridCard = grid[selectedPosition];
+
+  const keepDrawn = rateGrid(placeCard(grid, selectedPosition, drawnCard), outlook)
+    + (gridCard.isRevealed && gridCard.card ? rivalGain(gameState, aiPlayer, gridCard.card, outlook) : 0);
+  const keepRevealed = (gridCard.isRevealed
+    ? rateGrid(grid, outlook)
+    : expectOverUnseen(outlook.unseen, turnedUp => rateGrid(placeCard(grid, selectedPosition, turnedUp), outlook), expectedGridScore(grid, outlook.unseen)))
+    + rivalGain(gameState, aiPlayer, drawnCard, outlook);
+
+  return keepDrawn < keepRevealed;
+}
@@ -0,0 +1,64 @@
+// Named computer opponents. Each one plays at the chosen difficulty but with its
+// own tendencies: Normal opponents use the thresholds directly, while Hard and
+// Expert ones work card values out for themselves and only take on the
+// round-closing and pair-hunting leanings (see shared/aiLogic.ts).
+export interface AIPersonality {
+  id: string;
+  name: string;
+  avatar: string;
+  style: string; // Shown under the name at the table
+  keepThreshold: number; // Highest card value kept over a face-down card
+  discardThreshold: number; // Highest discard-pile card worth taking
+  roundClosing: number; // 1 is neutral; higher ends rounds sooner, lower holds them open
+  pairHunting: number; // 1 is neutral; higher chases three-of-a-kind columns harder
+}
+
+export const AI_PERSONALITIES: AIPersonality[] = [
+  {
+    id: 'steady',
+    name: 'Steady Sam',
+    avatar: '🙂',
+    style: 'Plays it straight',
+    keepThreshold: 4,
+    discardThreshold: 1,
+    roundClosing: 1,
+    pairHunting: 1,
+  },
+  {
+    id: 'cautious',
+    name: 'Careful Carla',
+    avatar: '🐢',
+    style: 'Cautious',
+    keepThreshold: 2,
+    discardThreshold: 0,
+    roundClosing: 0.6,
+    pairHunting: 1,
+  },
+  {
+    id: 'closer',
+    name: 'Quick Quinn',
+    avatar: '⚡',
+    style: 'Ends rounds fast',
+    keepThreshold: 5,
+    discardThreshold: 3,
+    roundClosing: 1.6,
+    pairHunting: 0.8,
+  },
+  {
+    id: 'pair-hunter',
+    name: 'Matching Max',
+    avatar: '🎯',
+    style: 'Hunts three of a kind',
+    keepThreshold: 4,
+    discardThreshold: 2,
+    roundClosing: 0.9,
+    pairHunting: 2,
+  },
+];
+
+export const DEFAULT_AI_PERSONALITY = AI_PERSONALITIES[0];
+
+// Players without a personality (online AI seats, older saves) play the default one
+export function getAIPersonality(id?: string): AIPersonality {
+  return AI_PERSONALITIES.find(personality => personality.id === id) ?? DEFAULT_AI_PERSONALITY;
+}
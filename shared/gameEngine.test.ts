@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import type { Card, GameState, GridCard } from "./gameTypes";
+import { initializeGame } from "./gameLogic";
+import { applyGameAction, applyGameActions, replayGameMoves } from "./gameEngine";
+
+function card(value: Card['value'], copy = 0): Card {
+  return { value, suit: 'diamonds', id: `diamonds-${value}-${copy}` };
+}
+
+// Nine grid positions; null leaves the position face down (with a hidden 9 under it)
+function grid(values: (Card['value'] | null)[]): GridCard[] {
+  return values.map((value, position) => ({
+    card: card(value ?? '9', position),
+    isRevealed: value !== null,
+    position,
+    isDisabled: false,
+  }));
+}
+
+// Player 0 to move in the playing phase with the given grid and a 7 on the discard pile
+function playing(values: (Card['value'] | null)[]): GameState {
+  const state = initializeGame({ mode: 'solo', playerCount: 2, rounds: 5 }, 3);
+  state.gamePhase = 'playing';
+  state.currentPlayerIndex = 0;
+  state.players[0].grid = grid(values);
+  state.players[1].grid = grid(['K', 'K', '2', '3', '4', '6', '8', '10', 'J']);
+  state.discardPile = [card('7', 99)];
+  return state;
+}
+
+describe("game events", () => {
+  it("reports the columns a move clears with three of a kind", () => {
+    const state = playing(['7', 'A', '2', '7', '3', '4', null, '6', '8']);
+
+    const result = applyGameActions(state, 0, [
+      { type: 'DRAW_CARD', source: 'discard' },
+      { type: 'SELECT_GRID_POSITION', position: 6 },
+      { type: 'KEEP_DRAWN_CARD' },
+    ]);
+
+    expect(result.ok && result.events).toEqual([
+      { type: 'THREE_OF_A_KIND', round: 1, playerIndex: 0, columns: 1 },
+    ]);
+  });
+
+  it("ends the turn instead of granting an extra one when the last column is cleared", () => {
+    const state = playing(['7', null, null, '7', null, null, null, null, null]);
+    // The other two columns are already cleared
+    [1, 2, 4, 5, 7, 8].forEach(position => {
+      state.players[0].grid[position] = { card: null, isRevealed: true, position, isDisabled: true };
+    });
+
+    const result = applyGameActions(state, 0, [
+      { type: 'DRAW_CARD', source: 'discard' },
+      { type: 'SELECT_GRID_POSITION', position: 6 },
+      { type: 'KEEP_DRAWN_CARD' },
+    ]);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.state.extraTurn).toBe(false);
+    expect(result.state.turnComplete).toBe(true);
+    expect(result.state.roundEndTriggered).toBe(true);
+  });
+
+  it("reports every player's score and cards when a round ends", () => {
+    const state = playing(['5', '5', 'K', 'K', 'K', '5', 'K', '5', null]);
+    state.roundEndTriggered = true;
+    state.roundEndingPlayer = 1;
+
+    const result = replayGameMoves(state, [
+      { playerIndex: 0, action: { type: 'DRAW_CARD', source: 'discard' } },
+      { playerIndex: 0, action: { type: 'SELECT_GRID_POSITION', position: 8 } },
+      { playerIndex: 0, action: { type: 'KEEP_REVEALED_CARD' } },
+      { playerIndex: 0, action: { type: 'END_TURN' } },
+    ]);
+    if (!result.ok) throw new Error(result.error.message);
+
+    expect(result.events).toHaveLength(1);
+    const [roundEnd] = result.events;
+    expect(roundEnd).toMatchObject({ type: 'ROUND_END', round: 1 });
+    if (roundEnd.type !== 'ROUND_END') return;
+
+    expect(roundEnd.results[0]).toMatchObject({ playerIndex: 0, roundScore: -20 + 9, totalScore: -11 });
+    expect(roundEnd.results[0].cards.map(c => c?.value)).toEqual(['5', '5', 'K', 'K', 'K', '5', 'K', '5', '9']);
+    expect(roundEnd.results[1].roundScore).toBe(0 + 0 + 2 + 3 + 4 + 6 + 8 + 10 + 10);
+  });
+
+  it("reports nothing for moves that change no score", () => {
+    const result = applyGameActions(playing(['A', null, null, null, null, null, null, null, null]), 0, [
+      { type: 'DRAW_CARD', source: 'draw' },
+    ]);
+    expect(result.ok && result.events).toEqual([]);
+  });
+});
+
+describe("applyGameAction", () => {
+  it("rejects an action type the rules don't know", () => {
+    const result = applyGameAction(playing(['A', null, null, null, null, null, null, null, null]), 0, { type: 'FLIP_TABLE' } as any);
+    expect(result).toEqual({ ok: false, error: { code: 'UNKNOWN_ACTION', message: 'Unknown action FLIP_TABLE' } });
+  });
+});
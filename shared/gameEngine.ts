@@ -0,0 +1,351 @@
+import type { GameState, GameAction, GameMove, GameEvent, Player } from './gameTypes';
+import {
+  dealRound,
+  nextRandom,
+  reshuffleIfNeeded,
+  processThreeOfAKind,
+  calculatePlayerScore,
+  hasRevealedAllCards,
+  hasPlayerFinishedPeeking,
+  getNextPlayerIndex,
+} from './gameLogic';
+
+// Golf 9 rules engine: a pure reducer shared by solo/pass-and-play (useGameLogic)
+// and online rooms (/api/rooms/:code/action). It never mutates its input.
+// Alongside the new state it reports what happened as GameEvents.
+
+export type GameRuleErrorCode =
+  | 'WRONG_PHASE'
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_PLAYER'
+  | 'INVALID_POSITION'
+  | 'ALREADY_PEEKED'
+  | 'PEEK_NOT_FINISHED'
+  | 'CARD_ALREADY_DRAWN'
+  | 'NO_DRAWN_CARD'
+  | 'NO_POSITION_SELECTED'
+  | 'EMPTY_PILE'
+  | 'DISCARD_PILE_LOCKED'
+  | 'ALREADY_REVEALED_THIS_TURN'
+  | 'DIRECT_DISCARD_NOT_ALLOWED'
+  | 'TURN_NOT_COMPLETE'
+  | 'TURN_ALREADY_COMPLETE'
+  | 'ROUND_NOT_OVER'
+  | 'UNKNOWN_ACTION';
+
+export interface GameRuleError {
+  code: GameRuleErrorCode;
+  message: string;
+}
+
+export type GameActionResult =
+  | { ok: true; state: GameState; events: GameEvent[] }
+  | { ok: false; error: GameRuleError };
+
+function fail(code: GameRuleErrorCode, message: string): GameActionResult {
+  return { ok: false, error: { code, message } };
+}
+
+function succeed(state: GameState, events: GameEvent[] = []): GameActionResult {
+  return { ok: true, state, events };
+}
+
+// Apply a single action on behalf of the player at `playerIndex`
+export function applyGameAction(state: GameState, playerIndex: number, action: GameAction): GameActionResult {
+  if (action.type === 'START_ROUND') {
+    if (state.gamePhase !== 'round-end') {
+      return fail('ROUND_NOT_OVER', 'The current round has not finished');
+    }
+    const draft = structuredClone(state);
+    draft.currentRound += 1;
+    dealRound(draft);
+    return succeed(draft);
+  }
+
+  const player = state.players[playerIndex];
+  if (!player) {
+    return fail('INVALID_PLAYER', `No player at index ${playerIndex}`);
+  }
+
+  if (action.type === 'PEEK_CARD') {
+    // Everyone peeks at the same time, so this is the only action that ignores whose turn it is
+    if (state.gamePhase !== 'peek') {
+      return fail('WRONG_PHASE', 'Cards can only be peeked during the peek phase');
+    }
+    const gridCard = player.grid[action.position];
+    if (!gridCard || gridCard.isDisabled) {
+      return fail('INVALID_POSITION', `Invalid grid position ${action.position}`);
+    }
+    if (hasPlayerFinishedPeeking(player)) {
+      return fail('ALREADY_PEEKED', 'You have already peeked at 2 cards');
+    }
+    if (gridCard.isRevealed) {
+      return fail('INVALID_POSITION', 'That card is already revealed');
+    }
+
+    const draft = structuredClone(state);
+    draft.players[playerIndex].grid[action.position].isRevealed = true;
+
+    if (draft.players.every(hasPlayerFinishedPeeking)) {
+      draft.gamePhase = 'playing';
+      setCurrentPlayer(draft, 0);
+    }
+    return succeed(draft);
+  }
+
+  if (action.type === 'END_TURN') {
+    return endTurn(state, playerIndex);
+  }
+
+  // Everything below is a move within the current player's turn
+  if (state.gamePhase !== 'playing') {
+    return fail('WRONG_PHASE', 'Moves can only be made during the playing phase');
+  }
+  if (playerIndex !== state.currentPlayerIndex) {
+    return fail('NOT_YOUR_TURN', 'It is not your turn');
+  }
+
+  switch (action.type) {
+    case 'DRAW_CARD': {
+      if (state.drawnCard) {
+        return fail('CARD_ALREADY_DRAWN', 'You have already drawn a card');
+      }
+      if (state.turnComplete) {
+        return fail('TURN_ALREADY_COMPLETE', 'Your turn is over');
+      }
+      if (action.source === 'discard' && state.extraTurn) {
+        return fail('DISCARD_PILE_LOCKED', 'You must draw from the draw pile during an extra turn');
+      }
+
+      const draft = structuredClone(state);
+      if (action.source === 'draw') {
+        const reshuffled = reshuffleIfNeeded(draft, () => nextRandom(draft));
+        draft.drawPile = reshuffled.drawPile;
+        draft.discardPile = reshuffled.discardPile;
+        if (draft.drawPile.length === 0) {
+          return fail('EMPTY_PILE', 'The draw pile is empty');
+        }
+        draft.drawnCard = draft.drawPile[0];
+        draft.drawPile = draft.drawPile.slice(1);
+      } else {
+        if (draft.discardPile.length === 0) {
+          return fail('EMPTY_PILE', 'The discard pile is empty');
+        }
+        draft.drawnCard = draft.discardPile[draft.discardPile.length - 1];
+        draft.discardPile = draft.discardPile.slice(0, -1);
+      }
+      return succeed(draft);
+    }
+
+    case 'SELECT_GRID_POSITION': {
+      if (!state.drawnCard) {
+        return fail('NO_DRAWN_CARD', 'Draw a card before selecting a grid position');
+      }
+      const gridCard = player.grid[action.position];
+      if (!gridCard || gridCard.isDisabled) {
+        return fail('INVALID_POSITION', `Invalid grid position ${action.position}`);
+      }
+      // Only one face-down card may be turned over per turn
+      if (!gridCard.isRevealed && state.hasRevealedCardThisTurn) {
+        return fail('ALREADY_REVEALED_THIS_TURN', 'You can only reveal one card per turn');
+      }
+
+      const draft = structuredClone(state);
+      const draftCard = draft.players[playerIndex].grid[action.position];
+      if (!draftCard.isRevealed) {
+        draftCard.isRevealed = true;
+        draft.hasRevealedCardThisTurn = true;
+      }
+      draft.selectedGridPosition = action.position;
+      return succeed(draft);
+    }
+
+    case 'KEEP_DRAWN_CARD': {
+      if (!state.drawnCard) {
+        return fail('NO_DRAWN_CARD', 'There is no drawn card to keep');
+      }
+      if (state.selectedGridPosition === null) {
+        return fail('NO_POSITION_SELECTED', 'Select a grid position first');
+      }
+
+      const draft = structuredClone(state);
+      const position = state.selectedGridPosition;
+      const draftPlayer = draft.players[playerIndex];
+      const replaced = draftPlayer.grid[position];
+
+      // The replaced card goes face up onto the discard pile
+      if (replaced.isRevealed && replaced.card) {
+        draft.discardPile = [...draft.discardPile, replaced.card];
+      }
+      draftPlayer.grid[position] = {
+        card: draft.drawnCard,
+        isRevealed: true,
+        position,
+        isDisabled: replaced.isDisabled || false
+      };
+
+      return succeed(draft, resolveMove(draft, playerIndex));
+    }
+
+    case 'KEEP_REVEALED_CARD': {
+      if (!state.drawnCard) {
+        return fail('NO_DRAWN_CARD', 'There is no drawn card to discard');
+      }
+      if (state.selectedGridPosition === null) {
+        return fail('NO_POSITION_SELECTED', 'Select a grid position first');
+      }
+
+      const draft = structuredClone(state);
+      draft.discardPile = [...draft.discardPile, draft.drawnCard!];
+
+      return succeed(draft, resolveMove(draft, playerIndex));
+    }
+
+    case 'DISCARD_DRAWN_CARD': {
+      if (!state.drawnCard) {
+        return fail('NO_DRAWN_CARD', 'There is no drawn card to discard');
+      }
+      // Special rule: with a single face-down card left the drawn card may be discarded outright
+      const faceDownCount = player.grid.filter(gridCard => !gridCard.isRevealed && !gridCard.isDisabled).length;
+      if (faceDownCount !== 1 || state.hasRevealedCardThisTurn) {
+        return fail('DIRECT_DISCARD_NOT_ALLOWED', 'You can only discard directly with one face-down card left');
+      }
+
+      const draft = structuredClone(state);
+      draft.discardPile = [...draft.discardPile, draft.drawnCard!];
+
+      return succeed(draft, resolveMove(draft, playerIndex));
+    }
+
+    default:
+      return fail('UNKNOWN_ACTION', `Unknown action ${(action as GameAction).type}`);
+  }
+}
+
+// Apply several actions in order for the same player, stopping at the first rule error
+export function applyGameActions(state: GameState, playerIndex: number, actions: GameAction[]): GameActionResult {
+  return replayGameMoves(state, actions.map(action => ({ playerIndex, action })));
+}
+
+// Replay a recorded move log from a starting state, stopping at the first rule error.
+// The result carries every event emitted along the way.
+export function replayGameMoves(state: GameState, moves: GameMove[]): GameActionResult {
+  let current = state;
+  const events: GameEvent[] = [];
+  for (const move of moves) {
+    const result = applyGameAction(current, move.playerIndex, move.action);
+    if (!result.ok) return result;
+    current = result.state;
+    events.push(...result.events);
+  }
+  return succeed(current, events);
+}
+
+// Finish the current player's move: clear columns, grant extra turns and detect round end
+function resolveMove(draft: GameState, playerIndex: number): GameEvent[] {
+  const player = draft.players[playerIndex];
+  const events: GameEvent[] = [];
+
+  const threeOfAKindResult = processThreeOfAKind(player.grid, draft.discardPile);
+  if (threeOfAKindResult.hasThreeOfAKind) {
+    const clearedBefore = player.grid.filter(gridCard => gridCard.isDisabled).length;
+    const clearedAfter = threeOfAKindResult.updatedGrid.filter(gridCard => gridCard.isDisabled).length;
+    events.push({ type: 'THREE_OF_A_KIND', round: draft.currentRound, playerIndex, columns: (clearedAfter - clearedBefore) / 3 });
+
+    player.grid = threeOfAKindResult.updatedGrid;
+    draft.discardPile = threeOfAKindResult.updatedDiscardPile;
+  }
+
+  // A cleared column earns an extra turn, unless every column is gone and there is nowhere left to play
+  if (threeOfAKindResult.hasThreeOfAKind && player.grid.some(gridCard => !gridCard.isDisabled)) {
+    draft.extraTurn = true;
+    draft.turnComplete = false;
+  } else {
+    draft.turnComplete = true;
+
+    // Revealing every card starts the final lap: everyone else gets one more turn
+    if (!draft.roundEndTriggered && hasRevealedAllCards(player)) {
+      draft.roundEndTriggered = true;
+      draft.roundEndingPlayer = playerIndex;
+    }
+  }
+
+  draft.drawnCard = null;
+  draft.selectedGridPosition = null;
+  draft.hasRevealedCardThisTurn = false;
+  return events;
+}
+
+function endTurn(state: GameState, playerIndex: number): GameActionResult {
+  if (playerIndex !== state.currentPlayerIndex) {
+    return fail('NOT_YOUR_TURN', 'It is not your turn');
+  }
+
+  if (state.gamePhase === 'peek') {
+    if (!hasPlayerFinishedPeeking(state.players[playerIndex])) {
+      return fail('PEEK_NOT_FINISHED', 'Peek at 2 cards before ending your turn');
+    }
+    const draft = structuredClone(state);
+    setCurrentPlayer(draft, getNextPlayerIndex(playerIndex, draft.players.length));
+    return succeed(draft);
+  }
+
+  if (state.gamePhase !== 'playing') {
+    return fail('WRONG_PHASE', 'There is no turn to end right now');
+  }
+  if (!state.turnComplete) {
+    return fail('TURN_NOT_COMPLETE', 'Finish your move before ending your turn');
+  }
+
+  const draft = structuredClone(state);
+  draft.extraTurn = false;
+
+  const nextIndex = getNextPlayerIndex(playerIndex, draft.players.length);
+  if (draft.roundEndTriggered && nextIndex === draft.roundEndingPlayer) {
+    return succeed(draft, [endRound(draft)]);
+  }
+  setCurrentPlayer(draft, nextIndex);
+  return succeed(draft);
+}
+
+// Reveal every remaining card, score the round and decide whether the game is over
+function endRound(draft: GameState): GameEvent {
+  draft.players.forEach((player: Player) => {
+    player.grid.forEach(gridCard => {
+      if (!gridCard.isRevealed && gridCard.card && !gridCard.isDisabled) {
+        gridCard.isRevealed = true;
+      }
+    });
+    player.roundScore = calculatePlayerScore(player.grid);
+    player.totalScore += player.roundScore;
+    player.isActive = false;
+  });
+
+  draft.gamePhase = draft.currentRound >= draft.totalRounds ? 'game-end' : 'round-end';
+  draft.drawnCard = null;
+  draft.selectedGridPosition = null;
+  draft.hasRevealedCardThisTurn = false;
+  draft.turnComplete = false;
+
+  return {
+    type: 'ROUND_END',
+    round: draft.currentRound,
+    results: draft.players.map((player, playerIndex) => ({
+      playerIndex,
+      roundScore: player.roundScore,
+      totalScore: player.totalScore,
+      cards: player.grid.map(gridCard => gridCard.card)
+    }))
+  };
+}
+
+function setCurrentPlayer(draft: GameState, index: number): void {
+  draft.currentPlayerIndex = index;
+  draft.players.forEach((player, i) => {
+    player.isActive = i === index;
+  });
+  draft.drawnCard = null;
+  draft.selectedGridPosition = null;
+  draft.hasRevealedCardThisTurn = false;
+  draft.turnComplete = false;
+}
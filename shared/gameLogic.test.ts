@@ -0,0 +1,140 @@
+import { describe, it, expect } from "vitest";
+import type { Card, GridCard } from "./gameTypes";
+import {
+  createDeck,
+  getCardValue,
+  processThreeOfAKind,
+  calculatePlayerScore,
+  reshuffleIfNeeded,
+  initializeGame,
+} from "./gameLogic";
+
+function card(value: Card['value'], suit: Card['suit'] = 'hearts', copy = 0): Card {
+  return { value, suit, id: `${suit}-${value}-${copy}` };
+}
+
+// Build a grid from nine values; null leaves the position face down
+function grid(values: (Card['value'] | null)[], revealed = true): GridCard[] {
+  return values.map((value, position) => ({
+    card: value ? card(value, 'spades', position) : null,
+    isRevealed: value !== null && revealed,
+    position,
+    isDisabled: false,
+  }));
+}
+
+describe("createDeck", () => {
+  it("builds two full 52-card decks with unique ids", () => {
+    const deck = createDeck();
+    expect(deck).toHaveLength(104);
+    expect(new Set(deck.map(c => c.id)).size).toBe(104);
+    expect(deck.filter(c => c.value === 'K' && c.suit === 'hearts')).toHaveLength(2);
+  });
+
+  it("shuffles deterministically for the same random source", () => {
+    const seeded = (seed: number) => {
+      const state = { rngState: seed };
+      return () => {
+        state.rngState = (state.rngState * 1103515245 + 12345) % 2147483648;
+        return state.rngState / 2147483648;
+      };
+    };
+    const ids = (deck: Card[]) => deck.map(c => c.id);
+
+    expect(ids(createDeck(seeded(7)))).toEqual(ids(createDeck(seeded(7))));
+    expect(ids(createDeck(seeded(7)))).not.toEqual(ids(createDeck(seeded(8))));
+  });
+});
+
+describe("getCardValue", () => {
+  it.each([
+    ['A', 1], ['2', 2], ['4', 4], ['5', -5], ['6', 6], ['10', 10], ['J', 10], ['Q', 10], ['K', 0],
+  ] as [Card['value'], number][])("scores %s as %i", (value, expected) => {
+    expect(getCardValue(card(value))).toBe(expected);
+  });
+});
+
+describe("processThreeOfAKind", () => {
+  it("clears a matching revealed column and discards its cards", () => {
+    const discardPile = [card('9')];
+    const { updatedGrid, updatedDiscardPile, hasThreeOfAKind } = processThreeOfAKind(
+      grid(['7', 'A', '2', '7', '3', '4', '7', '6', '8']),
+      discardPile
+    );
+
+    expect(hasThreeOfAKind).toBe(true);
+    expect(updatedDiscardPile).toHaveLength(4);
+    [0, 3, 6].forEach(pos => {
+      expect(updatedGrid[pos]).toMatchObject({ card: null, isRevealed: true, isDisabled: true });
+    });
+    expect(updatedGrid[1].card?.value).toBe('A');
+    expect(discardPile).toHaveLength(1); // Inputs are left untouched
+  });
+
+  it("ignores columns that are not fully revealed", () => {
+    const cards = grid(['7', 'A', '2', '7', '3', '4', '7', '6', '8']);
+    cards[6].isRevealed = false;
+
+    const { updatedGrid, hasThreeOfAKind } = processThreeOfAKind(cards, []);
+    expect(hasThreeOfAKind).toBe(false);
+    expect(updatedGrid[0].card?.value).toBe('7');
+  });
+});
+
+describe("calculatePlayerScore", () => {
+  it("sums only revealed cards", () => {
+    const cards = grid(['A', '2', '3', '4', '5', '6', null, 'K', null]);
+    expect(calculatePlayerScore(cards)).toBe(1 + 2 + 3 + 4 - 5 + 6 + 0);
+  });
+
+  it("scores a revealed three-of-a-kind column as zero", () => {
+    const cards = grid(['Q', 'A', '2', 'Q', 'A', '2', 'Q', '3', '2']);
+    // Column 0 (Q Q Q) and column 2 (2 2 2) are free; column 1 is A + A + 3
+    expect(calculatePlayerScore(cards)).toBe(5);
+  });
+
+  it("counts cleared columns as nothing", () => {
+    const { updatedGrid } = processThreeOfAKind(grid(['9', 'A', '2', '9', 'A', '3', '9', '4', 'K']), []);
+    expect(calculatePlayerScore(updatedGrid)).toBe(1 + 2 + 1 + 3 + 4 + 0);
+  });
+});
+
+describe("reshuffleIfNeeded", () => {
+  it("turns all but the top discard into a new draw pile when the draw pile is empty", () => {
+    const state = { ...initializeGame({ mode: 'solo', playerCount: 2, rounds: 9 }, 1), drawPile: [] };
+    state.discardPile = [card('2'), card('3'), card('4'), card('K')];
+
+    const reshuffled = reshuffleIfNeeded(state, () => 0.5);
+    expect(reshuffled.discardPile).toEqual([card('K')]);
+    expect(reshuffled.drawPile).toHaveLength(3);
+    expect(reshuffled.drawPile.map(c => c.value).sort()).toEqual(['2', '3', '4']);
+  });
+
+  it("leaves the state alone while cards remain to draw", () => {
+    const state = initializeGame({ mode: 'solo', playerCount: 2, rounds: 9 }, 1);
+    expect(reshuffleIfNeeded(state)).toBe(state);
+  });
+
+  it("leaves the state alone when only the top discard is left", () => {
+    const state = { ...initializeGame({ mode: 'solo', playerCount: 2, rounds: 9 }, 1), drawPile: [], discardPile: [card('K')] };
+    expect(reshuffleIfNeeded(state)).toBe(state);
+  });
+});
+
+describe("initializeGame", () => {
+  it("seats solo opponents as different AI personalities, the same for the same seed", () => {
+    const players = initializeGame({ mode: 'solo', playerCount: 4, rounds: 9 }, 7).players;
+    const opponents = players.slice(1);
+
+    expect(players[0]).toMatchObject({ name: 'You', isAI: false });
+    expect(new Set(opponents.map(player => player.personalityId)).size).toBe(3);
+    opponents.forEach(player => expect(player.name).not.toMatch(/^AI Player/));
+    expect(initializeGame({ mode: 'solo', playerCount: 4, rounds: 9 }, 7).players).toEqual(players);
+  });
+
+  it("gives pass-and-play seats no personality", () => {
+    const players = initializeGame({ mode: 'pass-play', playerCount: 2, rounds: 9 }, 7).players;
+    expect(players[1]).toMatchObject({ name: 'Player 2', isAI: false, avatar: 'P2' });
+    expect(players[1].personalityId).toBeUndefined();
+  });
+});
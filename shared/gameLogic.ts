@@ -0,0 +1,301 @@
+import type { Card, GridCard, Player, GameState, GameSettings } from './gameTypes';
+import { AI_PERSONALITIES } from './aiPersonalities';
+
+// Seeded pseudo-random generator (mulberry32) so every deal can be reproduced from its seed
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export function nextRandom(state: { rngState: number }): number {
+  state.rngState = (state.rngState + 0x6d2b79f5) >>> 0;
+  let t = state.rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Card deck generation
+export function createDeck(random: () => number = Math.random): Card[] {
+  const suits: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
+  const values: Card['value'][] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+  const deck: Card[] = [];
+
+  // Create two standard decks for Golf 9
+  for (let deckNum = 0; deckNum < 2; deckNum++) {
+    for (const suit of suits) {
+      for (const value of values) {
+        deck.push({
+          suit,
+          value,
+          id: `${suit}-${value}-${deckNum}`
+        });
+      }
+    }
+  }
+
+  return shuffleDeck(deck, random);
+}
+
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
+  const shuffled = [...deck];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Card value calculation
+export function getCardValue(card: Card): number {
+  switch (card.value) {
+    case 'A': return 1;
+    case '2': case '3': case '4': case '6': case '7': case '8': case '9': case '10':
+      return parseInt(card.value);
+    case '5': return -5;
+    case 'J': case 'Q': return 10;
+    case 'K': return 0;
+    default: return 0;
+  }
+}
+
+// Initialize player grid
+export function createPlayerGrid(): GridCard[] {
+  return Array.from({ length: 9 }, (_, index) => ({
+    card: null,
+    isRevealed: false,
+    position: index,
+    isDisabled: false
+  }));
+}
+
+// Shuffle a fresh double deck, deal 9 cards to every player and turn over the first discard.
+// Mutates the given state; callers pass in a copy they own.
+export function dealRound(state: GameState): void {
+  const deck = createDeck(() => nextRandom(state));
+  let deckIndex = 0;
+
+  state.players.forEach((player, index) => {
+    player.grid = createPlayerGrid();
+    player.roundScore = 0;
+    player.isActive = index === 0;
+
+    // Deal 9 cards to each player
+    for (let i = 0; i < 9; i++) {
+      player.grid[i].card = deck[deckIndex++];
+    }
+  });
+
+  // Set up draw and discard piles
+  state.discardPile = [deck[deckIndex]];
+  state.drawPile = deck.slice(deckIndex + 1);
+
+  state.currentPlayerIndex = 0;
+  state.gamePhase = 'peek';
+  state.drawnCard = null;
+  state.selectedGridPosition = null;
+  state.roundEndTriggered = false;
+  state.roundEndingPlayer = undefined;
+  state.extraTurn = false;
+  state.hasRevealedCardThisTurn = false;
+  state.turnComplete = false;
+}
+
+// Create a dealt first round for an arbitrary set of seated players
+export function createGameState(
+  players: Array<Pick<Player, 'id' | 'name' | 'isAI' | 'avatar' | 'personalityId'>>,
+  totalRounds: GameState['totalRounds'],
+  gameMode: GameState['gameMode'],
+  seed: number = createSeed()
+): GameState {
+  const state: GameState = {
+    players: players.map(player => ({
+      ...player,
+      grid: createPlayerGrid(),
+      roundScore: 0,
+      totalScore: 0,
+      isActive: false
+    })),
+    currentPlayerIndex: 0,
+    currentRound: 1,
+    totalRounds,
+    drawPile: [],
+    discardPile: [],
+    gamePhase: 'setup',
+    drawnCard: null,
+    selectedGridPosition: null,
+    gameMode,
+    roundEndTriggered: false,
+    extraTurn: false,
+    hasRevealedCardThisTurn: false,
+    turnComplete: false,
+    rngState: seed >>> 0
+  };
+
+  dealRound(state);
+  return state;
+}
+
+// Create initial game state. AI opponents take personalities in turn, starting
+// from one picked by the seed so a replayed game seats the same opponents.
+export function initializeGame(settings: GameSettings, seed: number = createSeed()): GameState {
+  const players: Array<Pick<Player, 'id' | 'name' | 'isAI' | 'avatar' | 'personalityId'>> = [];
+
+  // Create players based on settings
+  for (let i = 0; i < settings.playerCount; i++) {
+    const isAI = settings.mode === 'solo' && i > 0;
+    if (isAI) {
+      const personality = AI_PERSONALITIES[(seed + i - 1) % AI_PERSONALITIES.length];
+      players.push({ id: `player-${i}`, name: personality.name, isAI, avatar: personality.avatar, personalityId: personality.id });
+      continue;
+    }
+    players.push({
+      id: `player-${i}`,
+      name: i === 0 ? 'You' : `Player ${i + 1}`,
+      isAI,
+      avatar: i === 0 ? 'P1' : `P${i + 1}`
+    });
+  }
+
+  return createGameState(players, settings.rounds, settings.mode, seed);
+}
+
+// Check for three of a kind in columns
+export function checkThreeOfAKind(grid: GridCard[]): number[] {
+  const columns = [
+    [0, 3, 6], // Column 1
+    [1, 4, 7], // Column 2
+    [2, 5, 8]  // Column 3
+  ];
+
+  const threeOfAKindColumns: number[] = [];
+
+  for (let colIndex = 0; colIndex < columns.length; colIndex++) {
+    const columnPositions = columns[colIndex];
+    const revealedCards = columnPositions
+      .filter(pos => grid[pos].isRevealed && grid[pos].card)
+      .map(pos => grid[pos].card!);
+
+    if (revealedCards.length === 3) {
+      const values = revealedCards.map(card => card.value);
+      if (values[0] === values[1] && values[1] === values[2]) {
+        threeOfAKindColumns.push(colIndex);
+      }
+    }
+  }
+
+  return threeOfAKindColumns;
+}
+
+// Process three of a kind: discard matching cards and clear the column
+export function processThreeOfAKind(grid: GridCard[], discardPile: Card[]): { updatedGrid: GridCard[], updatedDiscardPile: Card[], hasThreeOfAKind: boolean } {
+  const columns = [
+    [0, 3, 6], // Column 1
+    [1, 4, 7], // Column 2
+    [2, 5, 8]  // Column 3
+  ];
+
+  let updatedGrid = [...grid];
+  let updatedDiscardPile = [...discardPile];
+  let hasThreeOfAKind = false;
+
+  for (let colIndex = 0; colIndex < columns.length; colIndex++) {
+    const columnPositions = columns[colIndex];
+    const columnCards = columnPositions
+      .filter(pos => updatedGrid[pos].isRevealed && updatedGrid[pos].card)
+      .map(pos => ({ pos, card: updatedGrid[pos].card! }));
+
+    if (columnCards.length === 3) {
+      const values = columnCards.map(item => item.card.value);
+      if (values[0] === values[1] && values[1] === values[2]) {
+        // Three of a kind found! Discard cards and clear column
+        hasThreeOfAKind = true;
+
+        // Add cards to discard pile
+        columnCards.forEach(item => {
+          updatedDiscardPile.push(item.card);
+        });
+
+        // Permanently disable the column positions
+        columnPositions.forEach(pos => {
+          updatedGrid[pos] = {
+            card: null,
+            isRevealed: true, // Keep revealed to show disabled state
+            position: pos,
+            isDisabled: true // Mark as permanently disabled
+          };
+        });
+      }
+    }
+  }
+
+  return { updatedGrid, updatedDiscardPile, hasThreeOfAKind };
+}
+
+// Calculate player score
+export function calculatePlayerScore(grid: GridCard[]): number {
+  const threeOfAKindColumns = checkThreeOfAKind(grid);
+  let score = 0;
+
+  const columns = [
+    [0, 3, 6], // Column 1
+    [1, 4, 7], // Column 2
+    [2, 5, 8]  // Column 3
+  ];
+
+  for (let colIndex = 0; colIndex < columns.length; colIndex++) {
+    if (threeOfAKindColumns.includes(colIndex)) {
+      // Three of a kind column = 0 points
+      continue;
+    }
+
+    const columnPositions = columns[colIndex];
+    for (const pos of columnPositions) {
+      if (grid[pos].isRevealed && grid[pos].card) {
+        score += getCardValue(grid[pos].card);
+      }
+    }
+  }
+
+  return score;
+}
+
+// Check if a single player has revealed (or cleared) every position
+export function hasRevealedAllCards(player: Player): boolean {
+  return player.grid.every(gridCard => gridCard.isRevealed || gridCard.isDisabled);
+}
+
+// Check if round should end
+export function shouldEndRound(players: Player[]): boolean {
+  return players.some(hasRevealedAllCards);
+}
+
+// Auto-reshuffle when draw pile is empty
+export function reshuffleIfNeeded(gameState: GameState, random: () => number = Math.random): GameState {
+  if (gameState.drawPile.length === 0 && gameState.discardPile.length > 1) {
+    const topDiscard = gameState.discardPile[gameState.discardPile.length - 1];
+    const newDrawPile = shuffleDeck(gameState.discardPile.slice(0, -1), random);
+
+    return {
+      ...gameState,
+      drawPile: newDrawPile,
+      discardPile: [topDiscard]
+    };
+  }
+
+  return gameState;
+}
+
+// Get display name for card
+export function getCardDisplayValue(card: Card): string {
+  return card.value === '10' ? '10' : card.value;
+}
+
+// Check if all players have peeked their cards
+export function hasPlayerFinishedPeeking(player: Player): boolean {
+  return player.grid.filter(gridCard => gridCard.isRevealed).length >= 2;
+}
+
+// Get next player index
+export function getNextPlayerIndex(currentIndex: number, playerCount: number): number {
+  return (currentIndex + 1) % playerCount;
+}
@@ -0,0 +1,102 @@
+// Core Golf 9 types shared by the client (solo / pass-and-play) and the server (online rooms)
+
+export interface Card {
+  suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
+  value: 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
+  id: string;
+}
+
+export interface GridCard {
+  card: Card | null;
+  isRevealed: boolean;
+  position: number; // 0-8 for 3x3 grid
+  isDisabled?: boolean; // True when position is permanently cleared from three-of-a-kind
+}
+
+export interface Player {
+  id: string;
+  name: string;
+  isAI: boolean;
+  grid: GridCard[];
+  roundScore: number;
+  totalScore: number;
+  isActive: boolean;
+  avatar: string;
+  personalityId?: string; // AI players only; see shared/aiPersonalities.ts
+}
+
+export interface GameState {
+  players: Player[];
+  currentPlayerIndex: number;
+  currentRound: number;
+  totalRounds: 5 | 9;
+  drawPile: Card[];
+  discardPile: Card[];
+  gamePhase: 'setup' | 'peek' | 'playing' | 'round-end' | 'game-end';
+  drawnCard: Card | null;
+  selectedGridPosition: number | null;
+  gameMode: 'solo' | 'pass-play' | 'online';
+  roundEndTriggered: boolean;
+  roundEndingPlayer?: number; // Index of player who triggered round end
+  extraTurn: boolean;
+  hasRevealedCardThisTurn: boolean;
+  turnComplete: boolean; // Current player has resolved their draw and may end the turn
+  rngState: number; // Seeded RNG state so deals and reshuffles are reproducible
+}
+
+export interface GameSettings {
+  playerCount: 2 | 3 | 4;
+  rounds: 5 | 9;
+  mode: 'solo' | 'pass-play'; // Note: 'online' mode is handled by MultiplayerGame component, not Game component
+  aiDifficulty?: AIDifficulty; // Solo only; defaults to normal
+}
+
+export type GameAction =
+  | { type: 'PEEK_CARD'; position: number }
+  | { type: 'DRAW_CARD'; source: 'draw' | 'discard' }
+  | { type: 'SELECT_GRID_POSITION'; position: number }
+  | { type: 'KEEP_DRAWN_CARD' }
+  | { type: 'KEEP_REVEALED_CARD' }
+  | { type: 'DISCARD_DRAWN_CARD' }
+  | { type: 'END_TURN' }
+  | { type: 'START_ROUND' };
+
+// Structured events emitted by the rules engine as a game is played. Server-side
+// consumers (achievements) read them from the verified replay or the room's log.
+export interface RoundResult {
+  playerIndex: number;
+  roundScore: number;
+  totalScore: number;
+  cards: (Card | null)[]; // Grid at round end, null where a column was cleared
+}
+
+export type GameEvent =
+  | { type: 'THREE_OF_A_KIND'; round: number; playerIndex: number; columns: number }
+  | { type: 'ROUND_END'; round: number; results: RoundResult[] };
+
+// What an online player is allowed to see: face-down cards carry no card, the draw
+// pile is only a count and the RNG state (which would predict every draw) is withheld
+export type GameStateView = Omit<GameState, 'drawPile' | 'rngState'> & {
+  drawPileCount: number;
+};
+
+// How well a computer opponent plays; see shared/aiLogic.ts
+export type AIDifficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+// One accepted action in a game's move log, replayed by the server to verify results
+export interface GameMove {
+  playerIndex: number;
+  action: GameAction;
+}
+
+// Server-issued, signed seed for a solo game. The client deals from `seed` and
+// sends the ticket back with its move log when the game is over.
+export interface SoloGameTicket {
+  gameId: string;
+  seed: number;
+  playerCount: GameSettings['playerCount'];
+  rounds: GameSettings['rounds'];
+  aiDifficulty: AIDifficulty; // The server checks the opponents' moves against this AI
+  issuedAt: number;
+  signature: string;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import type { Card, GameState, GridCard, Player } from "./gameTypes";
+import { initializeGame, nextRandom } from "./gameLogic";
+import { runMonteCarlo } from "./monteCarloAI";
+
+function card(value: Card['value']): Card {
+  return { value, suit: 'clubs', id: `clubs-${value}-0` };
+}
+
+// Nine grid positions; null leaves the position face down (with a hidden 9 under it)
+function player(id: string, values: (Card['value'] | null)[]): Player {
+  const grid: GridCard[] = values.map((value, position) => ({
+    card: card(value ?? '9'),
+    isRevealed: value !== null,
+    position,
+    isDisabled: false,
+  }));
+  return { id, name: id, isAI: id === 'ai', grid, roundScore: 0, totalScore: 0, isActive: true, avatar: 'AI' };
+}
+
+function tableState(top: Card['value'], ai: Player, rival: Player): GameState {
+  const state = initializeGame({ mode: 'solo', playerCount: 2, rounds: 9 }, 42);
+  return { ...state, gamePhase: 'playing', discardPile: [card(top)], players: [ai, rival] };
+}
+
+function seededRandom(seed: number): () => number {
+  const rng = { rngState: seed };
+  return () => nextRandom(rng);
+}
+
+describe("runMonteCarlo", () => {
+  it("answers without sampling when there is only one move", () => {
+    const ai = player('ai', ['Q', 'A', null, null, null, null, null, null, null]);
+    const state = { ...tableState('5', ai, player('rival', ['A', '2', null, null, null, null, null, null, null])), extraTurn: true };
+    const random = () => { throw new Error("sampled"); };
+
+    expect(runMonteCarlo({ kind: 'draw', state, playerIndex: 0 }, random)).toEqual({ action: 'draw-from-pile' });
+  });
+
+  it("takes the discard that completes three of a kind", () => {
+    const ai = player('ai', ['Q', 'A', '2', 'Q', '3', '4', '9', null, null]);
+    const state = tableState('Q', ai, player('rival', ['A', '2', null, null, null, null, null, null, null]));
+
+    expect(runMonteCarlo({ kind: 'draw', state, playerIndex: 0, samples: 40 }, seededRandom(1)))
+      .toEqual({ action: 'draw-from-discard', gridPosition: 6, keepDrawn: true });
+  });
+
+  it("keeps a drawn card that clears a column", () => {
+    const ai = player('ai', ['Q', 'A', '2', 'Q', '3', '4', '9', null, null]);
+    const state = {
+      ...tableState('8', ai, player('rival', ['A', '2', null, null, null, null, null, null, null])),
+      drawnCard: card('Q'),
+      selectedGridPosition: 6,
+    };
+
+    expect(runMonteCarlo({ kind: 'keep', state, playerIndex: 0, samples: 40 }, seededRandom(2))).toBe(true);
+  });
+
+  it("puts a 5 over its worst revealed card", () => {
+    const ai = player('ai', ['2', 'Q', '3', null, null, null, null, null, null]);
+    const state = { ...tableState('9', ai, player('rival', ['A', '2', null, null, null, null, null, null, null])), drawnCard: card('5') };
+
+    expect(runMonteCarlo({ kind: 'position', state, playerIndex: 0, samples: 40 }, seededRandom(3))).toBe(1);
+  });
+});
@@ -0,0 +1,345 @@
+import type { Card, GameState, Player } from './gameTypes';
+import {
+  shuffleDeck,
+  getCardValue,
+  processThreeOfAKind,
+  calculatePlayerScore,
+  hasRevealedAllCards,
+  reshuffleIfNeeded,
+  getNextPlayerIndex,
+  nextRandom,
+} from './gameLogic';
+import {
+  type AIDecision,
+  createAIRandom,
+  estimateUnseenCards,
+  makeAIDecision,
+  makeAIPlacementDecision,
+  selectAIGridPosition,
+  shouldAIDiscardDrawnCard,
+} from './aiLogic';
+
+// Monte Carlo decisions for Expert solo opponents. Each candidate move is tried
+// against many samples of the hidden cards: everything the AI hasn't seen (the
+// double deck minus every face-up card) is shuffled into the face-down grid
+// positions and the draw pile, then the rest of the round is played out with
+// the Normal AI for every player. A move is scored by the AI's round score less
+// the best rival's. The Expert lookahead's own move stands unless another one
+// does clearly better over the samples. Expensive enough that the client runs it
+// in a Web Worker (client/src/workers/monteCarlo.worker.ts); online seats keep
+// the lookahead AI. Unless told otherwise the samples are seeded by the position,
+// so the server can re-run a decision when it checks a solo game's move log.
+
+export const DEFAULT_MONTE_CARLO_SAMPLES = 150;
+const OVERRIDE_CONFIDENCE = 2; // Standard errors a move must beat the lookahead's by
+const MAX_ROLLOUT_TURNS = 200; // A round that hasn't ended by now is scored as it stands
+
+// The three decisions of a turn, asked one at a time as the turn unfolds
+export interface MonteCarloAnswers {
+  draw: AIDecision; // Before drawing: which pile, and where a discard would go
+  position: number | 'discard'; // With a card drawn: where it goes, or straight onto the discard pile
+  keep: boolean; // With a position turned over: keep the drawn card there?
+}
+
+export interface MonteCarloRequest<K extends keyof MonteCarloAnswers = keyof MonteCarloAnswers> {
+  kind: K;
+  state: GameState;
+  playerIndex: number;
+  samples?: number;
+}
+
+// How a candidate finishes the turn: keep the drawn card, keep the card already
+// there, or turn a face-down card over and keep whichever is lower
+type Keep = 'drawn' | 'revealed' | 'better';
+
+interface Candidate<T> {
+  answer: T;
+  play: (sim: GameState) => void;
+}
+
+export function runMonteCarlo<K extends keyof MonteCarloAnswers>(
+  request: MonteCarloRequest<K>,
+  random: () => number = createAIRandom(request.state, request.playerIndex)
+): MonteCarloAnswers[K] {
+  const { state, playerIndex, samples = DEFAULT_MONTE_CARLO_SAMPLES } = request;
+  const candidates = {
+    draw: drawCandidates,
+    position: positionCandidates,
+    keep: keepCandidates,
+  }[request.kind](state, playerIndex) as Candidate<MonteCarloAnswers[K]>[];
+
+  if (candidates.length === 1) return candidates[0].answer;
+
+  // differences[i][s]: how much worse candidate i did than the lookahead's move in sample s
+  const differences = candidates.map(() => [] as number[]);
+  for (let sample = 0; sample < samples; sample++) {
+    // Every candidate plays against the same hidden cards and reshuffles
+    const hidden = sampleHiddenCards(state, random);
+    const margins = candidates.map(candidate => {
+      const sim = cloneState(hidden);
+      candidate.play(sim);
+      return roundMargin(finishRound(sim), playerIndex);
+    });
+    margins.forEach((margin, index) => differences[index].push(margin - margins[0]));
+  }
+
+  // Override the lookahead only when the samples clearly say so
+  const means = differences.map(mean);
+  const best = means.indexOf(Math.min(...means));
+  return best !== 0 && means[best] < -OVERRIDE_CONFIDENCE * standardError(differences[best])
+    ? candidates[best].answer
+    : candidates[0].answer;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function standardError(values: number[]): number {
+  const average = mean(values);
+  const variance = values.reduce((sum, value) => sum + (value - average) ** 2, 0) / Math.max(1, values.length - 1);
+  return Math.sqrt(variance / values.length);
+}
+
+// Before the draw: a blind draw (placed by the Normal AI), or the discard on any open position
+function drawCandidates(state: GameState, playerIndex: number): Candidate<AIDecision>[] {
+  const player = state.players[playerIndex];
+  const lookahead = makeAIDecision(state, player, 'expert');
+  const candidates: Candidate<AIDecision>[] = [{
+    answer: { action: 'draw-from-pile' },
+    play: sim => playPolicyTurn(sim, playerIndex, { action: 'draw-from-pile' }),
+  }];
+  if (state.extraTurn || state.discardPile.length === 0) return candidates;
+
+  const discardCard = state.discardPile[state.discardPile.length - 1];
+  openPositions(player, true, discardCard, lookahead.gridPosition).forEach(position => {
+    const faceDown = !player.grid[position].isRevealed;
+    candidates.push({
+      answer: { action: 'draw-from-discard', gridPosition: position, keepDrawn: true },
+      play: sim => {
+        const card = sim.discardPile.pop()!;
+        placeCard(sim, playerIndex, card, position, faceDown ? 'better' : 'drawn');
+        finishMove(sim, playerIndex);
+      },
+    });
+  });
+  return lookaheadFirst(candidates, answer =>
+    answer.action === lookahead.action && answer.gridPosition === lookahead.gridPosition);
+}
+
+// With a card drawn: replace any revealed card, turn over any face-down card,
+// or get rid of the drawn card without changing the grid
+function positionCandidates(state: GameState, playerIndex: number): Candidate<MonteCarloAnswers['position']>[] {
+  const player = state.players[playerIndex];
+  const drawnCard = state.drawnCard!;
+  const candidates: Candidate<MonteCarloAnswers['position']>[] = [];
+  const withDrawn = (position: number | 'discard', keep: Keep) => (sim: GameState) => {
+    const card = sim.drawnCard!;
+    sim.drawnCard = null;
+    if (position === 'discard') {
+      sim.discardPile.push(card);
+    } else {
+      placeCard(sim, playerIndex, card, position, keep);
+    }
+    finishMove(sim, playerIndex);
+  };
+
+  const lookahead = shouldAIDiscardDrawnCard(state, player, drawnCard, 'expert')
+    ? 'discard'
+    : selectAIGridPosition(state, player, drawnCard, 'expert', createAIRandom(state, playerIndex));
+  openPositions(player, !state.hasRevealedCardThisTurn, drawnCard, lookahead).forEach(position => {
+    const keep = player.grid[position].isRevealed ? 'drawn' : 'better';
+    candidates.push({ answer: position, play: withDrawn(position, keep) });
+  });
+
+  // Discarding through a revealed position asks about keeping it next; with one
+  // face-down card left the drawn card can also go straight onto the pile
+  const faceDownCount = player.grid.filter(gridCard => !gridCard.isRevealed && !gridCard.isDisabled).length;
+  const revealed = player.grid.findIndex(gridCard => gridCard.isRevealed && !gridCard.isDisabled);
+  const discardThrough = faceDownCount === 1 && !state.hasRevealedCardThisTurn ? 'discard' : revealed;
+  if (discardThrough !== -1) {
+    candidates.push({ answer: discardThrough, play: withDrawn(discardThrough, 'revealed') });
+  }
+
+  // A revealed position the drawn card can't improve is the lookahead's way of discarding
+  const lookaheadDiscards = lookahead === 'discard'
+    || (player.grid[lookahead].isRevealed && player.grid[lookahead].card !== null
+      && getCardValue(drawnCard) >= getCardValue(player.grid[lookahead].card!));
+  const isDiscardThrough = (index: number) => discardThrough !== -1 && index === candidates.length - 1;
+  return lookaheadFirst(candidates, (answer, index) =>
+    answer === lookahead && (lookahead !== discardThrough || isDiscardThrough(index) === lookaheadDiscards));
+}
+
+// With the position turned over: keep the drawn card there, or the card that was there
+function keepCandidates(state: GameState, playerIndex: number): Candidate<boolean>[] {
+  const position = state.selectedGridPosition!;
+  const lookahead = makeAIPlacementDecision(state, state.players[playerIndex], state.drawnCard!, position, 'expert');
+  const candidates = [true, false].map(keepDrawn => ({
+    answer: keepDrawn,
+    play: (sim: GameState) => {
+      const card = sim.drawnCard!;
+      sim.drawnCard = null;
+      sim.selectedGridPosition = null;
+      placeCard(sim, playerIndex, card, position, keepDrawn ? 'drawn' : 'revealed');
+      finishMove(sim, playerIndex);
+    },
+  }));
+  return lookaheadFirst(candidates, answer => answer === lookahead);
+}
+
+// The Expert lookahead's own move goes first: the samples have to show that
+// another move is clearly better before it's overruled
+function lookaheadFirst<T>(candidates: Candidate<T>[], isLookahead: (answer: T, index: number) => boolean): Candidate<T>[] {
+  const index = candidates.findIndex((candidate, i) => isLookahead(candidate.answer, i));
+  if (index <= 0) return candidates;
+  return [candidates[index], ...candidates.slice(0, index), ...candidates.slice(index + 1)];
+}
+
+// Where the card could go. Putting it over a lower revealed card only makes the
+// shortlist when it pairs up its column; every extra candidate adds sampling
+// noise, and a noisy long shot would otherwise win now and then.
+function openPositions(player: Player, includeFaceDown: boolean, card: Card, lookahead?: number | 'discard'): number[] {
+  return player.grid
+    .filter(gridCard => {
+      if (gridCard.isDisabled) return false;
+      if (gridCard.position === lookahead) return true;
+      if (!gridCard.isRevealed || !gridCard.card) return includeFaceDown;
+      return getCardValue(card) < getCardValue(gridCard.card)
+        || player.grid.some(other => other.position % 3 === gridCard.position % 3 && other.position !== gridCard.position
+          && other.isRevealed && other.card?.value === card.value);
+    })
+    .map(gridCard => gridCard.position);
+}
+
+// A copy of the state with every card the AI hasn't seen dealt at random:
+// into the face-down grid positions first, the rest as the draw pile. Its own
+// seed keeps the rollouts' reshuffles (and the Normal AI's random picks) the
+// same for every candidate.
+function sampleHiddenCards(state: GameState, random: () => number): GameState {
+  const unseen = estimateUnseenCards(state);
+  const pool = shuffleDeck(
+    (Object.entries(unseen.counts) as [Card['value'], number][]).flatMap(([value, count]) =>
+      Array.from({ length: count }, (_, copy) => ({ value, suit: 'spades' as const, id: `sample-${value}-${copy}` }))),
+    random
+  );
+
+  const sim = cloneState(state);
+  sim.players.forEach(player => {
+    player.grid.forEach(gridCard => {
+      if (!gridCard.isRevealed && !gridCard.isDisabled) {
+        gridCard.card = pool.pop() ?? gridCard.card;
+      }
+    });
+  });
+  sim.drawPile = pool;
+  sim.rngState = Math.floor(random() * 0x100000000) >>> 0;
+  return sim;
+}
+
+// Rollouts change the state in place, so each one gets its own grids and piles
+function cloneState(state: GameState): GameState {
+  return {
+    ...state,
+    players: state.players.map(player => ({ ...player, grid: player.grid.map(gridCard => ({ ...gridCard })) })),
+    drawPile: [...state.drawPile],
+    discardPile: [...state.discardPile],
+  };
+}
+
+// Turn the position over and keep one of the two cards there; the other is discarded
+function placeCard(sim: GameState, playerIndex: number, card: Card, position: number, keep: Keep): void {
+  const gridCard = sim.players[playerIndex].grid[position];
+  gridCard.isRevealed = true;
+
+  const keepDrawn = keep === 'drawn' || (keep === 'better' && (!gridCard.card || getCardValue(card) < getCardValue(gridCard.card)));
+  if (keepDrawn) {
+    if (gridCard.card) sim.discardPile.push(gridCard.card);
+    gridCard.card = card;
+  } else {
+    sim.discardPile.push(card);
+  }
+}
+
+// The engine's end of a move: clear columns (earning another turn while there is
+// anywhere left to play), start the final lap once a grid is face up and pass the turn
+function finishMove(sim: GameState, playerIndex: number): void {
+  const player = sim.players[playerIndex];
+  const cleared = processThreeOfAKind(player.grid, sim.discardPile);
+  if (cleared.hasThreeOfAKind) {
+    player.grid = cleared.updatedGrid;
+    sim.discardPile = cleared.updatedDiscardPile;
+    if (player.grid.some(gridCard => !gridCard.isDisabled)) {
+      sim.extraTurn = true;
+      sim.hasRevealedCardThisTurn = false;
+      playPolicyTurn(sim, playerIndex);
+      return;
+    }
+  }
+
+  sim.extraTurn = false;
+  sim.hasRevealedCardThisTurn = false;
+  if (!sim.roundEndTriggered && hasRevealedAllCards(player)) {
+    sim.roundEndTriggered = true;
+    sim.roundEndingPlayer = playerIndex;
+  }
+
+  const next = getNextPlayerIndex(playerIndex, sim.players.length);
+  if (sim.roundEndTriggered && next === sim.roundEndingPlayer) {
+    sim.gamePhase = 'round-end';
+  } else {
+    sim.currentPlayerIndex = next;
+  }
+}
+
+// One move by the Normal AI, the same decisions it makes as a solo opponent.
+// Rollouts use it because the lookahead is far too slow to play thousands of rounds.
+function playPolicyTurn(
+  sim: GameState,
+  playerIndex: number,
+  decision: AIDecision = makeAIDecision(sim, sim.players[playerIndex], 'normal')
+): void {
+  const player = sim.players[playerIndex];
+
+  let card: Card | undefined;
+  if (decision.action === 'draw-from-discard') {
+    card = sim.discardPile.pop();
+  } else {
+    const reshuffled = reshuffleIfNeeded(sim, () => nextRandom(sim));
+    sim.drawPile = reshuffled.drawPile;
+    sim.discardPile = reshuffled.discardPile;
+    card = sim.drawPile.shift();
+  }
+  if (!card) {
+    sim.gamePhase = 'round-end'; // Nothing left to draw
+    return;
+  }
+
+  if (shouldAIDiscardDrawnCard(sim, player, card, 'normal')) {
+    sim.discardPile.push(card);
+  } else {
+    const position = decision.gridPosition ?? selectAIGridPosition(sim, player, card, 'normal', () => nextRandom(sim));
+    player.grid[position].isRevealed = true; // Selecting turns it over before the keep decision
+    placeCard(sim, playerIndex, card, position, makeAIPlacementDecision(sim, player, card, position, 'normal') ? 'drawn' : 'revealed');
+  }
+  finishMove(sim, playerIndex);
+}
+
+// The AI's round score against the best of the rest. Scoring well matters less
+// than scoring better: stalling for a lower grid helps nobody if the rivals use
+// the extra turns better.
+function roundMargin(scores: number[], playerIndex: number): number {
+  return scores[playerIndex] - Math.min(...scores.filter((_, index) => index !== playerIndex));
+}
+
+// Play the round out and score every grid as the engine would
+function finishRound(sim: GameState): number[] {
+  for (let turn = 0; turn < MAX_ROLLOUT_TURNS && sim.gamePhase === 'playing'; turn++) {
+    playPolicyTurn(sim, sim.currentPlayerIndex);
+  }
+  return sim.players.map(player => {
+    player.grid.forEach(gridCard => {
+      if (gridCard.card && !gridCard.isDisabled) gridCard.isRevealed = true;
+    });
+    return calculatePlayerScore(player.grid);
+  });
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, jsonb, timestamp, index, bigint } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, jsonb, timestamp, index, uniqueIndex, bigint } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -54,6 +54,7 @@ export const gameStats = pgTable("game_stats", {
   // Performance metrics
   perfectGames: integer("perfect_games").default(0), // Games with score 0
   comebackWins: integer("comeback_wins").default(0), // Wins from behind
+  threeOfAKindColumns: integer("three_of_a_kind_columns").default(0), // Columns cleared by three of a kind
   
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -63,6 +64,9 @@ export const gameHistory = pgTable("game_history", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   
+  // Server-verified game this result belongs to (solo ticket id or online room id)
+  gameId: varchar("game_id"),
+  
   // Game details
   gameMode: varchar("game_mode").notNull(), // 'solo', 'pass-play', 'online'
   playerCount: integer("player_count").notNull(),
@@ -81,7 +85,10 @@ export const gameHistory = pgTable("game_history", {
   gameDuration: integer("game_duration"), // in seconds
   
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Rewards for a game can only ever be claimed once per player
+  uniqueIndex("UQ_game_history_user_game").on(table.userId, table.gameId),
+]);
 
 // Achievements system
 export const achievements = pgTable("achievements", {
@@ -100,7 +107,10 @@ export const userAchievements = pgTable("user_achievements", {
   userId: varchar("user_id").notNull().references(() => users.id),
   achievementId: varchar("achievement_id").notNull().references(() => achievements.id),
   unlockedAt: timestamp("unlocked_at").defaultNow(),
-});
+}, (table) => [
+  // An achievement can only be unlocked (and rewarded) once per player
+  uniqueIndex("UQ_user_achievements_user_achievement").on(table.userId, table.achievementId),
+]);
 
 // Cosmetic items
 export const cosmetics = pgTable("cosmetics", {
@@ -160,12 +170,60 @@ export const gameRooms = pgTable("game_rooms", {
   stakeBracket: varchar("stake_bracket"), // 'free', 'low', 'medium', 'high', 'premium'
   status: varchar("status").default("room"), // 'room' (pre-game), 'playing', 'finished'
   visibility: varchar("visibility").default("public"), // 'public', 'private', 'friends'
+  passphraseHash: varchar("passphrase_hash"), // Optional passphrase for private rooms, never sent to clients
   maxPlayers: integer("max_players").default(4),
   version: bigint("version", { mode: "bigint" }).default(BigInt(1)).notNull(), // For optimistic concurrency control
+  escrow: integer("escrow").default(0).notNull(), // Entry fees held until the room finishes
   createdAt: text("created_at").default(sql`NOW()`),
   isActive: boolean("is_active").default(true),
 });
 
+// Every change to a user's coin balance, written in the same transaction as the change
+export const currencyTransactions = pgTable("currency_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  delta: integer("delta").notNull(),
+  reason: varchar("reason").notNull(), // 'game_reward', 'cosmetic_purchase', 'stake_entry', 'stake_refund', 'stake_payout', 'achievement'
+  referenceId: varchar("reference_id"), // Game, cosmetic, room or achievement the change belongs to
+  balanceAfter: integer("balance_after").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_currency_transactions_user").on(table.userId, table.createdAt)]);
+
+// Every coin movement in or out of a room's escrow
+export const stakeLedger = pgTable("stake_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomId: varchar("room_id").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: varchar("type").notNull(), // 'entry', 'refund', 'payout'
+  amount: integer("amount").notNull(), // Change to the player's balance (negative for entries)
+  escrowAfter: integer("escrow_after").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Friend requests between players; a row stays 'pending' until the addressee
+// accepts it, and declining or unfriending deletes it
+export const friendships = pgTable("friendships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requesterId: varchar("requester_id").notNull().references(() => users.id),
+  addresseeId: varchar("addressee_id").notNull().references(() => users.id),
+  status: varchar("status").notNull().default("pending"), // 'pending', 'accepted'
+  createdAt: timestamp("created_at").defaultNow(),
+  acceptedAt: timestamp("accepted_at"),
+}, (table) => [
+  uniqueIndex("UQ_friendships_pair").on(table.requesterId, table.addresseeId),
+  index("IDX_friendships_addressee").on(table.addresseeId),
+]);
+
+// Chat lines sent at a table; storage keeps only the latest CHAT_HISTORY_LIMIT per room
+export const roomChatMessages = pgTable("room_chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  roomCode: text("room_code").notNull(),
+  userId: varchar("user_id").notNull(),
+  name: varchar("name").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_room_chat_messages_room").on(table.roomCode, table.createdAt)]);
+
 // Schema definitions for inserts
 export const upsertUserSchema = createInsertSchema(users).pick({
   id: true,
@@ -191,6 +249,15 @@ export const insertGameRoomSchema = createInsertSchema(gameRooms).pick({
   players: true,
   settings: true,
   stakeBracket: true,
+  visibility: true,
+  passphraseHash: true,
+});
+
+export const insertRoomChatMessageSchema = createInsertSchema(roomChatMessages).pick({
+  roomCode: true,
+  userId: true,
+  name: true,
+  text: true,
 });
 
 export const insertAchievementSchema = createInsertSchema(achievements);
@@ -229,10 +296,33 @@ export type UserAchievement = typeof userAchievements.$inferSelect;
 export type Cosmetic = typeof cosmetics.$inferSelect;
 export type UserCosmetic = typeof userCosmetics.$inferSelect;
 export type UserSettings = typeof userSettings.$inferSelect;
+export type StakeLedgerEntry = typeof stakeLedger.$inferSelect;
+export type CurrencyTransaction = typeof currencyTransactions.$inferSelect;
+export type Friendship = typeof friendships.$inferSelect;
+export type RoomChatMessage = typeof roomChatMessages.$inferSelect;
+
+// Criteria stored in achievements.requirement, checked against the player's totals
+// Running-total requirements are checked against stats; the rest are checked
+// against the events of the game that was just played
+export type AchievementRequirement =
+  | { type: 'wins' | 'games_played' | 'level' | 'perfect_score' | 'win_streak' | 'three_of_a_kind_columns'; count: number }
+  | { type: 'round_win_with_cards'; value: string; count: number } // Win a round holding `count` cards of `value`
+  | { type: 'comeback_win'; round: number } // Win after being last once `round` was scored
+  | { type: 'stake_win'; stakeBracket: string } // Win an online table at this stake
+  | { type: 'round_all_non_positive' }; // End a round with nine cards all worth zero or less
+
+export type CurrencyTransactionReason =
+  | 'game_reward'
+  | 'cosmetic_purchase'
+  | 'stake_entry'
+  | 'stake_refund'
+  | 'stake_payout'
+  | 'achievement';
 
 export type InsertGameStats = z.infer<typeof insertGameStatsSchema>;
 export type InsertGameHistory = z.infer<typeof insertGameHistorySchema>;
 export type InsertGameRoom = z.infer<typeof insertGameRoomSchema>;
+export type InsertRoomChatMessage = z.infer<typeof insertRoomChatMessageSchema>;
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
 export type InsertUserAchievement = z.infer<typeof insertUserAchievementSchema>;
 export type InsertCosmetic = z.infer<typeof insertCosmeticSchema>;
@@ -250,3 +340,29 @@ export const STAKE_BRACKETS = {
 } as const;
 
 export type StakeBracket = keyof typeof STAKE_BRACKETS;
+
+// Per-turn clock choices for online rooms, in seconds; 0 leaves turns untimed
+export const TURN_TIME_OPTIONS = [0, 15, 30, 60] as const;
+export const DEFAULT_TURN_TIME_SECONDS = 30;
+
+// Who can find a room: public rooms are listed in the lobby, private rooms are
+// reached only by their code or an invite link, and friends-only rooms are
+// listed for and open to the host's friends alone
+export const ROOM_VISIBILITIES = ['public', 'private', 'friends'] as const;
+export type RoomVisibility = typeof ROOM_VISIBILITIES[number];
+
+// Table chat limits
+export const CHAT_HISTORY_LIMIT = 50; // Messages kept per room
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// Quick-chat emotes players can send during an online game without typing
+export const QUICK_CHAT_EMOTES = [
+  { id: 'nice', label: 'Nice!', emoji: '👍' },
+  { id: 'ouch', label: 'Ouch', emoji: '😬' },
+  { id: 'wow', label: 'Wow!', emoji: '😮' },
+  { id: 'thinking', label: 'Hmm...', emoji: '🤔' },
+  { id: 'your_turn', label: 'Your turn!', emoji: '⏰' },
+  { id: 'good_game', label: 'Good game', emoji: '🤝' },
+] as const;
+export type QuickChatEmoteId = typeof QUICK_CHAT_EMOTES[number]['id'];
+export const EMOTE_THROTTLE_MS = 2000; // One emote per player this often
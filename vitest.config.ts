@@ -0,0 +1,22 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+      "@assets": path.resolve(import.meta.dirname, "attached_assets"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["{client,server,shared}/**/*.test.ts"],
+    // Server tests run on MemStorage with local logins, so no database or Replit is needed
+    env: {
+      STORAGE: "memory",
+      AUTH_PROVIDER: "local",
+      SESSION_SECRET: "test-session-secret",
+    },
+  },
+});